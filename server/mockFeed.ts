@@ -0,0 +1,253 @@
+import { readFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { WebSocket, WebSocketServer } from 'ws';
+import { BarInterval, StockData } from '@/types';
+import { getBarTime } from '@/utils/barInterval';
+import { parseOhlcvCsv } from '@/utils/csvProvider';
+import type { LiveBar, LiveFeedMessage, LiveFeedRequest, LiveTrade } from '@/utils/liveFeed';
+import { fetchStockData } from '@/utils/stockData';
+import { addTradingDays, formatExchangeTime, fromDateKey, getSessionBounds, previousTradingDay, toDateKey } from '@/utils/tradingCalendar';
+
+// Mock live feed server
+// Replays bars as live quotes for the app's live feed (src/utils/liveFeed.ts), on a simulated
+// clock that starts at a session's open and runs `speed` times faster than real time. Each bar is
+// played as four trades across its period (open, the low and the high in the order the bar moved,
+// then close), each followed by the bar as it stands, and the complete bar is sent final when its
+// period ends. After the close the clock moves to the next session's open.
+//
+//   npm run feed -- [--port 8788] [--speed 60] [--date YYYY-MM-DD] [--csv file.csv [--symbol SYM]]
+//
+// Without --csv, any symbol is replayed from the simulated one-minute bars of the mock data
+// generator, starting on --date (by default the latest trading day). With --csv, the file's
+// daily rows are replayed for its symbol (--symbol, or the file name), starting on --date or the
+// file's first day, each over its whole session.
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8788' },
+    speed: { type: 'string', default: '1' },
+    date: { type: 'string' },
+    csv: { type: 'string' },
+    symbol: { type: 'string' }
+  }
+});
+
+const TICK_MS = 100;
+const TRADES_PER_BAR = 4;
+
+// A bar to replay and the period it is played over, as UTC milliseconds
+interface ReplayBar {
+  bar: StockData;
+  interval: BarInterval;
+  start: number;
+  end: number;
+}
+
+// A trade and the bar as it stands after it, or the bar closing
+interface ReplayEvent {
+  time: number;
+  trade?: LiveTrade;
+  bar: LiveBar;
+}
+
+interface ReplaySource {
+  // The symbol's bars in a session, or null when the source has no such symbol
+  getSessionBars: (symbol: string, day: string) => Promise<ReplayBar[] | null>;
+  // The first and last sessions with bars, when there are any
+  firstDay?: string;
+  lastDay?: string;
+}
+
+// Bars of one subscribed symbol in the current session, and how far they have been played
+interface SymbolReplay {
+  events: ReplayEvent[];
+  played: number;
+  bars: LiveBar[];
+  clients: Set<WebSocket>;
+  ready: Promise<boolean>;
+}
+
+const createGeneratorSource = (): ReplaySource => ({
+  getSessionBars: async (symbol, day) => {
+    const bars = await fetchStockData(symbol, fromDateKey(day), fromDateKey(day), '1m');
+    return bars.map(bar => {
+      const start = getBarTime(bar.date);
+      return { bar, interval: '1m' as const, start, end: Math.min(start + 60000, getSessionBounds(day).close) };
+    });
+  }
+});
+
+const createCsvSource = (file: string, symbol: string): ReplaySource => {
+  const rows = parseOhlcvCsv(readFileSync(file, 'utf8'), symbol);
+  if (rows.length === 0) {
+    throw new Error(`${file} has no bars`);
+  }
+  return {
+    firstDay: rows[0].date,
+    lastDay: rows[rows.length - 1].date,
+    getSessionBars: async (requested, day) => {
+      if (requested !== symbol) return null;
+      const { open, close } = getSessionBounds(day);
+      return rows
+        .filter(row => row.date === day)
+        .map(row => ({ bar: row, interval: '1d' as const, start: open, end: close }));
+    }
+  };
+};
+
+// Splits a bar into trades at even steps through its period, then the bar closing
+const toReplayEvents = ({ bar, interval, start, end }: ReplayBar): ReplayEvent[] => {
+  const prices = [bar.open, ...(bar.close >= bar.open ? [bar.low, bar.high] : [bar.high, bar.low]), bar.close];
+  const size = Math.floor(bar.volume / TRADES_PER_BAR);
+  let current: StockData = { ...bar, high: bar.open, low: bar.open, close: bar.open, volume: 0 };
+
+  const trades = prices.map((price, i): ReplayEvent => {
+    const time = start + ((end - start) * i) / TRADES_PER_BAR;
+    const trade: LiveTrade = {
+      price,
+      size: i === TRADES_PER_BAR - 1 ? bar.volume - size * (TRADES_PER_BAR - 1) : size,
+      time: formatExchangeTime(time)
+    };
+    current = {
+      ...current,
+      high: Math.max(current.high, price),
+      low: Math.min(current.low, price),
+      close: price,
+      volume: current.volume + trade.size,
+      ...(bar.adjClose !== undefined && { adjClose: (price * bar.adjClose) / bar.close })
+    };
+    return { time, trade, bar: { bar: current, interval, final: false } };
+  });
+  return [...trades, { time: end, bar: { bar, interval, final: true } }];
+};
+
+const source = args.csv
+  ? createCsvSource(args.csv, (args.symbol ?? basename(args.csv, extname(args.csv))).toUpperCase())
+  : createGeneratorSource();
+const speed = Number(args.speed);
+if (!(speed > 0)) {
+  throw new Error(`--speed must be a positive number, not ${args.speed}`);
+}
+
+let day = args.date ?? source.firstDay ?? previousTradingDay(toDateKey(new Date()));
+let session = getSessionBounds(day);
+let clock = session.open;
+const replays = new Map<string, SymbolReplay>();
+
+const send = (client: WebSocket, message: LiveFeedMessage) => {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+};
+
+// Plays a symbol's events up to the clock, sending them to its clients when asked to
+const play = (symbol: string, replay: SymbolReplay, broadcast: boolean) => {
+  while (replay.played < replay.events.length && replay.events[replay.played].time <= clock) {
+    const event = replay.events[replay.played++];
+    const last = replay.bars[replay.bars.length - 1];
+    if (last?.bar.date === event.bar.bar.date) {
+      replay.bars[replay.bars.length - 1] = event.bar;
+    } else {
+      replay.bars.push(event.bar);
+    }
+    if (!broadcast) continue;
+    replay.clients.forEach(client => {
+      if (event.trade) {
+        send(client, { type: 'trade', symbol, trade: event.trade });
+      }
+      send(client, { type: 'bar', symbol, bar: event.bar });
+    });
+  }
+};
+
+// Loads a symbol's bars for the current session and catches up with the clock. A new subscription
+// catches up quietly and is sent a snapshot; a new session is played to clients from its open.
+const load = (symbol: string, replay: SymbolReplay, broadcast: boolean) => {
+  const loading = day;
+  replay.ready = source.getSessionBars(symbol, loading).then(bars => {
+    if (!bars) return false;
+    if (loading === day) {
+      replay.events = bars.flatMap(toReplayEvents).sort((a, b) => a.time - b.time);
+      replay.played = 0;
+      replay.bars = [];
+      play(symbol, replay, broadcast);
+    }
+    return true;
+  });
+};
+
+const subscribe = async (client: WebSocket, symbol: string) => {
+  let replay = replays.get(symbol);
+  if (!replay) {
+    replay = { events: [], played: 0, bars: [], clients: new Set(), ready: Promise.resolve(true) };
+    replays.set(symbol, replay);
+    load(symbol, replay, false);
+  }
+  replay.clients.add(client);
+  const known = await replay.ready.catch(() => false);
+  // Unsubscribed while the bars were loading
+  if (!replay.clients.has(client)) return;
+  if (!known) {
+    unsubscribe(client, symbol);
+    send(client, { type: 'error', symbol, message: `No bars to replay for ${symbol}` });
+    return;
+  }
+  send(client, { type: 'snapshot', symbol, bars: replay.bars });
+};
+
+const unsubscribe = (client: WebSocket, symbol: string) => {
+  const replay = replays.get(symbol);
+  replay?.clients.delete(client);
+  if (replay && replay.clients.size === 0) {
+    replays.delete(symbol);
+  }
+};
+
+// Advance the clock, moving to the next session's open after the close
+let lastTick = Date.now();
+setInterval(() => {
+  const now = Date.now();
+  clock = Math.min(clock + (now - lastTick) * speed, session.close);
+  lastTick = now;
+  replays.forEach((replay, symbol) => play(symbol, replay, true));
+
+  if (clock < session.close || (source.lastDay && day >= source.lastDay)) return;
+  day = addTradingDays(day, 1);
+  session = getSessionBounds(day);
+  clock = session.open;
+  console.log(`Replaying ${day}`);
+  replays.forEach((replay, symbol) => load(symbol, replay, true));
+}, TICK_MS);
+
+const server = new WebSocketServer({ port: Number(args.port) });
+
+server.on('connection', client => {
+  const subscribed = new Set<string>();
+  client.on('message', data => {
+    let request: LiveFeedRequest;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      send(client, { type: 'error', message: 'Requests must be JSON' });
+      return;
+    }
+    const symbols = Array.isArray(request.symbols) ? request.symbols.map(symbol => String(symbol).toUpperCase()) : [];
+    if (request.type === 'subscribe') {
+      symbols.filter(symbol => !subscribed.has(symbol)).forEach(symbol => {
+        subscribed.add(symbol);
+        subscribe(client, symbol);
+      });
+    } else if (request.type === 'unsubscribe') {
+      symbols.forEach(symbol => {
+        subscribed.delete(symbol);
+        unsubscribe(client, symbol);
+      });
+    } else {
+      send(client, { type: 'error', message: 'Unknown request type' });
+    }
+  });
+  client.on('close', () => subscribed.forEach(symbol => unsubscribe(client, symbol)));
+});
+
+console.log(`Mock live feed on ws://localhost:${args.port}, replaying ${day} at ${speed}x`);
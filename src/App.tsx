@@ -4,27 +4,42 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { MarketDataSource } from "@/components/MarketDataSource";
+import { AnomalyTriageProvider } from "@/components/AnomalyTriageProvider";
+import { DetectionConfigProvider } from "@/components/DetectionConfigProvider";
+import { createMarketDataProvider, getConfiguredSource } from "@/utils/marketDataSource";
 import Index from "./pages/Index";
 import Portfolio from "./pages/Portfolio";
+import Evaluation from "./pages/Evaluation";
 import NotFound from "./pages/NotFound";
 
 // Create a client for React Query
 const queryClient = new QueryClient();
 
+// Every page reads market data from the same provider
+const marketDataProvider = createMarketDataProvider(getConfiguredSource());
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/portfolio" element={<Portfolio />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <MarketDataSource provider={marketDataProvider}>
+      <DetectionConfigProvider>
+        <AnomalyTriageProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/portfolio" element={<Portfolio />} />
+                <Route path="/evaluation" element={<Evaluation />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </AnomalyTriageProvider>
+      </DetectionConfigProvider>
+    </MarketDataSource>
   </QueryClientProvider>
 );
 
@@ -1,8 +1,13 @@
 
+import { useState } from 'react';
 import { AnomalyData } from '@/types';
+import { formatBarDate, TIMEFRAME_LABELS } from '@/utils/barInterval';
+import { getTriageStatus, TRIAGE_STATUS_LABELS, TRIAGE_STATUSES, TriageStatus } from '@/utils/anomalyTriage';
+import { useAnomalyTriage } from '@/hooks/use-anomaly-triage';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, TrendingUp, BarChart } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, TrendingUp, BarChart, Layers } from 'lucide-react';
 
 interface AnomalyListProps {
   anomalies: AnomalyData[];
@@ -11,24 +16,36 @@ interface AnomalyListProps {
 }
 
 export function AnomalyList({ anomalies, onAnomalyClick, selectedAnomalyId }: AnomalyListProps) {
+  const { triage } = useAnomalyTriage();
+  const [statusFilter, setStatusFilter] = useState<TriageStatus | 'all'>('all');
+  
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { 
-      weekday: 'short',
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric'
-    });
+    return formatBarDate(dateString, { withWeekday: true, withYear: true });
+  };
+  
+  const typeLabels: Record<AnomalyData['type'], string> = {
+    price: 'Price',
+    volume: 'Volume',
+    regime: 'Regime'
+  };
+
+  const formatPeriod = (anomaly: AnomalyData) => {
+    if (anomaly.type !== 'regime') return formatDate(anomaly.date);
+    return anomaly.endDate
+      ? `${formatDate(anomaly.date)} – ${formatDate(anomaly.endDate)}`
+      : `Since ${formatDate(anomaly.date)}`;
   };
   
-  // Sort anomalies by severity (high to low) then by date (newest first)
-  const sortedAnomalies = [...anomalies].sort((a, b) => {
-    const severityScore = { high: 3, medium: 2, low: 1 };
-    if (severityScore[b.severity] !== severityScore[a.severity]) {
-      return severityScore[b.severity] - severityScore[a.severity];
-    }
-    return new Date(b.date).getTime() - new Date(a.date).getTime();
-  });
+  // Show the anomalies in the chosen triage state, by severity (high to low) then by date (newest first)
+  const sortedAnomalies = anomalies
+    .filter(anomaly => statusFilter === 'all' || getTriageStatus(triage, anomaly.id) === statusFilter)
+    .sort((a, b) => {
+      const severityScore = { high: 3, medium: 2, low: 1 };
+      if (severityScore[b.severity] !== severityScore[a.severity]) {
+        return severityScore[b.severity] - severityScore[a.severity];
+      }
+      return new Date(b.date).getTime() - new Date(a.date).getTime();
+    });
 
   return (
     <Card className="h-full overflow-hidden flex flex-col">
@@ -37,13 +54,26 @@ export function AnomalyList({ anomalies, onAnomalyClick, selectedAnomalyId }: An
           <AlertCircle className="mr-2 h-4 w-4 sm:h-5 sm:w-5" /> 
           <span className="hidden sm:inline">Detected Anomalies</span>
           <span className="sm:hidden">Anomalies</span>
-          <Badge variant="outline" className="ml-2 text-xs">{anomalies.length}</Badge>
+          <Badge variant="outline" className="ml-2 text-xs" title={statusFilter === 'all' ? undefined : `${sortedAnomalies.length} shown of ${anomalies.length}`}>
+            {statusFilter === 'all' ? anomalies.length : `${sortedAnomalies.length} / ${anomalies.length}`}
+          </Badge>
+          <Select value={statusFilter} onValueChange={value => setStatusFilter(value as TriageStatus | 'all')}>
+            <SelectTrigger className="ml-auto h-8 w-32 sm:w-36 text-xs font-normal">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {TRIAGE_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{TRIAGE_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardTitle>
       </CardHeader>
       <CardContent className="overflow-auto flex-grow px-3 sm:px-6">
         {sortedAnomalies.length === 0 ? (
           <div className="text-center py-6 sm:py-8 text-muted-foreground text-sm">
-            No anomalies detected
+            {anomalies.length === 0 ? 'No anomalies detected' : `No ${TRIAGE_STATUS_LABELS[statusFilter as TriageStatus].toLowerCase()} anomalies`}
           </div>
         ) : (
           <div className="space-y-2 sm:space-y-3">
@@ -54,32 +84,46 @@ export function AnomalyList({ anomalies, onAnomalyClick, selectedAnomalyId }: An
                   selectedAnomalyId === anomaly.id 
                     ? 'bg-accent border-l-4 border-primary' 
                     : 'hover:bg-secondary'
-                }`}
+                } ${['dismissed', 'falsePositive'].includes(getTriageStatus(triage, anomaly.id)) ? 'opacity-60' : ''}`}
                 onClick={() => onAnomalyClick(anomaly)}
               >
                 <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 mb-2">
                   <div className="font-medium flex items-center text-sm sm:text-base">
                     {anomaly.type === 'price' ? (
                       <TrendingUp className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+                    ) : anomaly.type === 'regime' ? (
+                      <Layers className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
                     ) : (
                       <BarChart className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
                     )}
-                    <span className="hidden sm:inline">{anomaly.type === 'price' ? 'Price' : 'Volume'} Anomaly</span>
-                    <span className="sm:hidden">{anomaly.type === 'price' ? 'Price' : 'Volume'}</span>
+                    <span className="hidden sm:inline">{typeLabels[anomaly.type]} {anomaly.type === 'regime' ? 'Shift' : 'Anomaly'}</span>
+                    <span className="sm:hidden">{typeLabels[anomaly.type]}</span>
+                  </div>
+                  <div className="flex gap-1 self-start">
+                    {getTriageStatus(triage, anomaly.id) !== 'new' && (
+                      <Badge variant="outline" className="text-xs" title={triage[anomaly.id]?.note}>
+                        {TRIAGE_STATUS_LABELS[getTriageStatus(triage, anomaly.id)].toLowerCase()}
+                      </Badge>
+                    )}
+                    {anomaly.confirmed && (
+                      <Badge variant="secondary" className="text-xs" title={anomaly.timeframes?.map(timeframe => TIMEFRAME_LABELS[timeframe]).join(', ')}>
+                        confirmed
+                      </Badge>
+                    )}
+                    <Badge 
+                      variant={
+                        anomaly.severity === 'high' 
+                          ? 'destructive' 
+                          : (anomaly.severity === 'medium' ? 'default' : 'outline')
+                      }
+                      className="text-xs"
+                    >
+                      {anomaly.severity}
+                    </Badge>
                   </div>
-                  <Badge 
-                    variant={
-                      anomaly.severity === 'high' 
-                        ? 'destructive' 
-                        : (anomaly.severity === 'medium' ? 'default' : 'outline')
-                    }
-                    className="text-xs self-start"
-                  >
-                    {anomaly.severity}
-                  </Badge>
                 </div>
                 <div className="text-xs sm:text-sm text-muted-foreground mb-1">
-                  {formatDate(anomaly.date)}
+                  {formatPeriod(anomaly)}
                 </div>
                 <div className="text-xs sm:text-sm line-clamp-2">
                   {anomaly.description}
@@ -0,0 +1,67 @@
+import { AnomalyData } from '@/types';
+import { getDetectorName } from '@/utils/anomalyDetection';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface AnomalyScoreBreakdownProps {
+  anomaly: AnomalyData;
+}
+
+export function AnomalyScoreBreakdown({ anomaly }: AnomalyScoreBreakdownProps) {
+  const contributions = anomaly.contributions ?? [];
+
+  if (contributions.length === 0) {
+    return null;
+  }
+
+  const formatStatistic = (value: number) => {
+    return Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(3);
+  };
+
+  const formatPValue = (value: number) => {
+    return value < 0.001 ? '<0.001' : value.toFixed(3);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground mb-1">Score Breakdown</p>
+      <Table className="text-xs sm:text-sm">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Detector</TableHead>
+            <TableHead className="text-right">Statistic</TableHead>
+            <TableHead className="text-right">Threshold</TableHead>
+            <TableHead className="text-right">p-value</TableHead>
+            <TableHead className="text-right">Weight</TableHead>
+            <TableHead className="text-right">Weighted Score</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {contributions.map((contribution, index) => (
+            <TableRow key={`${contribution.detectorId}-${index}`} title={contribution.description}>
+              <TableCell className="font-medium">{getDetectorName(contribution.detectorId)}</TableCell>
+              <TableCell className="text-right">{formatStatistic(contribution.statistic)}</TableCell>
+              <TableCell className="text-right">{formatStatistic(contribution.threshold)}</TableCell>
+              <TableCell className="text-right">{formatPValue(contribution.pValue)}</TableCell>
+              <TableCell className="text-right">{contribution.weight.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{contribution.weightedScore.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={5}>Total</TableCell>
+            <TableCell className="text-right">{anomaly.score.toFixed(2)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
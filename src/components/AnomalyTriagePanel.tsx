@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AnomalyData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAnomalyTriage } from '@/hooks/use-anomaly-triage';
+import { useToast } from '@/hooks/use-toast';
+import { AnomalyTriageUpdate, getTriageStatus, TRIAGE_STATUS_LABELS, TRIAGE_STATUSES, TriageStatus } from '@/utils/anomalyTriage';
+
+interface AnomalyTriagePanelProps {
+  anomaly: AnomalyData;
+}
+
+// Review state and notes for the selected anomaly
+export function AnomalyTriagePanel({ anomaly }: AnomalyTriagePanelProps) {
+  const { triage, updateTriage } = useAnomalyTriage();
+  const { toast } = useToast();
+  const record = triage[anomaly.id];
+  const [note, setNote] = useState(record?.note ?? '');
+
+  // Start from the saved note whenever another anomaly is selected
+  useEffect(() => {
+    setNote(record?.note ?? '');
+  }, [anomaly.id, record?.note]);
+
+  const save = (update: AnomalyTriageUpdate) => {
+    if (!updateTriage(anomaly.id, update)) {
+      toast({
+        title: "Not Saved",
+        description: "The browser could not store the triage; it will be lost on reload.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">Triage</p>
+        {record && (
+          <p className="text-xs text-muted-foreground">
+            Updated {formatDistanceToNow(new Date(record.updatedAt), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+      <Select value={getTriageStatus(triage, anomaly.id)} onValueChange={status => save({ status: status as TriageStatus, contributions: anomaly.contributions })}>
+        <SelectTrigger className="w-full sm:w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TRIAGE_STATUSES.map(status => (
+            <SelectItem key={status} value={status}>{TRIAGE_STATUS_LABELS[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea
+        value={note}
+        onChange={event => setNote(event.target.value)}
+        placeholder="Add a note for whoever reviews this next"
+        className="min-h-[60px]"
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => save({ note })}
+        disabled={note.trim() === (record?.note ?? '')}
+      >
+        Save Note
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { AnomalyTriageContext } from '@/hooks/use-anomaly-triage';
+import { AnomalyTriageRecords, AnomalyTriageUpdate, loadAnomalyTriage, saveAnomalyTriage, updateAnomalyTriage } from '@/utils/anomalyTriage';
+
+interface AnomalyTriageProviderProps {
+  children: ReactNode;
+}
+
+// Makes the saved anomaly triage available to every page below it
+export function AnomalyTriageProvider({ children }: AnomalyTriageProviderProps) {
+  const [triage, setTriage] = useState<AnomalyTriageRecords>(loadAnomalyTriage);
+
+  const updateTriage = useCallback((anomalyId: string, update: AnomalyTriageUpdate) => {
+    const next = updateAnomalyTriage(triage, anomalyId, update);
+    const saved = saveAnomalyTriage(next);
+    // Unsaved triage still applies until the page is reloaded
+    setTriage(next);
+    return saved;
+  }, [triage]);
+
+  const value = useMemo(() => ({ triage, updateTriage }), [triage, updateTriage]);
+
+  return (
+    <AnomalyTriageContext.Provider value={value}>
+      {children}
+    </AnomalyTriageContext.Provider>
+  );
+}
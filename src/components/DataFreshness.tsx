@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Database, RefreshCw } from 'lucide-react';
+
+interface DataFreshnessProps {
+  // When the latest bars were fetched from the data provider
+  fetchedAt: number;
+  fromCache: boolean;
+  refreshing: boolean;
+  onRefresh: () => void;
+}
+
+export function DataFreshness({ fetchedAt, fromCache, refreshing, onRefresh }: DataFreshnessProps) {
+  // Re-render every minute so the age stays current
+  const [, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Database className="h-3 w-3" />
+      <span>Updated {formatDistanceToNow(fetchedAt, { addSuffix: true })}</span>
+      {fromCache && <Badge variant="outline" className="text-xs">cached</Badge>}
+      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onRefresh} disabled={refreshing}>
+        <RefreshCw className={`h-3 w-3 ${refreshing ? 'animate-spin' : ''}`} />
+        <span className="ml-1">Refresh</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useState, useRef, DragEvent } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, FileUp, Upload, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useDataImport } from '@/hooks/use-market-data';
+import {
+  ColumnMapping,
+  DATE_FORMAT_LABELS,
+  DateFormat,
+  ImportResult,
+  ImportTable,
+  OHLCV_FIELDS,
+  OhlcvField,
+  REQUIRED_OHLCV_FIELDS,
+  buildImportedData,
+  detectDateFormat,
+  getMissingFields,
+  parseImportFile,
+  suggestColumnMapping
+} from '@/utils/ohlcvImport';
+
+interface DataImportDialogProps {
+  // Called with the symbol once its data has been imported
+  onImported?: (symbol: string) => void;
+  triggerLabel?: string;
+}
+
+type Step = 'file' | 'mapping' | 'review';
+
+const FIELD_LABELS: Record<OhlcvField, string> = {
+  date: 'Date',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  adjClose: 'Adj Close'
+};
+
+const UNMAPPED = 'none';
+const MAX_ISSUES_SHOWN = 100;
+const PREVIEW_ROWS = 5;
+
+// Ticker from a file name such as "aapl_daily.csv"
+const symbolFromFileName = (fileName: string): string => {
+  return fileName.replace(/\.[^.]+$/, '').split(/[^A-Za-z0-9.]/)[0].toUpperCase();
+};
+
+export function DataImportDialog({ onImported, triggerLabel = 'Import Data' }: DataImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('file');
+  const [dragging, setDragging] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [symbol, setSymbol] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('ymd');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { addImport } = useDataImport();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setFileError(null);
+    setTable(null);
+    setSymbol('');
+    setMapping(null);
+    setResult(null);
+  };
+
+  const readFile = async (file: File) => {
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has no data rows');
+      }
+      const suggested = suggestColumnMapping(parsed.columns);
+      setFileName(file.name);
+      setFileError(null);
+      setTable(parsed);
+      setSymbol(symbolFromFileName(file.name));
+      setMapping(suggested);
+      setDateFormat(suggested.date >= 0 ? detectDateFormat(parsed.rows.map(row => row[suggested.date] ?? '')) : 'ymd');
+      setStep('mapping');
+    } catch (error) {
+      setFileError(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const updateMapping = (field: OhlcvField, value: string) => {
+    if (!mapping || !table) return;
+    const column = value === UNMAPPED ? -1 : Number(value);
+    setMapping({ ...mapping, [field]: column });
+    if (field === 'date' && column >= 0) {
+      setDateFormat(detectDateFormat(table.rows.map(row => row[column] ?? '')));
+    }
+  };
+
+  const validate = () => {
+    if (!table || !mapping) return;
+    setResult(buildImportedData(table, symbol, mapping, { dateFormat }));
+    setStep('review');
+  };
+
+  const handleImport = () => {
+    if (!result || result.data.length === 0) return;
+    const saved = addImport({
+      info: { symbol, name: `Imported from ${fileName}` },
+      data: result.data,
+      fileName,
+      importedAt: new Date().toISOString()
+    });
+    toast({
+      title: "Data Imported",
+      description: saved
+        ? `${result.data.length} bars imported for ${symbol}`
+        : `${symbol} imported for this session only; it is too large to keep after a reload`,
+    });
+    onImported?.(symbol);
+    setOpen(false);
+    reset();
+  };
+
+  const missingFields = mapping ? getMissingFields(mapping) : REQUIRED_OHLCV_FIELDS;
+  const validSymbol = /^[A-Z0-9.\-^=]{1,15}$/.test(symbol);
+  const errors = result?.issues.filter(issue => issue.severity === 'error').length ?? 0;
+  const warnings = (result?.issues.length ?? 0) - errors;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileUp className="h-4 w-4" />
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import OHLCV Data</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Load a CSV or JSON export with one row per day.'}
+            {step === 'mapping' && `Match the columns in ${fileName} to price and volume fields.`}
+            {step === 'review' && `Check the result before importing ${symbol}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-3">
+            <div
+              className={cn(
+                "border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors",
+                dragging ? "border-primary bg-accent/50" : "border-border hover:bg-accent/30"
+              )}
+              onClick={() => fileInput.current?.click()}
+              onDragOver={(event) => { event.preventDefault(); setDragging(true); }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={handleDrop}
+            >
+              <Upload className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+              <p className="font-medium">Drop a file here or click to choose one</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                CSV (comma, semicolon, tab or pipe separated) or JSON
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.tsv,.txt,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) readFile(file);
+                  event.target.value = '';
+                }}
+              />
+            </div>
+            {fileError && (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <XCircle className="h-4 w-4" />
+                {fileError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && table && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1 col-span-2 sm:col-span-1">
+                <Label htmlFor="import-symbol">Symbol</Label>
+                <Input
+                  id="import-symbol"
+                  value={symbol}
+                  onChange={(event) => setSymbol(event.target.value.trim().toUpperCase())}
+                  className="uppercase"
+                />
+              </div>
+              {OHLCV_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{FIELD_LABELS[field]}{REQUIRED_OHLCV_FIELDS.includes(field) ? '' : ' (optional)'}</Label>
+                  <Select
+                    value={mapping[field] >= 0 ? String(mapping[field]) : UNMAPPED}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {table.columns.map((column, index) => (
+                        <SelectItem key={index} value={String(index)}>{column || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>Date format</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                      <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <ScrollArea className="w-full border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {table.columns.map((column, index) => (
+                      <TableHead key={index} className="whitespace-nowrap">{column || `Column ${index + 1}`}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {table.columns.map((_, index) => (
+                        <TableCell key={index} className="whitespace-nowrap">{row[index]}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+            <p className="text-xs text-muted-foreground">
+              Showing {Math.min(PREVIEW_ROWS, table.rows.length)} of {table.rows.length} rows.
+              {missingFields.length > 0 && ` Map ${missingFields.map(field => FIELD_LABELS[field]).join(', ')} to continue.`}
+            </p>
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{result.data.length} bars</Badge>
+              {result.data.length > 0 && (
+                <Badge variant="outline">
+                  {result.data[0].date} to {result.data[result.data.length - 1].date}
+                </Badge>
+              )}
+              <Badge variant="outline">{result.duplicates} duplicate rows removed</Badge>
+              <Badge variant={result.skipped > 0 ? "destructive" : "outline"}>{result.skipped} rows skipped</Badge>
+              {result.filledAdjClose > 0 && (
+                <Badge variant="secondary">Adj Close set to Close on {result.filledAdjClose} bars</Badge>
+              )}
+            </div>
+
+            {result.issues.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  {errors} errors, {warnings} warnings
+                </p>
+                <ScrollArea className="h-48 border rounded-md p-3">
+                  <ul className="space-y-1 text-sm">
+                    {result.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                      <li key={index} className={issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}>
+                        Row {issue.row}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {result.issues.length > MAX_ISSUES_SHOWN && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      and {result.issues.length - MAX_ISSUES_SHOWN} more
+                    </p>
+                  )}
+                </ScrollArea>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No problems found.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={validate} disabled={missingFields.length > 0 || !validSymbol}>
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+              <Button onClick={handleImport} disabled={!result || result.data.length === 0}>
+                Import {symbol}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
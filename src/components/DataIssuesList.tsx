@@ -0,0 +1,69 @@
+import { DataQualityIssue } from '@/utils/dataQuality';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FileWarning, Wrench, XCircle } from 'lucide-react';
+
+interface DataIssuesListProps {
+  issues: DataQualityIssue[];
+}
+
+export function DataIssuesList({ issues }: DataIssuesListProps) {
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) return dateString || 'Unknown date';
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const excludedCount = issues.filter(issue => issue.status === 'excluded').length;
+
+  return (
+    <Card className="overflow-hidden flex flex-col">
+      <CardHeader className="pb-2 sm:pb-3 px-3 sm:px-6">
+        <CardTitle className="flex items-center text-base sm:text-lg">
+          <FileWarning className="mr-2 h-4 w-4 sm:h-5 sm:w-5" />
+          Data Issues
+          <Badge variant="outline" className="ml-2 text-xs">{issues.length}</Badge>
+        </CardTitle>
+        {issues.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {excludedCount} bar{excludedCount === 1 ? '' : 's'} excluded and {issues.length - excludedCount} repaired before detection
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="overflow-auto max-h-72 px-3 sm:px-6">
+        {issues.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            No data issues found
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {issues.map(issue => (
+              <div key={`${issue.index}-${issue.status}`} className="p-2 rounded-md bg-muted/50">
+                <div className="flex justify-between items-center gap-2 mb-1">
+                  <div className="font-medium flex items-center text-sm">
+                    {issue.status === 'excluded' ? (
+                      <XCircle className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+                    ) : (
+                      <Wrench className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />
+                    )}
+                    {formatDate(issue.date)}
+                  </div>
+                  <Badge variant={issue.status === 'excluded' ? 'destructive' : 'outline'} className="text-xs">
+                    {issue.status}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Row {issue.index + 1}: {issue.reasons.join('; ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
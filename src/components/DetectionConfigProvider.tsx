@@ -0,0 +1,90 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { DetectionConfigContext } from '@/hooks/use-detection-config';
+import { AnomalyDetectionConfig } from '@/utils/anomalyDetection';
+import {
+  BUILT_IN_PRESETS,
+  DetectionPreset,
+  createDetectionPreset,
+  loadDetectionConfig,
+  loadDetectionPresets,
+  saveDetectionConfig,
+  saveDetectionPresets
+} from '@/utils/detectionSettings';
+import {
+  DetectionProfile,
+  ProfileScope,
+  findDetectionProfile,
+  getProfileConfig,
+  loadDetectionProfiles,
+  removeDetectionProfile,
+  saveDetectionProfiles,
+  setDetectionProfile
+} from '@/utils/detectionProfiles';
+
+interface DetectionConfigProviderProps {
+  children: ReactNode;
+}
+
+// Makes the saved detection configuration, presets and profiles available to every page below it
+export function DetectionConfigProvider({ children }: DetectionConfigProviderProps) {
+  const [config, setActiveConfig] = useState<AnomalyDetectionConfig>(loadDetectionConfig);
+  const [saved, setSaved] = useState<DetectionPreset[]>(loadDetectionPresets);
+  const [profiles, setProfiles] = useState<DetectionProfile[]>(loadDetectionProfiles);
+
+  const setConfig = useCallback((next: AnomalyDetectionConfig) => {
+    const stored = saveDetectionConfig(next);
+    // Unsaved settings still apply until the page is reloaded
+    setActiveConfig(next);
+    return stored;
+  }, []);
+
+  const savePreset = useCallback((name: string, preset: AnomalyDetectionConfig) => {
+    const created = createDetectionPreset(name, preset);
+    const next = [...saved.filter(p => p.name !== created.name), created];
+    const stored = saveDetectionPresets(next);
+    setSaved(next);
+    return stored;
+  }, [saved]);
+
+  const deletePreset = useCallback((name: string) => {
+    const next = saved.filter(preset => preset.name !== name);
+    saveDetectionPresets(next);
+    setSaved(next);
+  }, [saved]);
+
+  const setProfile = useCallback((profile: DetectionProfile) => {
+    const next = setDetectionProfile(profiles, profile);
+    const stored = saveDetectionProfiles(next);
+    setProfiles(next);
+    return stored;
+  }, [profiles]);
+
+  const removeProfile = useCallback((scope: ProfileScope, target: string) => {
+    const next = removeDetectionProfile(profiles, scope, target);
+    saveDetectionProfiles(next);
+    setProfiles(next);
+  }, [profiles]);
+
+  // Built once per profile, so detectors kept per symbol can tell when their configuration changed
+  const profileConfigs = useMemo(
+    () => new Map(profiles.map(profile => [profile, getProfileConfig(profile)])),
+    [profiles]
+  );
+
+  const resolveConfig = useCallback((symbol: string, sector?: string) => {
+    const profile = findDetectionProfile(profiles, symbol, sector);
+    return profile ? profileConfigs.get(profile)! : config;
+  }, [profiles, profileConfigs, config]);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...saved], [saved]);
+  const value = useMemo(
+    () => ({ config, setConfig, presets, savePreset, deletePreset, profiles, setProfile, removeProfile, resolveConfig }),
+    [config, setConfig, presets, savePreset, deletePreset, profiles, setProfile, removeProfile, resolveConfig]
+  );
+
+  return (
+    <DetectionConfigContext.Provider value={value}>
+      {children}
+    </DetectionConfigContext.Provider>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { useToast } from '@/hooks/use-toast';
+import { AnomalyDetectionConfigOverrides, getDetectorName, getRegisteredDetectors } from '@/utils/anomalyDetection';
+import { WEIGHT_SPEC } from '@/utils/detectionSettings';
+import { findDetectionProfile, PROFILE_SCOPE_LABELS, ProfileScope } from '@/utils/detectionProfiles';
+
+interface DetectionProfilesProps {
+  watchlist: string[];
+  stockSectors: Record<string, string>;
+}
+
+// The settings a profile changes from the detectors' defaults, e.g. "Z-Score Analysis: Threshold (σ) 3"
+const describeOverrides = (overrides: AnomalyDetectionConfigOverrides): string => {
+  const detectors = new Map(getRegisteredDetectors().map(detector => [detector.id, detector]));
+  const changes = Object.entries(overrides).map(([id, settings]) => {
+    const values = Object.entries(settings).map(([param, value]) => {
+      if (param === 'enabled') return value ? 'on' : 'off';
+      const label = param === 'weight' ? WEIGHT_SPEC.label : detectors.get(id)?.schema[param]?.label ?? param;
+      return `${label} ${value}`;
+    });
+    return `${getDetectorName(id)}: ${values.join(', ')}`;
+  });
+  return changes.length > 0 ? changes.join('; ') : 'Detector defaults';
+};
+
+export const DetectionProfiles = ({ watchlist, stockSectors }: DetectionProfilesProps) => {
+  const { presets, profiles, setProfile, removeProfile } = useDetectionConfig();
+  const [scope, setScope] = useState<ProfileScope>('symbol');
+  const [target, setTarget] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const { toast } = useToast();
+
+  const sectors = Array.from(new Set(Object.values(stockSectors))).sort();
+  const targets = scope === 'symbol' ? watchlist : sectors;
+  const preset = presets.find(p => p.name === presetName);
+
+  const handleAddProfile = () => {
+    if (!target || !preset) return;
+    const saved = setProfile({ scope, target, preset: preset.name, overrides: preset.overrides });
+    toast(saved ? {
+      title: "Profile Saved",
+      description: `${target} is now detected with the ${preset.name} settings.`,
+    } : {
+      title: "Not Saved",
+      description: "The browser could not store the profile; it will be lost on reload.",
+      variant: "destructive",
+    });
+    setTarget('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Detection Profile</CardTitle>
+          <CardDescription>
+            Detect a symbol, or every symbol in a sector, with a preset's settings instead of the default ones
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={scope} onValueChange={(value) => { setScope(value as ProfileScope); setTarget(''); }}>
+              <SelectTrigger className="w-full sm:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROFILE_SCOPE_LABELS) as ProfileScope[]).map(s => (
+                  <SelectItem key={s} value={s}>{PROFILE_SCOPE_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={target} onValueChange={setTarget} disabled={targets.length === 0}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder={scope === 'symbol' ? 'Choose a symbol' : 'Choose a sector'} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(t => (
+                  <SelectItem key={t} value={t}>{t}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={presetName} onValueChange={setPresetName}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Choose a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(p => (
+                  <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAddProfile} disabled={!target || !preset} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Profile
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Presets are saved from Detection Settings on the Single Stock page. A profile keeps a copy of the preset's
+            settings as they are now.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Detection Profiles ({profiles.length})</CardTitle>
+          <CardDescription>
+            A symbol's own profile comes first, then its sector's; anything else uses the default settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {profiles.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No profiles yet. Every symbol is detected with the default settings.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Preset</TableHead>
+                  <TableHead>Settings</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={`${profile.scope}:${profile.target}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{PROFILE_SCOPE_LABELS[profile.scope]}</Badge>
+                        <span className="font-medium">{profile.target}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{profile.preset}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeOverrides(profile.overrides)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeProfile(profile.scope, profile.target)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Watchlist Settings</CardTitle>
+          <CardDescription>
+            The settings each watchlist symbol is detected with
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {watchlist.map(symbol => {
+              const sector = stockSectors[symbol];
+              const profile = findDetectionProfile(profiles, symbol, sector);
+              return (
+                <div key={symbol} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium">{symbol}</div>
+                    <div className="text-xs text-muted-foreground">{sector ?? 'Other'}</div>
+                  </div>
+                  <Badge variant={profile ? 'secondary' : 'outline'}>
+                    {profile
+                      ? `${profile.preset} (${PROFILE_SCOPE_LABELS[profile.scope].toLowerCase()})`
+                      : 'Default'}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { RotateCcw, Save, Settings2, Trash2 } from 'lucide-react';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AnomalyDetectionConfig,
+  DetectorParamSpec,
+  DetectorParamValue,
+  createCustomConfig,
+  getRegisteredDetectors
+} from '@/utils/anomalyDetection';
+import { getPresetConfig, validateDetectionConfig, WEIGHT_SPEC } from '@/utils/detectionSettings';
+
+// Detection runs again once the controls have been still for this long, so the chart and list
+// follow the sliders without detecting at every step
+const PREVIEW_DELAY_MS = 250;
+
+interface ParamFieldProps {
+  id: string;
+  spec: DetectorParamSpec;
+  value: DetectorParamValue;
+  error?: string;
+  disabled?: boolean;
+  onChange: (value: DetectorParamValue) => void;
+}
+
+const ParamField = ({ id, spec, value, error, disabled, onChange }: ParamFieldProps) => {
+  if (spec.type === 'boolean') {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{spec.label}</Label>
+        <Switch id={id} checked={Boolean(value)} onCheckedChange={onChange} disabled={disabled} />
+      </div>
+    );
+  }
+
+  if (spec.type === 'select') {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{spec.label}</Label>
+        <Select value={String(value)} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger id={id} className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {spec.options?.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  const number = Number(value);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{spec.label}</Label>
+        <Input
+          id={id}
+          type="number"
+          value={Number.isNaN(number) ? '' : number}
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          onChange={event => onChange(event.target.value === '' ? NaN : Number(event.target.value))}
+          disabled={disabled}
+          className="w-24 h-8 text-right"
+        />
+      </div>
+      <Slider
+        value={[Number.isNaN(number) ? spec.min ?? 0 : number]}
+        min={spec.min}
+        max={spec.max}
+        step={spec.step}
+        onValueChange={([next]) => onChange(next)}
+        disabled={disabled}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+// Edits the detection configuration every page detects with. Changes are previewed on the page as
+// they are made and kept once valid; presets save and restore whole configurations.
+export function DetectionSettingsPanel() {
+  const { config, setConfig, presets, savePreset, deletePreset } = useDetectionConfig();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AnomalyDetectionConfig>(config);
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState<string>('');
+
+  const detectors = getRegisteredDetectors();
+  const errors = useMemo(() => validateDetectionConfig(draft), [draft]);
+  const valid = Object.keys(errors).length === 0;
+  const selected = presets.find(preset => preset.name === selectedPreset);
+  const name = presetName.trim();
+  const builtInName = presets.some(preset => preset.builtIn && preset.name === name);
+
+  // Follow changes made elsewhere, e.g. tuning applied on the Evaluation page
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  useEffect(() => {
+    if (draft === config || !valid) return;
+    const timer = setTimeout(() => setConfig(draft), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, config, valid, setConfig]);
+
+  const update = (detectorId: string, param: string, value: DetectorParamValue) => {
+    setDraft(previous => ({ ...previous, [detectorId]: { ...previous[detectorId], [param]: value } }));
+  };
+
+  const applyPreset = (value: string) => {
+    const preset = presets.find(p => p.name === value);
+    if (!preset) return;
+    setSelectedPreset(preset.name);
+    setDraft(getPresetConfig(preset));
+  };
+
+  const handleSavePreset = () => {
+    const stored = savePreset(name, draft);
+    toast(stored ? {
+      title: "Preset Saved",
+      description: `Detection settings saved as "${name}".`,
+    } : {
+      title: "Not Saved",
+      description: "The browser could not store the preset; it will be lost on reload.",
+      variant: "destructive",
+    });
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (!selected || selected.builtIn) return;
+    deletePreset(selected.name);
+    setSelectedPreset('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          Detection Settings
+        </CardTitle>
+        <CardDescription>
+          Changes apply to every page and are previewed on the chart and anomaly list as you make them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col lg:flex-row gap-2">
+          <div className="flex gap-2">
+            <Select value={selectedPreset} onValueChange={applyPreset}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Apply a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDeletePreset}
+              disabled={!selected || selected.builtIn}
+              title="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={event => setPresetName(event.target.value)}
+              placeholder="Preset name"
+              className="w-full sm:w-48"
+            />
+            <Button
+              variant="outline"
+              onClick={handleSavePreset}
+              disabled={!valid || !name || builtInName}
+              className="flex items-center gap-2"
+            >
+              <Save className="h-4 w-4" />
+              Save Preset
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={() => { setSelectedPreset(''); setDraft(createCustomConfig({})); }}
+            className="flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reset to Defaults
+          </Button>
+        </div>
+        {builtInName && (
+          <p className="text-xs text-muted-foreground">"{name}" is a built-in preset; choose another name.</p>
+        )}
+
+        <Accordion type="multiple" className="w-full">
+          {detectors.map(detector => {
+            const settings = draft[detector.id] ?? detector.defaults;
+            const detectorErrors = errors[detector.id] ?? {};
+            return (
+              <AccordionItem key={detector.id} value={detector.id}>
+                <AccordionTrigger>
+                  <span className="flex items-center gap-2">
+                    {detector.name}
+                    {!settings.enabled && <Badge variant="outline">Off</Badge>}
+                    {Object.keys(detectorErrors).length > 0 && <Badge variant="destructive">Invalid</Badge>}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">{detector.description}</p>
+                  <ParamField
+                    id={`${detector.id}-enabled`}
+                    spec={{ label: 'Enabled', type: 'boolean' }}
+                    value={settings.enabled}
+                    onChange={value => update(detector.id, 'enabled', value)}
+                  />
+                  <ParamField
+                    id={`${detector.id}-weight`}
+                    spec={WEIGHT_SPEC}
+                    value={settings.weight}
+                    error={detectorErrors.weight}
+                    disabled={!settings.enabled}
+                    onChange={value => update(detector.id, 'weight', value)}
+                  />
+                  {Object.entries(detector.schema).map(([param, spec]) => (
+                    <ParamField
+                      key={param}
+                      id={`${detector.id}-${param}`}
+                      spec={spec}
+                      value={settings[param] ?? detector.defaults[param]}
+                      error={detectorErrors[param]}
+                      disabled={!settings.enabled}
+                      onChange={value => update(detector.id, param, value)}
+                    />
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
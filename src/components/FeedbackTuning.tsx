@@ -0,0 +1,141 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { SlidersHorizontal } from 'lucide-react';
+import { useAnomalyTriage } from '@/hooks/use-anomaly-triage';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { useToast } from '@/hooks/use-toast';
+import { getDetectorName } from '@/utils/anomalyDetection';
+import { getLabelledDetections, MIN_TUNING_LABELS, TuningMetrics, tuneFromFeedback } from '@/utils/weightTuning';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatChange = (current: number | undefined, proposed: number | undefined) => {
+  if (current === undefined || proposed === undefined) return '—';
+  return current === proposed ? `${current}` : `${current} → ${proposed}`;
+};
+
+const METRICS: { label: string; value: (metrics: TuningMetrics) => string }[] = [
+  { label: 'Flagged', value: metrics => `${metrics.flagged} (${metrics.truePositives} confirmed)` },
+  { label: 'Precision', value: metrics => formatPercent(metrics.precision) },
+  { label: 'Recall', value: metrics => formatPercent(metrics.recall) },
+  { label: 'F1', value: metrics => metrics.f1.toFixed(2) },
+  { label: 'Average Precision', value: metrics => formatPercent(metrics.averagePrecision) },
+];
+
+// Weights and thresholds fitted to the anomalies analysts have confirmed or marked as false
+// positives, next to the configuration detection runs with now
+export function FeedbackTuning() {
+  const { triage } = useAnomalyTriage();
+  const { config, setConfig } = useDetectionConfig();
+  const { toast } = useToast();
+
+  const samples = useMemo(() => getLabelledDetections(triage), [triage]);
+  const proposal = useMemo(() => tuneFromFeedback(samples, config), [samples, config]);
+  const confirmed = samples.filter(sample => sample.confirmed).length;
+  const changed = proposal?.detectors.some(detector =>
+    detector.proposedWeight !== detector.currentWeight || detector.proposedThreshold !== detector.currentThreshold
+  );
+
+  const apply = () => {
+    if (!proposal) return;
+    const saved = setConfig(proposal.config);
+    toast(saved ? {
+      title: "Configuration Applied",
+      description: "Detection now runs with the tuned weights and thresholds.",
+    } : {
+      title: "Not Saved",
+      description: "The tuned configuration applies until the page is reloaded.",
+      variant: "destructive",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Tune from Feedback
+            </CardTitle>
+            <CardDescription>
+              Detector weights and thresholds fitted to the anomalies you have confirmed or marked as false positives
+            </CardDescription>
+          </div>
+          <Button onClick={apply} disabled={!proposal || !changed}>
+            Apply Proposed Configuration
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!proposal ? (
+          <div className="h-32 flex items-center justify-center text-center text-muted-foreground">
+            Tuning needs at least {MIN_TUNING_LABELS} labelled anomalies, with both confirmed anomalies and false
+            positives; there are {confirmed} confirmed and {samples.length - confirmed} false positives so far.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{proposal.confirmed} confirmed</Badge>
+              <Badge variant="outline">{proposal.falsePositives} false positives</Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Detector</TableHead>
+                  <TableHead className="text-right">Labelled</TableHead>
+                  <TableHead className="text-right">Weight</TableHead>
+                  <TableHead className="text-right">Threshold</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proposal.detectors.map(detector => (
+                  <TableRow key={detector.detectorId}>
+                    <TableCell>{getDetectorName(detector.detectorId)}</TableCell>
+                    <TableCell className="text-right">{detector.labels}</TableCell>
+                    <TableCell className="text-right">{formatChange(detector.currentWeight, detector.proposedWeight)}</TableCell>
+                    <TableCell className="text-right">{formatChange(detector.currentThreshold, detector.proposedThreshold)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>On labelled anomalies</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">Proposed (cross-validated)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {METRICS.map(({ label, value }) => (
+                  <TableRow key={label}>
+                    <TableCell>{label}</TableCell>
+                    <TableCell className="text-right">{value(proposal.current)}</TableCell>
+                    <TableCell className="text-right">{value(proposal.proposed)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Expected figures are measured on the labelled anomalies only: recall is of the confirmed ones, and average
+              precision ranks the flagged ones by ensemble score. Proposed figures are cross-validated over {proposal.folds} folds,
+              judging each anomaly by weights and thresholds fitted without it. Thresholds are only ever raised, since
+              feedback does not show the anomalies a lower threshold would find.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
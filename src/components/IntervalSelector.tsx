@@ -0,0 +1,52 @@
+import { BarInterval } from '@/types';
+import { BAR_INTERVALS, BAR_INTERVAL_LABELS, isIntervalAvailable } from '@/utils/barInterval';
+import { toDateKey } from '@/utils/tradingCalendar';
+import { DateRange } from 'react-day-picker';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface IntervalSelectorProps {
+  value: BarInterval;
+  onChange: (value: BarInterval) => void;
+  // Intraday intervals that would give too many bars over the range are disabled
+  dateRange: DateRange | undefined;
+  // Whether anomalies are confirmed on coarser timeframes
+  multiTimeframe: boolean;
+  onMultiTimeframeChange: (value: boolean) => void;
+}
+
+export function IntervalSelector({ value, onChange, dateRange, multiTimeframe, onMultiTimeframeChange }: IntervalSelectorProps) {
+  const isAvailable = (interval: BarInterval) => {
+    if (!dateRange?.from || !dateRange?.to) return true;
+    return isIntervalAvailable(interval, toDateKey(dateRange.from), toDateKey(dateRange.to));
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 w-full sm:w-auto">
+      <div className="font-medium">Interval:</div>
+      <Select value={value} onValueChange={next => onChange(next as BarInterval)}>
+        <SelectTrigger className="w-full sm:w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BAR_INTERVALS.map(interval => (
+            <SelectItem key={interval} value={interval} disabled={!isAvailable(interval)}>
+              {BAR_INTERVAL_LABELS[interval]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2">
+        <Switch id="multi-timeframe" checked={multiTimeframe} onCheckedChange={onMultiTimeframeChange} />
+        <Label htmlFor="multi-timeframe" className="text-sm">Confirm on coarser timeframes</Label>
+      </div>
+    </div>
+  );
+}
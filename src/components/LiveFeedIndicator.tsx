@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { Radio } from 'lucide-react';
+import { useLiveFeedStatus } from '@/hooks/use-live-feed';
+
+// Shows whether live quotes are coming in; nothing when no live feed is configured
+export function LiveFeedIndicator() {
+  const status = useLiveFeedStatus();
+  if (!status || status === 'idle') return null;
+
+  const open = status === 'open';
+  return (
+    <Badge variant="outline" className={`gap-1 text-xs ${open ? 'text-green-600' : 'text-muted-foreground'}`}>
+      <Radio className={`h-3 w-3 ${open ? 'animate-pulse' : ''}`} />
+      {open ? 'Live' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+    </Badge>
+  );
+}
@@ -1,12 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, ScatterChart, Scatter } from 'recharts';
 import { TrendingUp, TrendingDown, Globe, RefreshCw, Target, BarChart3 } from 'lucide-react';
-import { fetchStockData } from '@/utils/stockData';
-import { detectAnomalies } from '@/utils/anomalyDetection';
+import { useMarketData } from '@/hooks/use-market-data';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { MarketIndex } from '@/types';
+import { getDetectionPool } from '@/utils/detectionPool';
+import { getAnnualTradingDays } from '@/utils/tradingCalendar';
 
 interface PortfolioStock {
   symbol: string;
@@ -21,49 +24,55 @@ interface MarketComparisonProps {
   stockSectors: Record<string, string>;
 }
 
-// Market indices and sector ETFs for comparison
-const marketIndices = {
-  'SPY': 'S&P 500',
-  'QQQ': 'NASDAQ 100',
-  'IWM': 'Russell 2000',
-  'VTI': 'Total Stock Market'
-};
-
-const sectorETFs = {
-  'XLK': 'Technology',
-  'XLF': 'Finance', 
-  'XLV': 'Healthcare',
-  'XLE': 'Energy',
-  'XLI': 'Industrial',
-  'XLY': 'Consumer Discretionary'
-};
-
 export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketComparisonProps) => {
   const [marketData, setMarketData] = useState<Record<string, any>>({});
   const [selectedIndex, setSelectedIndex] = useState('SPY');
   const [loading, setLoading] = useState(false);
   const [comparisonMetrics, setComparisonMetrics] = useState<any[]>([]);
-
-  // Fetch market index data
-  const fetchMarketData = async () => {
+  const [indices, setIndices] = useState<MarketIndex[]>([]);
+  const marketDataProvider = useMarketData();
+  const { resolveConfig } = useDetectionConfig();
+  const fetchAbort = useRef(new AbortController());
+
+  const marketIndices = indices.filter(index => index.kind === 'market');
+  const sectorETFs = indices.filter(index => index.kind === 'sector');
+
+  // Fetch market index data and detect its anomalies in the detection pool; fetching again cancels
+  // the detection still running for the previous fetch
+  const fetchMarketData = useCallback(async () => {
+    fetchAbort.current.abort();
+    fetchAbort.current = new AbortController();
+    const { signal } = fetchAbort.current;
     setLoading(true);
     try {
       const endDate = new Date();
       const startDate = new Date();
       startDate.setMonth(endDate.getMonth() - 3);
 
-      const promises = Object.keys({ ...marketIndices, ...sectorETFs }).map(async (symbol) => {
+      const available = await marketDataProvider.getIndices();
+      setIndices(available);
+
+      const promises = available.map(async ({ symbol, name, kind }) => {
         try {
-          const data = await fetchStockData(symbol, startDate, endDate);
-          const anomalies = detectAnomalies(data);
+          const data = await marketDataProvider.getBars(symbol, startDate, endDate);
+          // A sector index follows its sector's profile unless it has its own
+          const anomalies = await getDetectionPool().run({
+            kind: 'anomalies',
+            bars: data,
+            config: resolveConfig(symbol, kind === 'sector' ? name : undefined),
+            options: {}
+          }, { signal });
           return { symbol, data, anomalies };
         } catch (error) {
-          console.error(`Failed to fetch ${symbol}:`, error);
+          if (!signal.aborted) {
+            console.error(`Failed to fetch ${symbol}:`, error);
+          }
           return null;
         }
       });
 
       const results = await Promise.all(promises);
+      if (signal.aborted) return;
       const validResults = results.filter(result => result !== null);
       
       const marketDataMap: Record<string, any> = {};
@@ -77,9 +86,11 @@ export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketCompar
     } catch (error) {
       console.error('Failed to fetch market data:', error);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
-  };
+  }, [marketDataProvider, resolveConfig]);
 
   // Calculate comparison metrics
   const calculateComparisonMetrics = () => {
@@ -147,7 +158,8 @@ export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketCompar
 
   useEffect(() => {
     fetchMarketData();
-  }, []);
+    return () => fetchAbort.current.abort();
+  }, [fetchMarketData]);
 
   useEffect(() => {
     setComparisonMetrics(calculateComparisonMetrics());
@@ -178,7 +190,7 @@ export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketCompar
                 </SelectTrigger>
                 <SelectContent>
                   <optgroup label="Market Indices">
-                    {Object.entries(marketIndices).map(([symbol, name]) => (
+                    {marketIndices.map(({ symbol, name }) => (
                       <SelectItem key={symbol} value={symbol}>
                         <span className="hidden sm:inline">{symbol} - {name}</span>
                         <span className="sm:hidden">{symbol}</span>
@@ -186,7 +198,7 @@ export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketCompar
                     ))}
                   </optgroup>
                   <optgroup label="Sector ETFs">
-                    {Object.entries(sectorETFs).map(([symbol, name]) => (
+                    {sectorETFs.map(({ symbol, name }) => (
                       <SelectItem key={symbol} value={symbol}>
                         <span className="hidden sm:inline">{symbol} - {name}</span>
                         <span className="sm:hidden">{symbol}</span>
@@ -235,7 +247,7 @@ export const MarketComparison = ({ portfolioStocks, stockSectors }: MarketCompar
                 stroke="hsl(var(--muted-foreground))" 
                 strokeWidth={3}
                 strokeDasharray="5 5"
-                name={marketIndices[selectedIndex as keyof typeof marketIndices] || selectedIndex}
+                name={indices.find(index => index.symbol === selectedIndex)?.name || selectedIndex}
               />
               
               {/* Portfolio stocks */}
@@ -390,7 +402,7 @@ function calculateVolatility(data: any[]): number {
   );
   const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
   const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
-  return Math.sqrt(variance) * Math.sqrt(252) * 100; // Annualized
+  return Math.sqrt(variance) * Math.sqrt(getAnnualTradingDays(data[data.length - 1].date)) * 100; // Annualized
 }
 
 function calculateBeta(stockData: any[], marketData: any[]): number {
@@ -0,0 +1,52 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DataImportContext, MarketDataContext } from '@/hooks/use-market-data';
+import { MarketDataProvider } from '@/utils/marketDataProvider';
+import { ImportedSymbol, loadImportedSymbols, saveImportedSymbols, withImportedData } from '@/utils/importedData';
+import { clearCachedBars } from '@/utils/barCache';
+
+interface MarketDataSourceProps {
+  provider: MarketDataProvider;
+  children: ReactNode;
+}
+
+// Makes one market data provider, with any imported symbols in front of it, available to every
+// page below it
+export function MarketDataSource({ provider, children }: MarketDataSourceProps) {
+  const [imports, setImports] = useState<ImportedSymbol[]>(loadImportedSymbols);
+  const queryClient = useQueryClient();
+
+  // Bars cached for a symbol no longer apply once its imported data is added, replaced or removed
+  const forgetSymbol = useCallback((symbol: string) => {
+    clearCachedBars(symbol).then(() => {
+      queryClient.removeQueries({ predicate: query => query.queryKey.includes(symbol) });
+    });
+  }, [queryClient]);
+
+  const addImport = useCallback((imported: ImportedSymbol) => {
+    const next = [...imports.filter(i => i.info.symbol !== imported.info.symbol), imported];
+    const saved = saveImportedSymbols(next);
+    // Unsaved imports still work until the page is reloaded
+    setImports(next);
+    forgetSymbol(imported.info.symbol);
+    return saved;
+  }, [imports, forgetSymbol]);
+
+  const removeImport = useCallback((symbol: string) => {
+    const next = imports.filter(i => i.info.symbol !== symbol);
+    saveImportedSymbols(next);
+    setImports(next);
+    forgetSymbol(symbol);
+  }, [imports, forgetSymbol]);
+
+  const value = useMemo(() => withImportedData(provider, imports), [provider, imports]);
+  const importState = useMemo(() => ({ imports, addImport, removeImport }), [imports, addImport, removeImport]);
+
+  return (
+    <MarketDataContext.Provider value={value}>
+      <DataImportContext.Provider value={importState}>
+        {children}
+      </DataImportContext.Provider>
+    </MarketDataContext.Provider>
+  );
+}
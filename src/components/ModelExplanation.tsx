@@ -1,6 +1,7 @@
 
-import { useState } from 'react';
-import { getAnomalyModelExplanation } from '@/utils/anomalyDetection';
+import { useState, useMemo } from 'react';
+import { useBenchmarkReport } from '@/hooks/use-benchmark-report';
+import { AnomalyDetectionConfig, getAnomalyModelExplanation } from '@/utils/anomalyDetection';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -9,11 +10,18 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
-import { AlertTriangle, Brain, Info } from 'lucide-react';
+import { AlertTriangle, Brain, Info, RefreshCw } from 'lucide-react';
 
-export function ModelExplanation() {
+interface ModelExplanationProps {
+  // The configuration to measure accuracy for; the active one when not given
+  config?: AnomalyDetectionConfig;
+}
+
+export function ModelExplanation({ config }: ModelExplanationProps) {
   const [showFeedback, setShowFeedback] = useState(false);
-  const modelInfo = getAnomalyModelExplanation();
+  // Accuracy is measured on the synthetic benchmark in the detection pool
+  const { data: report, isPending: measuring } = useBenchmarkReport(config);
+  const modelInfo = useMemo(() => getAnomalyModelExplanation(report), [report]);
 
   return (
     <Card className="w-full">
@@ -50,7 +58,14 @@ export function ModelExplanation() {
           <AccordionItem value="accuracy">
             <AccordionTrigger>Accuracy & Performance</AccordionTrigger>
             <AccordionContent>
-              <p className="text-sm mb-2">{modelInfo.accuracy}</p>
+              {measuring ? (
+                <p className="text-sm mb-2 flex items-center text-muted-foreground">
+                  <RefreshCw className="h-3 w-3 mr-2 animate-spin" />
+                  Measuring accuracy on the synthetic benchmark...
+                </p>
+              ) : (
+                <p className="text-sm mb-2">{modelInfo.accuracy}</p>
+              )}
               <div className="flex items-center text-sm text-amber-500 bg-amber-50 dark:bg-amber-950/20 p-2 rounded-md">
                 <AlertTriangle className="h-4 w-4 mr-2" />
                 <span>Results are for demonstration purposes only and should not be used for actual trading decisions.</span>
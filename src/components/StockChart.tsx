@@ -1,11 +1,13 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { StockData, AnomalyData, ChartType } from '@/types';
+import { StockData, AnomalyData, ChartType, CorporateAction } from '@/types';
+import { describeCorporateAction, formatSplitRatio } from '@/utils/corporateActions';
+import { formatBarDate, getBarDay } from '@/utils/barInterval';
 import { Button } from '@/components/ui/button';
 import { 
   LineChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, 
-  ResponsiveContainer, ReferenceDot, Legend, Bar, BarChart, ComposedChart,
+  ResponsiveContainer, ReferenceDot, ReferenceArea, ReferenceLine, Legend, Bar, BarChart, ComposedChart,
   ScatterChart, Scatter
 } from 'recharts';
 import { Info } from 'lucide-react';
@@ -20,9 +22,11 @@ interface StockChartProps {
   stockData: StockData[];
   anomalies: AnomalyData[];
   onAnomalyClick: (anomaly: AnomalyData) => void;
+  // Splits and dividends the prices are adjusted for, marked on the chart
+  corporateActions?: CorporateAction[];
 }
 
-export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartProps) {
+export function StockChart({ stockData, anomalies, onAnomalyClick, corporateActions = [] }: StockChartProps) {
   const [chartType, setChartType] = useState<ChartType>('line');
   const [showVolumeChart, setShowVolumeChart] = useState(false);
   const tooltipRef = useRef<HTMLDivElement>(null);
@@ -51,10 +55,9 @@ export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartP
     isIncreasing: item.isIncreasing
   }));
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  };
+  // Intraday axes within a single session only need the time of day
+  const singleSession = chartData.length > 0 && getBarDay(chartData[0].date) === getBarDay(chartData[chartData.length - 1].date);
+  const formatDate = (dateString: string) => formatBarDate(dateString, { timeOnly: singleSession });
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -75,16 +78,55 @@ export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartP
   // Filter price anomalies for chart display
   const priceAnomalies = anomalies.filter(a => a.type === 'price');
   const volumeAnomalies = anomalies.filter(a => a.type === 'volume');
+  const regimeAnomalies = anomalies.filter(a => a.type === 'regime');
+  const lastDate = chartData.length > 0 ? chartData[chartData.length - 1].date : undefined;
+
+  // Regime shifts span a period, so they are shaded rather than marked with a dot
+  const renderRegimeAreas = () => regimeAnomalies.map(anomaly => (
+    <ReferenceArea
+      key={anomaly.id}
+      x1={anomaly.date}
+      x2={anomaly.endDate ?? lastDate}
+      fill={`hsl(var(--${anomaly.severity === 'high' 
+        ? 'destructive' 
+        : (anomaly.severity === 'medium' ? 'warning' : 'primary')}))`}
+      fillOpacity={0.08}
+      strokeOpacity={0}
+      className="cursor-pointer"
+      onClick={() => onAnomalyClick(anomaly)}
+    />
+  ));
+
+  // Corporate actions are marked with a line rather than flagged; splits are labelled with their ratio.
+  // Each is drawn at the first bar it affects, which for intraday bars is the session's first bar.
+  const actionBars = corporateActions
+    .map(action => ({ action, date: chartData.find(d => d.date >= action.date)?.date }))
+    .filter((marker): marker is { action: CorporateAction; date: string } => marker.date !== undefined);
+  const actionsByDate = new Map(actionBars.map(marker => [marker.date, marker.action]));
+  const renderCorporateActions = () => actionBars.map(({ action, date }) => (
+    <ReferenceLine
+      key={`${action.type}-${action.date}`}
+      x={date}
+      stroke="hsl(var(--muted-foreground))"
+      strokeDasharray="4 4"
+      strokeOpacity={action.type === 'split' ? 0.8 : 0.3}
+      label={action.type === 'split'
+        ? { value: formatSplitRatio(action.value), position: 'top', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }
+        : undefined}
+    />
+  ));
 
   // Custom tooltip content - Fixed to handle undefined values
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length > 0 && payload[0]?.payload) {
       const data = payload[0].payload;
+      const action = actionsByDate.get(label);
       return (
         <div className="chart-tooltip">
-          <p className="font-medium">{formatDate(label)}</p>
+          <p className="font-medium">{formatBarDate(label)}</p>
           <p>Price: {formatPrice(data.price)}</p>
           <p>Volume: {data.volume ? data.volume.toLocaleString() : 'N/A'}</p>
+          {action && <p className="text-muted-foreground">{describeCorporateAction(action)}</p>}
           {chartType === 'candle' && (
             <>
               <p>Open: {formatPrice(data.open)}</p>
@@ -181,6 +223,12 @@ export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartP
                 }}
               />
               
+              {/* Render regime shifts */}
+              {renderRegimeAreas()}
+              
+              {/* Render splits and dividends */}
+              {renderCorporateActions()}
+              
               {/* Render anomaly points */}
               {priceAnomalies.map(anomaly => (
                 <ReferenceDot
@@ -237,6 +285,12 @@ export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartP
                 name="Price"
               />
               
+              {/* Render regime shifts */}
+              {renderRegimeAreas()}
+              
+              {/* Render splits and dividends */}
+              {renderCorporateActions()}
+              
               {/* Render anomaly points */}
               {priceAnomalies.map(anomaly => (
                 <ReferenceDot
@@ -271,6 +325,9 @@ export function StockChart({ stockData, anomalies, onAnomalyClick }: StockChartP
               </TooltipTrigger>
               <TooltipContent className="max-w-xs">
                 <p>This chart displays historical price data with detected anomalies highlighted. Click on an anomaly point for more details.</p>
+                {corporateActions.length > 0 && (
+                  <p className="mt-1">Prices and volumes are adjusted for splits and dividends, which are marked with dashed lines.</p>
+                )}
               </TooltipContent>
             </UITooltip>
           </TooltipProvider>
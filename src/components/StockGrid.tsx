@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
+import { LiveFeedIndicator } from '@/components/LiveFeedIndicator';
 import { Trash2, RefreshCw, TrendingUp, TrendingDown, AlertTriangle, Activity } from 'lucide-react';
 import { AnomalyData, StockMetrics } from '@/types';
 
@@ -22,6 +23,8 @@ interface StockGridProps {
   onSectorChange: (sector: string) => void;
   onRemoveStock: (symbol: string) => void;
   loading: boolean;
+  // Fraction of the watchlist refreshed so far, while loading
+  progress?: number;
   onRefresh: () => void;
 }
 
@@ -198,6 +201,7 @@ export const StockGrid = ({
   onSectorChange, 
   onRemoveStock, 
   loading,
+  progress,
   onRefresh 
 }: StockGridProps) => {
   return (
@@ -221,6 +225,7 @@ export const StockGrid = ({
           <span className="text-xs sm:text-sm text-muted-foreground">
             {stocks.length} stock{stocks.length !== 1 ? 's' : ''}
           </span>
+          <LiveFeedIndicator />
         </div>
 
         <Button 
@@ -233,6 +238,9 @@ export const StockGrid = ({
           <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
           <span className="hidden sm:inline">Refresh Data</span>
           <span className="sm:hidden">Refresh</span>
+          {loading && progress !== undefined && (
+            <span className="ml-2 tabular-nums">{Math.round(progress * 100)}%</span>
+          )}
         </Button>
       </div>
 
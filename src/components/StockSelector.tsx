@@ -15,7 +15,7 @@ import {
 } from '@/components/ui/popover';
 import { Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { getAvailableStockSymbols } from '@/utils/stockData';
+import { useMarketData } from '@/hooks/use-market-data';
 
 interface StockSelectorProps {
   value: string;
@@ -25,17 +25,17 @@ interface StockSelectorProps {
 export function StockSelector({ value, onChange }: StockSelectorProps) {
   const [open, setOpen] = useState(false);
   const [stocks, setStocks] = useState<string[]>([]);
+  const marketData = useMarketData();
   
   // Fetch stock symbols safely
   useEffect(() => {
-    try {
-      const availableStocks = getAvailableStockSymbols();
-      setStocks(availableStocks || []);
-    } catch (error) {
-      console.error("Error loading stock symbols:", error);
-      setStocks([]);
-    }
-  }, []);
+    marketData.searchSymbols('')
+      .then(symbols => setStocks(symbols.map(info => info.symbol)))
+      .catch(error => {
+        console.error("Error loading stock symbols:", error);
+        setStocks([]);
+      });
+  }, [marketData]);
 
   return (
     <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 w-full sm:w-auto">
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Trash2, Plus, Search } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { DataImportDialog } from '@/components/DataImportDialog';
 
 interface WatchlistManagerProps {
   watchlist: string[];
@@ -77,7 +78,7 @@ export const WatchlistManager = ({ watchlist, onAddStock, onRemoveStock, stockSe
         <CardHeader>
           <CardTitle>Add Stock to Watchlist</CardTitle>
           <CardDescription>
-            Enter a stock symbol to add it to your portfolio monitoring
+            Enter a stock symbol, or import your own OHLCV file, to add it to your portfolio monitoring
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -94,6 +95,12 @@ export const WatchlistManager = ({ watchlist, onAddStock, onRemoveStock, stockSe
               <span className="hidden sm:inline">Add Stock</span>
               <span className="sm:hidden">Add</span>
             </Button>
+            <DataImportDialog
+              triggerLabel="Import File"
+              onImported={(symbol) => {
+                if (!watchlist.includes(symbol)) onAddStock(symbol);
+              }}
+            />
           </div>
         </CardContent>
       </Card>
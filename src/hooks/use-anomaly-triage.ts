@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react"
+import { AnomalyTriageRecords, AnomalyTriageUpdate } from "@/utils/anomalyTriage"
+
+export interface AnomalyTriageState {
+  triage: AnomalyTriageRecords
+  // Sets an anomaly's status or note; returns false if it could not be stored
+  updateTriage: (anomalyId: string, update: AnomalyTriageUpdate) => boolean
+}
+
+// Provided once at the top of the app by AnomalyTriageProvider
+export const AnomalyTriageContext = createContext<AnomalyTriageState>({
+  triage: {},
+  updateTriage: () => false,
+})
+
+export function useAnomalyTriage() {
+  return useContext(AnomalyTriageContext)
+}
@@ -0,0 +1,20 @@
+import { queryOptions, useQuery } from "@tanstack/react-query"
+import { useDetectionConfig } from "@/hooks/use-detection-config"
+import { AnomalyDetectionConfig } from "@/utils/anomalyDetection"
+import { getDetectionPool } from "@/utils/detectionPool"
+
+// Benchmark reports
+// Scoring a configuration on the synthetic benchmark takes about a second, so it runs in the
+// detection worker pool and its report is cached by configuration for the session.
+
+export const benchmarkReportQuery = (config: AnomalyDetectionConfig) => queryOptions({
+  queryKey: ["benchmarkReport", config],
+  queryFn: ({ signal }) => getDetectionPool().run({ kind: "benchmark", config }, { signal }),
+  staleTime: Infinity,
+})
+
+// Scores the given configuration, or the active one
+export function useBenchmarkReport(config?: AnomalyDetectionConfig) {
+  const { config: activeConfig } = useDetectionConfig()
+  return useQuery(benchmarkReportQuery(config ?? activeConfig))
+}
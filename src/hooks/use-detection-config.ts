@@ -0,0 +1,43 @@
+import { createContext, useContext } from "react"
+import { AnomalyDetectionConfig, getDefaultConfig } from "@/utils/anomalyDetection"
+import { DetectionPreset } from "@/utils/detectionSettings"
+import { DetectionProfile, ProfileScope } from "@/utils/detectionProfiles"
+
+export interface DetectionConfigState {
+  // The default configuration, for symbols without a profile
+  config: AnomalyDetectionConfig
+  // Replaces the configuration detection runs with; returns false if it could not be stored
+  setConfig: (config: AnomalyDetectionConfig) => boolean
+  // The built-in presets, then those the user has saved
+  presets: DetectionPreset[]
+  // Saves the configuration under a name, replacing a saved preset of that name; returns false if
+  // it could not be stored
+  savePreset: (name: string, config: AnomalyDetectionConfig) => boolean
+  deletePreset: (name: string) => void
+  profiles: DetectionProfile[]
+  // Adds a profile, replacing any other for its symbol or sector; returns false if it could not be stored
+  setProfile: (profile: DetectionProfile) => boolean
+  removeProfile: (scope: ProfileScope, target: string) => void
+  // The configuration a symbol is detected with, from its profile, its sector's or the default.
+  // The same profile always gives the same configuration object.
+  resolveConfig: (symbol: string, sector?: string) => AnomalyDetectionConfig
+}
+
+const defaultConfig = getDefaultConfig()
+
+// Provided once at the top of the app by DetectionConfigProvider
+export const DetectionConfigContext = createContext<DetectionConfigState>({
+  config: defaultConfig,
+  setConfig: () => false,
+  presets: [],
+  savePreset: () => false,
+  deletePreset: () => {},
+  profiles: [],
+  setProfile: () => false,
+  removeProfile: () => {},
+  resolveConfig: () => defaultConfig,
+})
+
+export function useDetectionConfig() {
+  return useContext(DetectionConfigContext)
+}
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react"
+import { AnomalyData, StockData } from "@/types"
+import { useSymbolConfig } from "@/hooks/use-stock-data"
+import { createDetector } from "@/utils/anomalyDetection"
+import { applyLiveBar, getConfiguredLiveFeed, LiveBar, LiveFeedStatus } from "@/utils/liveFeed"
+
+// Live quotes
+// Bars from the configured live feed, and anomalies found in them as they close. Updates are
+// collected as they arrive and rendered a few times a second, however busy the feed is.
+
+const FLUSH_INTERVAL_MS = 250
+
+// Bars before the live ones that a live detector is warmed up on; longer than any default window
+const LIVE_WARMUP_BARS = 300
+
+const NO_LIVE_BARS: Record<string, LiveBar[]> = {}
+
+const subscribeToNothing = () => () => {}
+
+// Null when no live feed is configured
+export function useLiveFeedStatus(): LiveFeedStatus | null {
+  const feed = getConfiguredLiveFeed()
+  return useSyncExternalStore(feed ? feed.onStatusChange : subscribeToNothing, () => feed?.getStatus() ?? null)
+}
+
+// Each symbol's live bars at the feed's interval, keyed by upper-case symbol
+export function useLiveBars(symbols: string[]): Record<string, LiveBar[]> {
+  const [bars, setBars] = useState<Record<string, LiveBar[]>>(NO_LIVE_BARS)
+  const key = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort().join(",")
+
+  useEffect(() => {
+    const feed = getConfiguredLiveFeed()
+    if (!feed || key === "") return
+
+    let current: Record<string, LiveBar[]> = {}
+    let changed = false
+    const unsubscribes = key.split(",").map(symbol => feed.subscribe(symbol, message => {
+      if (message.type === "snapshot") {
+        current = { ...current, [symbol]: message.bars }
+      } else if (message.type === "bar") {
+        current = { ...current, [symbol]: applyLiveBar(current[symbol] ?? [], message.bar) }
+      } else {
+        return
+      }
+      changed = true
+    }))
+    const timer = window.setInterval(() => {
+      if (!changed) return
+      changed = false
+      setBars(current)
+    }, FLUSH_INTERVAL_MS)
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe())
+      window.clearInterval(timer)
+      setBars(NO_LIVE_BARS)
+    }
+  }, [key])
+
+  return bars
+}
+
+// Anomalies in live bars (at the series' interval) as each one closes, from a streaming detector
+// warmed up on the series' bars before them. What the detector finds in the warm-up bars is left
+// to the anomalies already detected on the series. Detection uses the symbol's configuration, so
+// nothing is found until its sector is known.
+export function useLiveAnomalies(symbol: string, series: StockData[], live: LiveBar[]): AnomalyData[] {
+  const config = useSymbolConfig(symbol)
+  const liveStart = live[0]?.bar.date
+  const detector = useMemo(() => {
+    if (!config) return null
+    const streaming = createDetector(config)
+    // Nothing to warm up for until live bars arrive
+    if (liveStart === undefined) return streaming
+    series
+      .filter(bar => bar.date < liveStart)
+      .slice(-LIVE_WARMUP_BARS)
+      .forEach(bar => streaming.update(bar))
+    return streaming
+  }, [config, series, liveStart])
+  const [found, setFound] = useState<{ detector: typeof detector; anomalies: AnomalyData[] }>({ detector, anomalies: [] })
+
+  useEffect(() => {
+    if (!detector) return
+    // Bars the detector has already seen are ignored, so each closed bar is only scored once
+    const updates = live
+      .filter(({ final }) => final)
+      .flatMap(({ bar }) => detector.update(bar))
+      .filter(anomaly => liveStart !== undefined && anomaly.date >= liveStart)
+    setFound(previous => {
+      const kept = previous.detector === detector ? previous.anomalies : []
+      if (updates.length === 0 && kept.length === previous.anomalies.length) return previous
+      const updated = new Set(updates.map(anomaly => anomaly.id))
+      return { detector, anomalies: [...kept.filter(anomaly => !updated.has(anomaly.id)), ...updates] }
+    })
+  }, [detector, live, liveStart])
+
+  return found.detector === detector ? found.anomalies : []
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from "react"
+import { MarketDataProvider } from "@/utils/marketDataProvider"
+import { ImportedSymbol } from "@/utils/importedData"
+import { mockMarketDataProvider } from "@/utils/stockData"
+
+// Provided once at the top of the app by MarketDataSource
+export const MarketDataContext = createContext<MarketDataProvider>(mockMarketDataProvider)
+
+export interface DataImportState {
+  imports: ImportedSymbol[]
+  // Adds or replaces the symbol's imported data; returns false if it could not be stored
+  addImport: (imported: ImportedSymbol) => boolean
+  removeImport: (symbol: string) => void
+}
+
+export const DataImportContext = createContext<DataImportState>({
+  imports: [],
+  addImport: () => false,
+  removeImport: () => {},
+})
+
+export function useMarketData() {
+  return useContext(MarketDataContext)
+}
+
+export function useDataImport() {
+  return useContext(DataImportContext)
+}
@@ -0,0 +1,171 @@
+import { useState } from "react"
+import { queryOptions, skipToken, useQuery, useQueryClient } from "@tanstack/react-query"
+import { AnomalyData, BarInterval, CorporateAction, StockData, StockMetrics, Timeframe } from "@/types"
+import { useDetectionConfig } from "@/hooks/use-detection-config"
+import { useMarketData } from "@/hooks/use-market-data"
+import { AnomalyDetectionConfig } from "@/utils/anomalyDetection"
+import { BAR_CACHE_FRESH_MS, getCachedBars } from "@/utils/barCache"
+import { adjustForCorporateActions } from "@/utils/corporateActions"
+import { DataQualityIssue, validateStockData } from "@/utils/dataQuality"
+import { getDetectionPool } from "@/utils/detectionPool"
+import { MarketDataProvider } from "@/utils/marketDataProvider"
+import { toDateKey } from "@/utils/tradingCalendar"
+
+// Market data queries
+// Bars come from the IndexedDB bar cache and everything derived from them (metrics, anomalies)
+// is cached by React Query under the same symbol, interval and range, so returning to a page or
+// tab reuses the results instead of fetching and detecting again. Metrics and detection run in
+// the detection worker pool and are cancelled when their query is no longer wanted, e.g. when
+// the symbol or range changes mid-run.
+
+export interface StockBarsRequest {
+  symbol: string
+  from: Date
+  to: Date
+  interval?: BarInterval
+}
+
+export interface StockBars {
+  // Validated bars at traded prices, which detection runs on
+  bars: StockData[]
+  // The same bars adjusted for splits and dividends, for charts and metrics
+  adjusted: StockData[]
+  issues: DataQualityIssue[]
+  actions: CorporateAction[]
+  // When the latest bars were fetched from the provider, and whether any were fetched for this request
+  fetchedAt: number
+  fromCache: boolean
+}
+
+// Ranges are keyed by trading day, so requests ending "now" share a key for the whole day
+const getRequestKey = (provider: MarketDataProvider, request: StockBarsRequest) => [
+  provider.id,
+  request.symbol.toUpperCase(),
+  request.interval ?? "1d",
+  toDateKey(request.from),
+  toDateKey(request.to),
+]
+
+// Prefix of the keys of every bars, metrics or anomalies query for a symbol, whatever its range
+export const getSymbolQueryKey = (
+  kind: "stockBars" | "stockMetrics" | "anomalies",
+  provider: MarketDataProvider,
+  symbol: string,
+) => [kind, provider.id, symbol.toUpperCase()]
+
+export const stockBarsQuery = (provider: MarketDataProvider, request: StockBarsRequest) => queryOptions({
+  queryKey: ["stockBars", ...getRequestKey(provider, request)],
+  queryFn: async (): Promise<StockBars> => {
+    const [cached, actions] = await Promise.all([
+      getCachedBars(provider, request.symbol, request.from, request.to, request.interval),
+      provider.getCorporateActions(request.symbol, request.from, request.to),
+    ])
+    const { data, issues } = validateStockData(cached.bars)
+    return {
+      bars: data,
+      adjusted: adjustForCorporateActions(data, actions),
+      issues,
+      actions,
+      fetchedAt: cached.fetchedAt,
+      fromCache: cached.fetchedRanges === 0,
+    }
+  },
+  staleTime: BAR_CACHE_FRESH_MS,
+})
+
+// Derived queries wait for the series (skipToken) and are keyed by when its bars were fetched,
+// so they are computed again only when the bars change. Anomalies are keyed by the configuration
+// the symbol is detected with as well, so changing it detects again and changing it back reuses
+// the results; while detection runs again on the same bars, the anomalies found with the previous
+// configuration are shown instead of nothing.
+export const stockMetricsQuery = (provider: MarketDataProvider, request: StockBarsRequest, series: StockBars | undefined) => queryOptions({
+  queryKey: ["stockMetrics", ...getRequestKey(provider, request), series?.fetchedAt],
+  queryFn: series
+    ? ({ signal }): Promise<StockMetrics> => getDetectionPool().run({
+      kind: "metrics",
+      symbol: request.symbol.toUpperCase(),
+      bars: series.adjusted,
+      interval: request.interval ?? "1d",
+    }, { signal })
+    : skipToken,
+  staleTime: Infinity,
+})
+
+export const anomaliesQuery = (
+  provider: MarketDataProvider,
+  request: StockBarsRequest,
+  series: StockBars | undefined,
+  config: AnomalyDetectionConfig | undefined,
+  confirmTimeframes: Timeframe[] = [],
+  onProgress?: (fraction: number) => void
+) => queryOptions({
+  queryKey: ["anomalies", ...getRequestKey(provider, request), series?.fetchedAt, config, confirmTimeframes.join(",")],
+  placeholderData: (previous: AnomalyData[] | undefined, previousQuery) => {
+    const seriesKey = ["anomalies", ...getRequestKey(provider, request), series?.fetchedAt]
+    return previousQuery?.queryKey.slice(0, seriesKey.length).every((part, i) => part === seriesKey[i]) ? previous : undefined
+  },
+  queryFn: series && config
+    ? ({ signal }): Promise<AnomalyData[]> => {
+      onProgress?.(0)
+      return getDetectionPool().run({
+        kind: "anomalies",
+        bars: series.bars,
+        config,
+        options: { corporateActions: series.actions, interval: request.interval, confirmTimeframes },
+      }, { signal, onProgress })
+    }
+    : skipToken,
+  staleTime: Infinity,
+})
+
+// Symbol details are reference data, so they are fetched once per session. A failed lookup is
+// treated as a symbol the provider has no details for.
+export const symbolInfoQuery = (provider: MarketDataProvider, symbol: string) => queryOptions({
+  queryKey: ["symbolInfo", provider.id, symbol.toUpperCase()],
+  queryFn: () => provider.getSymbolInfo(symbol).catch(() => null),
+  staleTime: Infinity,
+})
+
+// A null request (e.g. while a date range is being picked) fetches nothing
+const IDLE_REQUEST: StockBarsRequest = { symbol: "", from: new Date(0), to: new Date(0) }
+
+export function useStockBars(request: StockBarsRequest | null) {
+  const provider = useMarketData()
+  return useQuery({ ...stockBarsQuery(provider, request ?? IDLE_REQUEST), enabled: request !== null })
+}
+
+export function useStockMetrics(request: StockBarsRequest | null) {
+  const provider = useMarketData()
+  const { data: series } = useStockBars(request)
+  return useQuery(stockMetricsQuery(provider, request ?? IDLE_REQUEST, series))
+}
+
+// The configuration a symbol is detected with, from its own profile, its sector's or the default;
+// undefined until the symbol's sector is known
+export function useSymbolConfig(symbol: string | undefined): AnomalyDetectionConfig | undefined {
+  const provider = useMarketData()
+  const { resolveConfig } = useDetectionConfig()
+  const { data: info, isSuccess } = useQuery({ ...symbolInfoQuery(provider, symbol ?? ""), enabled: !!symbol })
+  return symbol && isSuccess ? resolveConfig(symbol, info?.sector) : undefined
+}
+
+// `progress` is the fraction of the current detection run that is done
+export function useAnomalies(request: StockBarsRequest | null, confirmTimeframes: Timeframe[] = []) {
+  const provider = useMarketData()
+  const config = useSymbolConfig(request?.symbol)
+  const [progress, setProgress] = useState(0)
+  const { data: series } = useStockBars(request)
+  const query = useQuery(anomaliesQuery(provider, request ?? IDLE_REQUEST, series, config, confirmTimeframes, setProgress))
+  return { ...query, progress }
+}
+
+// Fetches the days of the request that may have changed since they were cached, then reloads
+// the queries built on them
+export function useRefreshStockBars() {
+  const provider = useMarketData()
+  const queryClient = useQueryClient()
+  return async (request: StockBarsRequest) => {
+    await getCachedBars(provider, request.symbol, request.from, request.to, request.interval, true)
+    await queryClient.invalidateQueries({ queryKey: stockBarsQuery(provider, request).queryKey })
+  }
+}
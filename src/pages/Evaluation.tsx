@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BarChart3, FlaskConical, RefreshCw, TrendingUp } from 'lucide-react';
+import { AnomalyData } from '@/types';
+import { FeedbackTuning } from '@/components/FeedbackTuning';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { getDetectorName } from '@/utils/anomalyDetection';
+import {
+  DetectionMetrics,
+  ENSEMBLE_ID,
+  EvaluationReport,
+  createSyntheticBenchmark,
+  evaluateDetection
+} from '@/utils/evaluation';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const MetricsRow = ({ metrics }: { metrics: DetectionMetrics }) => (
+  <TableRow className={metrics.detectorId === ENSEMBLE_ID ? 'font-semibold bg-accent/50' : undefined}>
+    <TableCell>{metrics.detectorId === ENSEMBLE_ID ? 'Ensemble' : getDetectorName(metrics.detectorId)}</TableCell>
+    <TableCell className="text-right">{metrics.flaggedBars}</TableCell>
+    <TableCell className="text-right">{formatPercent(metrics.precision)}</TableCell>
+    <TableCell className="text-right">{formatPercent(metrics.recall)}</TableCell>
+    <TableCell className="text-right">{metrics.f1.toFixed(2)}</TableCell>
+    <TableCell className="text-right">
+      {metrics.meanLag === null ? '—' : `${metrics.meanLag.toFixed(1)} bars`}
+    </TableCell>
+  </TableRow>
+);
+
+const Evaluation = () => {
+  const [minSeverity, setMinSeverity] = useState<AnomalyData['severity']>('low');
+  const [maxLag, setMaxLag] = useState(3);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [running, setRunning] = useState(true);
+  const { config } = useDetectionConfig();
+
+  const dataset = useMemo(() => createSyntheticBenchmark(), []);
+
+  // Evaluation is synchronous, so defer it a tick to let the loading state render first
+  useEffect(() => {
+    setRunning(true);
+    const timer = setTimeout(() => {
+      setReport(evaluateDetection(dataset, { config, minSeverity, maxLag }));
+      setRunning(false);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [dataset, config, minSeverity, maxLag]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header with Navigation */}
+      <header className="border-b border-border bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-card/50">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-6 w-6 text-primary" />
+              <h1 className="text-xl font-bold text-foreground">
+                Stock Anomaly Detector
+              </h1>
+            </div>
+            <nav className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link to="/">Single Stock</Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/portfolio" className="flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4" />
+                  Portfolio Monitor
+                </Link>
+              </Button>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-foreground mb-2">
+            Detector Evaluation
+          </h2>
+          <p className="text-muted-foreground">
+            Measure precision, recall and detection lag against labelled benchmark data
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <FlaskConical className="h-5 w-5" />
+                  Benchmark Results
+                </CardTitle>
+                <CardDescription>
+                  Current detection configuration on {dataset.length} synthetic series with injected events
+                </CardDescription>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={minSeverity} onValueChange={(value) => setMinSeverity(value as AnomalyData['severity'])}>
+                  <SelectTrigger className="w-full sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">All severities</SelectItem>
+                    <SelectItem value="medium">Medium and high</SelectItem>
+                    <SelectItem value="high">High only</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={String(maxLag)} onValueChange={(value) => setMaxLag(Number(value))}>
+                  <SelectTrigger className="w-full sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[0, 1, 3, 5, 10].map(lag => (
+                      <SelectItem key={lag} value={String(lag)}>
+                        {lag === 0 ? 'Same bar only' : `Within ${lag} bars`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {running || !report ? (
+              <div className="h-48 flex items-center justify-center text-muted-foreground">
+                <RefreshCw className="h-5 w-5 mr-2 animate-spin" />
+                Running evaluation...
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{report.series} series</Badge>
+                  <Badge variant="outline">{report.bars} bars</Badge>
+                  <Badge variant="outline">{report.labels} labelled events</Badge>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Detector</TableHead>
+                      <TableHead className="text-right">Flagged Bars</TableHead>
+                      <TableHead className="text-right">Precision</TableHead>
+                      <TableHead className="text-right">Recall</TableHead>
+                      <TableHead className="text-right">F1</TableHead>
+                      <TableHead className="text-right">Mean Lag</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <MetricsRow metrics={report.ensemble} />
+                    {report.detectors.map(metrics => (
+                      <MetricsRow key={metrics.detectorId} metrics={metrics} />
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground">
+                  A flagged bar is a true positive when it falls between a labelled event's first bar and {report.maxLag} bars
+                  after its last bar. Detectors are credited through their contributions to ensemble anomalies.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <FeedbackTuning />
+      </div>
+    </div>
+  );
+};
+
+export default Evaluation;
@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { StockSelector } from '@/components/StockSelector';
 import { DateRangeSelector } from '@/components/DateRangeSelector';
@@ -7,17 +7,29 @@ import { StockChart } from '@/components/StockChart';
 import { MetricsPanel } from '@/components/MetricsPanel';
 import { AnomalyList } from '@/components/AnomalyList';
 import { ModelExplanation } from '@/components/ModelExplanation';
+import { AnomalyScoreBreakdown } from '@/components/AnomalyScoreBreakdown';
+import { AnomalyTriagePanel } from '@/components/AnomalyTriagePanel';
 import { OnboardingTooltips } from '@/components/OnboardingTooltips';
+import { DataImportDialog } from '@/components/DataImportDialog';
+import { DataIssuesList } from '@/components/DataIssuesList';
+import { IntervalSelector } from '@/components/IntervalSelector';
+import { DataFreshness } from '@/components/DataFreshness';
+import { LiveFeedIndicator } from '@/components/LiveFeedIndicator';
+import { DetectionSettingsPanel } from '@/components/DetectionSettingsPanel';
 import { Button } from '@/components/ui/button';
-import { BarChart3, TrendingUp } from 'lucide-react';
-import { StockData, AnomalyData, TimeRange, DateRangeValue } from '@/types';
-import { fetchStockData, fetchStockMetrics } from '@/utils/stockData';
-import { detectAnomalies } from '@/utils/anomalyDetection';
+import { BarChart3, FlaskConical, Settings2, TrendingUp } from 'lucide-react';
+import { AnomalyData, TimeRange, DateRangeValue, BarInterval, StockData } from '@/types';
+import { formatBarDate, getConfirmationTimeframes, isIntervalAvailable, TIMEFRAME_LABELS } from '@/utils/barInterval';
+import { MarketDataError } from '@/utils/marketDataProvider';
+import { mergeLiveBars, resampleLiveBars } from '@/utils/liveFeed';
+import { addTradingDays, fromDateKey, nextTradingDay, previousTradingDay, toDateKey } from '@/utils/tradingCalendar';
 import { DateRange } from 'react-day-picker';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { AlertTriangle, Info } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { StockBarsRequest, useAnomalies, useRefreshStockBars, useStockBars, useStockMetrics, useSymbolConfig } from '@/hooks/use-stock-data';
+import { useLiveAnomalies, useLiveBars } from '@/hooks/use-live-feed';
 import {
   Tabs,
   TabsContent,
@@ -25,75 +37,160 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 
+const NO_ANOMALIES: AnomalyData[] = [];
+const NO_BARS: StockData[] = [];
+const NO_SYMBOLS: string[] = [];
+
 const Index = () => {
   const [selectedStock, setSelectedStock] = useState('AAPL');
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: new Date(new Date().setFullYear(new Date().getFullYear() - 1)),
     to: new Date()
   });
-  const [stockData, setStockData] = useState<StockData[]>([]);
-  const [anomalies, setAnomalies] = useState<AnomalyData[]>([]);
-  const [metrics, setMetrics] = useState<any>(null);
+  const [barInterval, setBarInterval] = useState<BarInterval>('1d');
+  const [multiTimeframe, setMultiTimeframe] = useState(false);
   const [selectedAnomaly, setSelectedAnomaly] = useState<AnomalyData | null>(null);
-  const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<string>("chart");
+  const [refreshing, setRefreshing] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const { toast } = useToast();
+  // The configuration the selected stock is detected with, from its profile if it has one
+  const config = useSymbolConfig(selectedStock);
+  
+  // An intraday interval that would give too many bars over the range falls back to daily bars
+  const activeInterval: BarInterval = dateRange?.from && dateRange?.to
+    && !isIntervalAvailable(barInterval, toDateKey(dateRange.from), toDateKey(dateRange.to))
+    ? '1d'
+    : barInterval;
 
-  // Load data when stock or date range changes
+  // Bars, metrics and anomalies are cached per stock, interval and date range, so switching back
+  // to a range already seen does not fetch or detect again
+  const request = useMemo<StockBarsRequest | null>(() => (
+    dateRange?.from && dateRange?.to
+      ? { symbol: selectedStock, from: dateRange.from, to: dateRange.to, interval: activeInterval }
+      : null
+  ), [selectedStock, dateRange, activeInterval]);
+  
+  // Detect anomalies, optionally confirming them on weekly/monthly (or longer intraday) bars
+  const confirmTimeframes = useMemo(() => (
+    multiTimeframe && request
+      ? getConfirmationTimeframes(activeInterval, toDateKey(request.from), toDateKey(request.to))
+      : []
+  ), [multiTimeframe, request, activeInterval]);
+  
+  const barsQuery = useStockBars(request);
+  const metricsQuery = useStockMetrics(request);
+  const anomaliesQuery = useAnomalies(request, confirmTimeframes);
+  const refreshStockBars = useRefreshStockBars();
+  
+  // Chart the series adjusted for splits and dividends, as the detectors see it
+  const history = barsQuery.data?.adjusted ?? NO_BARS;
+  const dataIssues = barsQuery.data?.issues ?? [];
+  const corporateActions = barsQuery.data?.actions ?? [];
+  const metrics = metricsQuery.data;
+  const detectedAnomalies = anomaliesQuery.data ?? NO_ANOMALIES;
+  
+  // A range reaching the latest trading day follows live quotes when a live feed is configured:
+  // live bars take the place of the fetched ones from the first live bar on, and anomalies in
+  // them are found by a streaming detector as each bar closes
+  const followsLive = request !== null && toDateKey(request.to) >= previousTradingDay(toDateKey(new Date()));
+  const liveBars = useLiveBars(followsLive ? [selectedStock] : NO_SYMBOLS);
+  const live = useMemo(
+    () => resampleLiveBars(liveBars[selectedStock.toUpperCase()] ?? [], activeInterval),
+    [liveBars, selectedStock, activeInterval]
+  );
+  const stockData = useMemo(() => mergeLiveBars(history, live), [history, live]);
+  const liveAnomalies = useLiveAnomalies(selectedStock, history, live);
+  const anomalies = useMemo(() => {
+    if (live.length === 0) return detectedAnomalies;
+    return [...detectedAnomalies.filter(anomaly => anomaly.date < live[0].bar.date), ...liveAnomalies]
+      .sort((a, b) => b.score - a.score);
+  }, [detectedAnomalies, live, liveAnomalies]);
+  const error = barsQuery.error ?? metricsQuery.error ?? anomaliesQuery.error;
+  const loading = request !== null && !error
+    && (barsQuery.isPending || metricsQuery.isPending || anomaliesQuery.isPending);
+  
+  // The request and configuration the anomalies were last reported for. Anomalies found again
+  // because the detection settings changed are not reported, as they change with every slider step.
+  const detection = useRef({ request, config });
+  detection.current = { request, config };
+  const reported = useRef(detection.current);
+  
+  // Reset the selected anomaly and report what was found whenever the anomalies change
+  useEffect(() => {
+    setSelectedAnomaly(null);
+    const settingsChanged = reported.current.request === detection.current.request
+      && reported.current.config !== detection.current.config;
+    reported.current = detection.current;
+    if (detectedAnomalies.length > 0 && !settingsChanged) {
+      toast({
+        title: "Anomalies Detected",
+        description: `${detectedAnomalies.length} anomalies found in ${selectedStock} data.`,
+        variant: "default",
+      });
+    }
+  }, [detectedAnomalies, selectedStock, toast]);
+  
+  // Report each live anomaly once, when it is first found
+  const reportedLive = useRef(new Set<string>());
   useEffect(() => {
-    const loadData = async () => {
-      if (!dateRange?.from || !dateRange?.to) return;
-      
-      setLoading(true);
-      try {
-        // Fetch stock data
-        const data = await fetchStockData(selectedStock, dateRange.from, dateRange.to);
-        setStockData(data);
-        
-        // Calculate metrics
-        const stockMetrics = await fetchStockMetrics(selectedStock, data);
-        setMetrics(stockMetrics);
-        
-        // Detect anomalies
-        const detectedAnomalies = detectAnomalies(data);
-        setAnomalies(detectedAnomalies);
-        
-        // Reset selected anomaly
-        setSelectedAnomaly(null);
-        
-        if (detectedAnomalies.length > 0) {
-          toast({
-            title: "Anomalies Detected",
-            description: `${detectedAnomalies.length} anomalies found in ${selectedStock} data.`,
-            variant: "default",
-          });
-        }
-      } catch (error) {
-        console.error("Error loading stock data:", error);
+    liveAnomalies
+      .filter(anomaly => !reportedLive.current.has(anomaly.id))
+      .forEach(anomaly => {
+        reportedLive.current.add(anomaly.id);
         toast({
-          title: "Error",
-          description: "Failed to load stock data. Please try again.",
-          variant: "destructive",
+          title: "Live Anomaly",
+          description: `${selectedStock}: ${anomaly.description}`,
+          variant: anomaly.severity === 'high' ? "destructive" : "default",
         });
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadData();
-  }, [selectedStock, dateRange, toast]);
+      });
+  }, [liveAnomalies, selectedStock, toast]);
+  
+  useEffect(() => {
+    if (!error) return;
+    console.error("Error loading stock data:", error);
+    toast({
+      title: "Error",
+      description: error instanceof MarketDataError
+        ? error.message
+        : "Failed to load stock data. Please try again.",
+      variant: "destructive",
+    });
+  }, [error, toast]);
+
+  // Fetch the latest bars even if the cached ones are still fresh
+  const handleRefresh = async () => {
+    if (!request) return;
+    setRefreshing(true);
+    try {
+      await refreshStockBars(request);
+    } catch (refreshError) {
+      console.error("Error refreshing stock data:", refreshError);
+      toast({
+        title: "Error",
+        description: refreshError instanceof MarketDataError
+          ? refreshError.message
+          : "Failed to refresh stock data. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
 
   // Handle time range preset selection
+  // Ranges end on the latest trading day and start on a trading day, so they are never empty.
+  // Short ranges switch to intraday bars, longer ones back to daily bars. Over the full history
+  // daily noise hides structural events, so MAX also confirms anomalies on weekly and monthly bars.
   const handleTimeRangePreset = (preset: TimeRange) => {
-    const endDate = new Date();
-    let startDate = new Date();
+    const endDate = fromDateKey(previousTradingDay(toDateKey(new Date())));
+    let startDate = new Date(endDate);
     
     switch(preset) {
       case '1D':
-        startDate.setDate(endDate.getDate() - 1);
         break;
       case '1W':
-        startDate.setDate(endDate.getDate() - 7);
+        startDate = fromDateKey(addTradingDays(toDateKey(endDate), -4));
         break;
       case '1M':
         startDate.setMonth(endDate.getMonth() - 1);
@@ -115,7 +212,10 @@ const Index = () => {
         break;
     }
     
+    startDate = fromDateKey(nextTradingDay(toDateKey(startDate)));
     setDateRange({ from: startDate, to: endDate });
+    setBarInterval(preset === '1D' ? '1m' : preset === '1W' ? '5m' : '1d');
+    setMultiTimeframe(preset === 'MAX');
   };
 
   // Handle anomaly selection
@@ -158,6 +258,12 @@ const Index = () => {
                   Portfolio Monitor
                 </Link>
               </Button>
+              <Button variant="outline" asChild>
+                <Link to="/evaluation" className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4" />
+                  Evaluation
+                </Link>
+              </Button>
             </nav>
           </div>
         </div>
@@ -176,7 +282,25 @@ const Index = () => {
 
         <div className="flex flex-col gap-4">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-            <StockSelector value={selectedStock} onChange={setSelectedStock} />
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 w-full sm:w-auto">
+              <StockSelector value={selectedStock} onChange={setSelectedStock} />
+              <DataImportDialog onImported={setSelectedStock} />
+              <Button
+                variant={showSettings ? "secondary" : "outline"}
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center gap-2"
+              >
+                <Settings2 className="h-4 w-4" />
+                Detection Settings
+              </Button>
+              <IntervalSelector
+                value={activeInterval}
+                onChange={setBarInterval}
+                dateRange={dateRange}
+                multiTimeframe={multiTimeframe}
+                onMultiTimeframeChange={setMultiTimeframe}
+              />
+            </div>
             <DateRangeSelector 
               dateRange={dateRange} 
               onDateRangeChange={setDateRange}
@@ -184,15 +308,38 @@ const Index = () => {
             />
           </div>
           
+          {showSettings && <DetectionSettingsPanel />}
+          
           {loading ? (
             <div className="h-96 flex items-center justify-center">
               <div className="text-center space-y-4">
                 <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
-                <p className="text-muted-foreground">Loading {selectedStock} data...</p>
+                <p className="text-muted-foreground">
+                  {barsQuery.data
+                    ? `Detecting anomalies in ${selectedStock}... ${Math.round(anomaliesQuery.progress * 100)}%`
+                    : `Loading ${selectedStock} data...`}
+                </p>
               </div>
             </div>
           ) : (
             <>
+              {barsQuery.data && (
+                <div className="flex items-center gap-2">
+                  <DataFreshness
+                    fetchedAt={barsQuery.data.fetchedAt}
+                    fromCache={barsQuery.data.fromCache}
+                    refreshing={refreshing || barsQuery.isFetching}
+                    onRefresh={handleRefresh}
+                  />
+                  {followsLive && <LiveFeedIndicator />}
+                  {anomaliesQuery.isPlaceholderData && (
+                    <Badge variant="outline" className="text-xs text-muted-foreground">
+                      Detecting with new settings... {Math.round(anomaliesQuery.progress * 100)}%
+                    </Badge>
+                  )}
+                </div>
+              )}
+              
               {metrics && (
                 <MetricsPanel metrics={metrics} />
               )}
@@ -215,6 +362,7 @@ const Index = () => {
                       stockData={stockData} 
                       anomalies={anomalies}
                       onAnomalyClick={handleAnomalyClick}
+                      corporateActions={corporateActions}
                     />
                   </TabsContent>
                   
@@ -226,6 +374,8 @@ const Index = () => {
                         selectedAnomalyId={selectedAnomaly?.id}
                       />
                       
+                      {dataIssues.length > 0 && <DataIssuesList issues={dataIssues} />}
+                      
                       {selectedAnomaly && (
                         <Card className="border border-primary animate-fade-in" id="anomaly-details">
                           <CardContent className="p-4 space-y-3">
@@ -247,15 +397,17 @@ const Index = () => {
                             
                             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-2">
                               <div>
-                                <p className="text-sm text-muted-foreground">Date</p>
+                                <p className="text-sm text-muted-foreground">{selectedAnomaly.type === 'regime' ? 'Start Date' : 'Date'}</p>
                                 <p className="font-medium">
-                                  {new Date(selectedAnomaly.date).toLocaleDateString('en-US', {
-                                    weekday: 'short',
-                                    year: 'numeric',
-                                    month: 'short',
-                                    day: 'numeric'
-                                  })}
+                                  {formatBarDate(selectedAnomaly.date, { withWeekday: true, withYear: true })}
                                 </p>
+                                {selectedAnomaly.type === 'regime' && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {selectedAnomaly.endDate
+                                      ? `Through ${formatBarDate(selectedAnomaly.endDate, { withYear: true })}`
+                                      : 'Ongoing'}
+                                  </p>
+                                )}
                               </div>
                               <div>
                                 <p className="text-sm text-muted-foreground">Type</p>
@@ -264,6 +416,11 @@ const Index = () => {
                               <div>
                                 <p className="text-sm text-muted-foreground">Anomaly Score</p>
                                 <p className="font-medium">{selectedAnomaly.score.toFixed(2)}</p>
+                                {selectedAnomaly.timeframes && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {selectedAnomaly.confirmed ? 'Confirmed on' : 'Found on'} {selectedAnomaly.timeframes.map(timeframe => TIMEFRAME_LABELS[timeframe]).join(', ')} bars
+                                  </p>
+                                )}
                               </div>
                             </div>
                             
@@ -271,11 +428,15 @@ const Index = () => {
                               <p className="text-sm text-muted-foreground mb-1">Description</p>
                               <p>{selectedAnomaly.description}</p>
                             </div>
+                            
+                            <AnomalyScoreBreakdown anomaly={selectedAnomaly} />
+                            
+                            <AnomalyTriagePanel anomaly={selectedAnomaly} />
                           </CardContent>
                         </Card>
                       )}
                       
-                      <ModelExplanation />
+                      <ModelExplanation config={config} />
                     </div>
                   </TabsContent>
                 </Tabs>
@@ -288,6 +449,7 @@ const Index = () => {
                     stockData={stockData} 
                     anomalies={anomalies}
                     onAnomalyClick={handleAnomalyClick}
+                    corporateActions={corporateActions}
                   />
                 </div>
                 <div className="space-y-6">
@@ -297,7 +459,9 @@ const Index = () => {
                     selectedAnomalyId={selectedAnomaly?.id}
                   />
                   
-                  <ModelExplanation />
+                  {dataIssues.length > 0 && <DataIssuesList issues={dataIssues} />}
+                  
+                  <ModelExplanation config={config} />
                 </div>
               </div>
 
@@ -322,15 +486,17 @@ const Index = () => {
                     
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-2">
                       <div>
-                        <p className="text-sm text-muted-foreground">Date</p>
+                        <p className="text-sm text-muted-foreground">{selectedAnomaly.type === 'regime' ? 'Start Date' : 'Date'}</p>
                         <p className="font-medium">
-                          {new Date(selectedAnomaly.date).toLocaleDateString('en-US', {
-                            weekday: 'short',
-                            year: 'numeric',
-                            month: 'short',
-                            day: 'numeric'
-                          })}
+                          {formatBarDate(selectedAnomaly.date, { withWeekday: true, withYear: true })}
                         </p>
+                        {selectedAnomaly.type === 'regime' && (
+                          <p className="text-xs text-muted-foreground">
+                            {selectedAnomaly.endDate
+                              ? `Through ${formatBarDate(selectedAnomaly.endDate, { withYear: true })}`
+                              : 'Ongoing'}
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-muted-foreground">Type</p>
@@ -339,6 +505,11 @@ const Index = () => {
                       <div>
                         <p className="text-sm text-muted-foreground">Anomaly Score</p>
                         <p className="font-medium">{selectedAnomaly.score.toFixed(2)}</p>
+                        {selectedAnomaly.timeframes && (
+                          <p className="text-xs text-muted-foreground">
+                            {selectedAnomaly.confirmed ? 'Confirmed on' : 'Found on'} {selectedAnomaly.timeframes.map(timeframe => TIMEFRAME_LABELS[timeframe]).join(', ')} bars
+                          </p>
+                        )}
                       </div>
                     </div>
                     
@@ -347,6 +518,10 @@ const Index = () => {
                       <p>{selectedAnomaly.description}</p>
                     </div>
                     
+                    <AnomalyScoreBreakdown anomaly={selectedAnomaly} />
+                    
+                    <AnomalyTriagePanel anomaly={selectedAnomaly} />
+                    
                     <div className="text-xs text-muted-foreground">
                       <p>
                         Note: This is a simulated environment with mock data and simplified anomaly detection.
@@ -1,12 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { StockData, AnomalyData, StockMetrics } from '@/types';
-import { detectAnomalies } from '@/utils/anomalyDetection';
-import { fetchStockData, fetchStockMetrics } from '@/utils/stockData';
+import { useMarketData } from '@/hooks/use-market-data';
+import { getSymbolQueryKey, stockBarsQuery, stockMetricsQuery, useRefreshStockBars } from '@/hooks/use-stock-data';
+import { useLiveBars } from '@/hooks/use-live-feed';
+import { useDetectionConfig } from '@/hooks/use-detection-config';
+import { AnomalyDetectionConfig } from '@/utils/anomalyDetection';
+import { getDetectionPool } from '@/utils/detectionPool';
+import { LiveBar, mergeLiveBars, resampleLiveBars } from '@/utils/liveFeed';
 import { WatchlistManager } from '@/components/WatchlistManager';
 import { StockGrid } from '@/components/StockGrid';
 import { PortfolioAnalysis } from '@/components/PortfolioAnalysis';
 import { MarketComparison } from '@/components/MarketComparison';
+import { DetectionProfiles } from '@/components/DetectionProfiles';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, AlertTriangle, BarChart3 } from 'lucide-react';
@@ -19,59 +26,126 @@ interface PortfolioStock {
   lastUpdate: Date;
 }
 
+// The bars a symbol was last detected on and the configuration they were detected with
+interface SymbolDetection {
+  bars: StockData[];
+  config: AnomalyDetectionConfig;
+}
+
+// A stock with its live daily bar in place of the fetched one, and its price and daily change
+// from that bar, so the grid follows live quotes between refreshes
+const withLiveBars = (stock: PortfolioStock, live: LiveBar[] = []): PortfolioStock => {
+  const data = mergeLiveBars(stock.data, resampleLiveBars(live, '1d'));
+  if (data === stock.data) return stock;
+  const latest = data[data.length - 1];
+  const previous = data[data.length - 2] ?? latest;
+  const dailyChange = latest.close - previous.close;
+  return {
+    ...stock,
+    data,
+    metrics: {
+      ...stock.metrics,
+      currentPrice: latest.close,
+      dailyChange,
+      dailyChangePercent: previous.close ? (dailyChange / previous.close) * 100 : 0
+    }
+  };
+};
+
 const Portfolio = () => {
   const [watchlist, setWatchlist] = useState<string[]>(['AAPL', 'GOOGL', 'MSFT', 'TSLA']);
   const [portfolioStocks, setPortfolioStocks] = useState<PortfolioStock[]>([]);
   const [loading, setLoading] = useState(false);
+  // Fraction of the watchlist refreshed so far
+  const [progress, setProgress] = useState(0);
   const [selectedSector, setSelectedSector] = useState<string>('all');
   const { toast } = useToast();
 
-  // Stock sectors mapping
-  const stockSectors: Record<string, string> = {
-    'AAPL': 'Technology',
-    'GOOGL': 'Technology', 
-    'MSFT': 'Technology',
-    'TSLA': 'Automotive',
-    'NVDA': 'Technology',
-    'META': 'Technology',
-    'AMZN': 'E-commerce',
-    'JPM': 'Finance',
-    'JNJ': 'Healthcare',
-    'PFE': 'Healthcare',
-    'XOM': 'Energy',
-    'CVX': 'Energy'
-  };
+  // Stock sectors mapping, from the market data provider's reference data
+  const [stockSectors, setStockSectors] = useState<Record<string, string>>({});
+  const marketData = useMarketData();
+  const queryClient = useQueryClient();
+  const refreshStockBars = useRefreshStockBars();
+  // Each refresh takes a new run number, so a refresh that has been superseded drops its results,
+  // and aborts its detection jobs through its controller when it is cancelled
+  const refreshRun = useRef(0);
+  const refreshAbort = useRef(new AbortController());
+  const detections = useRef(new Map<string, SymbolDetection>());
+  const liveBars = useLiveBars(watchlist);
+  const { resolveConfig } = useDetectionConfig();
 
   const sectors = ['all', ...Array.from(new Set(Object.values(stockSectors)))];
 
-  // Fetch data for all watchlist stocks
-  const refreshPortfolioData = async () => {
+  // Each symbol keeps a streaming detector in the detection pool, so refreshes only run detection
+  // on the bars added since the last one, off the page's thread. The bars are noted as soon as the
+  // job is sent, so live updates arriving meanwhile do not send them again.
+  const detectNewBars = (
+    symbol: string,
+    bars: StockData[],
+    config: AnomalyDetectionConfig,
+    signal: AbortSignal
+  ): Promise<AnomalyData[]> => {
+    detections.current.set(symbol, { bars, config });
+    return getDetectionPool().run({ kind: 'stream', key: symbol, bars, config }, { signal, affinity: symbol });
+  };
+
+  // Fetch data for all watchlist stocks. Bars and metrics are shared with the Single Stock page
+  // through the query cache, so coming back to this page only fetches what has gone stale;
+  // `reload` fetches the latest bars even when the cached ones are fresh.
+  const refreshPortfolioData = async (reload = false) => {
+    const run = ++refreshRun.current;
+    const isCurrent = () => run === refreshRun.current;
+    const { signal } = refreshAbort.current;
     setLoading(true);
+    setProgress(0);
     try {
       const endDate = new Date();
       const startDate = new Date();
       startDate.setMonth(endDate.getMonth() - 3); // 3 months of data
 
-      const portfolioPromises = watchlist.map(async (symbol) => {
+      // Sectors are reference data, so a symbol without one is simply grouped under 'Other'
+      const symbolInfo = await Promise.all(
+        watchlist.map(symbol => marketData.getSymbolInfo(symbol).catch(() => null))
+      );
+      setStockSectors(Object.fromEntries(
+        symbolInfo.flatMap(info => (info?.sector ? [[info.symbol, info.sector]] : []))
+      ));
+
+      let completed = 0;
+      const portfolioPromises = watchlist.map(async (symbol, index) => {
         try {
-          const stockData = await fetchStockData(symbol, startDate, endDate);
-          const anomalies = detectAnomalies(stockData);
-          const metrics = await fetchStockMetrics(symbol, stockData);
+          const request = { symbol, from: startDate, to: endDate };
+          if (reload) {
+            await refreshStockBars(request);
+          }
+          const series = await queryClient.fetchQuery(stockBarsQuery(marketData, request));
+          const metrics = await queryClient.fetchQuery(stockMetricsQuery(marketData, request, series));
+          // Each symbol is detected with its own profile, or else its sector's, or the default settings
+          const config = resolveConfig(symbol, symbolInfo[index]?.sector);
+          const anomalies = await detectNewBars(symbol, series.adjusted, config, signal);
           
           return {
             symbol,
-            data: stockData,
+            data: series.adjusted,
             anomalies,
             metrics,
-            lastUpdate: new Date()
+            lastUpdate: new Date(series.fetchedAt)
           };
         } catch (error) {
-          console.error(`Failed to fetch data for ${symbol}:`, error);
+          if (isCurrent()) {
+            console.error(`Failed to fetch data for ${symbol}:`, error);
+          }
           return null;
+        } finally {
+          completed++;
+          if (isCurrent()) {
+            setProgress(completed / watchlist.length);
+          }
         }
       });
 
       const results = await Promise.all(portfolioPromises);
+      if (!isCurrent()) return;
       const validStocks = results.filter((stock): stock is PortfolioStock => stock !== null);
       
       setPortfolioStocks(validStocks);
@@ -80,6 +154,7 @@ const Portfolio = () => {
         description: `Updated data for ${validStocks.length} stocks`,
       });
     } catch (error) {
+      if (!isCurrent()) return;
       console.error('Failed to refresh portfolio:', error);
       toast({
         title: "Update Failed",
@@ -87,16 +162,51 @@ const Portfolio = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        setLoading(false);
+      }
     }
   };
 
-  // Auto-refresh on watchlist changes
+  // Supersede the running refresh and cancel its detection jobs. Only the watchlist's metrics
+  // queries are cancelled, leaving those of other pages alone.
+  const cancelRefresh = () => {
+    refreshRun.current++;
+    refreshAbort.current.abort();
+    refreshAbort.current = new AbortController();
+    watchlist.forEach(symbol => {
+      queryClient.cancelQueries({ queryKey: getSymbolQueryKey('stockMetrics', marketData, symbol) });
+    });
+  };
+
+  // Auto-refresh on watchlist, detection settings or profile changes. A refresh still running for the
+  // previous watchlist, or when leaving the page, is cancelled.
   useEffect(() => {
     if (watchlist.length > 0) {
       refreshPortfolioData();
     }
-  }, [watchlist]);
+    return cancelRefresh;
+  }, [watchlist, resolveConfig]);
+
+  // Detect anomalies in each live daily bar once it closes, as a refresh would, with the
+  // configuration the symbol was last refreshed with. A refresh that starts meanwhile aborts it.
+  useEffect(() => {
+    const { signal } = refreshAbort.current;
+    detections.current.forEach((state, symbol) => {
+      const closed = resampleLiveBars(liveBars[symbol] ?? [], '1d').filter(({ final }) => final);
+      const last = state.bars[state.bars.length - 1];
+      if (closed.length === 0 || (last && closed[closed.length - 1].bar.date <= last.date)) return;
+      detectNewBars(symbol, mergeLiveBars(state.bars, closed), state.config, signal)
+        .then(anomalies => setPortfolioStocks(prev => prev.map(stock => (
+          stock.symbol === symbol ? { ...stock, anomalies } : stock
+        ))))
+        .catch(error => {
+          if (!signal.aborted) {
+            console.error(`Failed to detect live anomalies for ${symbol}:`, error);
+          }
+        });
+    });
+  }, [liveBars]);
 
   // Add stock to watchlist
   const addToWatchlist = (symbol: string) => {
@@ -112,6 +222,7 @@ const Portfolio = () => {
   // Remove stock from watchlist
   const removeFromWatchlist = (symbol: string) => {
     setWatchlist(prev => prev.filter(s => s !== symbol));
+    detections.current.delete(symbol);
     setPortfolioStocks(prev => prev.filter(s => s.symbol !== symbol));
     toast({
       title: "Stock Removed",
@@ -119,10 +230,15 @@ const Portfolio = () => {
     });
   };
 
+  const liveStocks = useMemo(
+    () => portfolioStocks.map(stock => withLiveBars(stock, liveBars[stock.symbol])),
+    [portfolioStocks, liveBars]
+  );
+
   // Filter stocks by sector
   const filteredStocks = selectedSector === 'all' 
-    ? portfolioStocks 
-    : portfolioStocks.filter(stock => stockSectors[stock.symbol] === selectedSector);
+    ? liveStocks 
+    : liveStocks.filter(stock => stockSectors[stock.symbol] === selectedSector);
 
   // Calculate portfolio-wide statistics
   const totalAnomalies = portfolioStocks.reduce((sum, stock) => sum + stock.anomalies.length, 0);
@@ -189,11 +305,12 @@ const Portfolio = () => {
 
         {/* Main Content */}
         <Tabs defaultValue="grid" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 h-auto">
+          <TabsList className="grid w-full grid-cols-3 sm:grid-cols-5 h-auto">
             <TabsTrigger value="grid" className="text-xs sm:text-sm">Grid</TabsTrigger>
             <TabsTrigger value="watchlist" className="text-xs sm:text-sm">Watchlist</TabsTrigger>
             <TabsTrigger value="analysis" className="text-xs sm:text-sm">Analysis</TabsTrigger>
             <TabsTrigger value="market" className="text-xs sm:text-sm">Market</TabsTrigger>
+            <TabsTrigger value="profiles" className="text-xs sm:text-sm">Profiles</TabsTrigger>
           </TabsList>
 
           <TabsContent value="grid" className="space-y-4">
@@ -204,7 +321,8 @@ const Portfolio = () => {
               onSectorChange={setSelectedSector}
               onRemoveStock={removeFromWatchlist}
               loading={loading}
-              onRefresh={refreshPortfolioData}
+              progress={progress}
+              onRefresh={() => refreshPortfolioData(true)}
             />
           </TabsContent>
 
@@ -230,6 +348,13 @@ const Portfolio = () => {
               stockSectors={stockSectors}
             />
           </TabsContent>
+
+          <TabsContent value="profiles">
+            <DetectionProfiles 
+              watchlist={watchlist}
+              stockSectors={stockSectors}
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,6 +1,14 @@
 
+// Length of one bar; intraday intervals are within a trading session
+export type BarInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+// Bar lengths that bars can be resampled to, including periods longer than a day
+export type Timeframe = BarInterval | '1w' | '1mo';
+
 export interface StockData {
   symbol: string;
+  // Daily bars: the trading day, YYYY-MM-DD. Intraday bars: the bar's start in the exchange's
+  // local time with its UTC offset, YYYY-MM-DDTHH:mm:ss±HH:MM, so the first ten characters are
+  // always the trading day.
   date: string;
   open: number;
   high: number;
@@ -10,14 +18,77 @@ export interface StockData {
   adjClose?: number;
 }
 
+// One detector's evidence for an anomaly, before and after weighting
+export interface AnomalyContribution {
+  detectorId: string;
+  statistic: number;
+  threshold: number;
+  // Empirical p-value of the statistic against the symbol's own history
+  pValue: number;
+  weight: number;
+  weightedScore: number;
+  description: string;
+}
+
+export type AnomalyType = 'price' | 'volume' | 'regime';
+
 export interface AnomalyData {
   id: string;
   date: string;
   value: number;
   score: number;
-  type: 'price' | 'volume';
+  type: AnomalyType;
   severity: 'low' | 'medium' | 'high';
   description: string;
+  // Regime anomalies span a period: `date` is where it starts, `endDate` where it ends (open-ended if absent)
+  endDate?: string;
+  // Smallest calibrated p-value among the detections; severity is derived from it
+  pValue?: number;
+  // Per-detector breakdown of `score`, filled in by the ensemble
+  contributions?: AnomalyContribution[];
+  // Multi-timeframe detection: the timeframes it was found on, and whether that is more than one
+  timeframes?: Timeframe[];
+  confirmed?: boolean;
+}
+
+// Ground truth for evaluation: a known anomalous event in a series
+export interface AnomalyLabel {
+  date: string;
+  // Last affected bar for events spanning several bars
+  endDate?: string;
+  type?: AnomalyType;
+  name?: string;
+}
+
+export interface LabelledStockData {
+  symbol: string;
+  data: StockData[];
+  labels: AnomalyLabel[];
+}
+
+// A split or cash dividend, effective from its ex-date
+export interface CorporateAction {
+  symbol: string;
+  date: string;
+  type: 'split' | 'dividend';
+  // Split: new shares per old share (4 for 4-for-1, 0.1 for 1-for-10). Dividend: cash per share.
+  value: number;
+}
+
+// Reference data for a tradable symbol
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  sector?: string;
+  exchange?: string;
+  currency?: string;
+}
+
+// A benchmark that portfolios can be compared against
+export interface MarketIndex {
+  symbol: string;
+  name: string;
+  kind: 'market' | 'sector';
 }
 
 export interface StockMetrics {
@@ -26,7 +97,6 @@ export interface StockMetrics {
   dailyChange: number;
   dailyChangePercent: number;
   averageVolume: number;
-  anomalyCount: number;
   volatility: number;
   rsi: number;
 }
@@ -1,240 +1,1043 @@
 
-import { StockData, AnomalyData } from '@/types';
-import { v4 as uuidv4 } from 'uuid';
+import { StockData, AnomalyData, AnomalyContribution, AnomalyType, BarInterval, CorporateAction, Timeframe } from '@/types';
+import { fitIsolationForest, IsolationForest, scoreIsolationForest, standardizeFeatures } from '@/utils/isolationForest';
+import type { EvaluationReport } from '@/utils/evaluation';
+import { validateStockData } from '@/utils/dataQuality';
+import { adjustForCorporateActions, inferCorporateActions } from '@/utils/corporateActions';
+import { resampleBars } from '@/utils/barInterval';
+import { DAY_OF_WEEK_LABELS, SEASONAL_EVENT_LABELS, SeasonalEvent, SeasonalTags, describeSeasonalTags, getSeasonalTags } from '@/utils/seasonality';
+import { countSessionsBetween, getTradingCalendar, TradingCalendar } from '@/utils/tradingCalendar';
 
 // Enhanced anomaly detection with multiple algorithms
-// Includes Z-score, Bollinger Bands, MACD, Isolation Forest simulation, and pattern detection
-
-export interface AnomalyDetectionConfig {
-  zscore: { enabled: boolean; threshold: number; weight: number };
-  bollingerBands: { enabled: boolean; period: number; stdDev: number; weight: number };
-  macd: { enabled: boolean; fastPeriod: number; slowPeriod: number; signalPeriod: number; weight: number };
-  isolationForest: { enabled: boolean; contamination: number; weight: number };
-  patternDetection: { enabled: boolean; weight: number };
+// Includes Z-score, seasonal volume, Bollinger Bands, MACD, Isolation Forest, change-point, and pattern detection
+// Detectors are pluggable: each one is registered with its own parameters and defaults,
+// and the ensemble, its configuration and its scoring are driven by the registry.
+// Detection runs over a whole series (detectAnomalies) or one bar at a time (createDetector).
+
+export type DetectorParamValue = number | boolean | string;
+
+// Settings shared by every detector plus its own parameters
+export interface DetectorSettings {
+  enabled: boolean;
+  weight: number;
+  [param: string]: DetectorParamValue;
+}
+
+// Describes a detector-specific parameter so configuration can be validated and edited
+export interface DetectorParamSpec {
+  label: string;
+  type: 'number' | 'boolean' | 'select';
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+}
+
+// A single detector's finding: the statistic it tested and the threshold it crossed.
+// Score and severity are not set by detectors; the ensemble derives them from calibration.
+export interface DetectedAnomaly extends Omit<AnomalyData, 'score' | 'severity' | 'pValue' | 'contributions'> {
+  statistic: number;
+  threshold: number;
+}
+
+// Per-bar values of a detector's statistic for each anomaly type it emits (NaN where not scored)
+export type DetectorStatistics = Partial<Record<AnomalyType, number[]>>;
+
+export interface DetectionResult {
+  anomalies: DetectedAnomaly[];
+  statistics: DetectorStatistics;
+}
+
+// What a detector knows about the series beyond its bars
+export interface DetectionContext {
+  calendar: TradingCalendar;
 }
 
-const defaultConfig: AnomalyDetectionConfig = {
-  zscore: { enabled: true, threshold: 2.5, weight: 0.25 },
-  bollingerBands: { enabled: true, period: 20, stdDev: 2, weight: 0.25 },
-  macd: { enabled: true, fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, weight: 0.25 },
-  isolationForest: { enabled: true, contamination: 0.1, weight: 0.15 },
-  patternDetection: { enabled: true, weight: 0.1 }
+// What a detector stream finds when a bar is appended. Detections are usually of the new bar but
+// can be of an earlier one the new bar completes; reporting a detection again under the same id
+// replaces the earlier report. Statistics are the values computed for the new bar.
+export interface StreamDetectionResult {
+  anomalies: DetectedAnomaly[];
+  statistics: Partial<Record<AnomalyType, number>>;
+}
+
+// A detector's incremental form, which keeps its rolling state between bars
+export interface DetectorStream {
+  update: (bar: StockData) => StreamDetectionResult;
+}
+
+export interface AnomalyDetector<P extends DetectorSettings = DetectorSettings> {
+  id: string;
+  name: string;
+  description: string;
+  schema: Record<string, DetectorParamSpec>;
+  defaults: P;
+  // The parameter a finding's statistic (or its magnitude) is compared against, when raising it
+  // only drops the findings whose statistic falls below it; tuning from analyst feedback adjusts it
+  thresholdParam?: keyof P & string;
+  // Statistics are the symbol's own history each anomaly is calibrated against
+  detect: (stockData: StockData[], params: P, context: DetectionContext) => DetectionResult;
+  // Incremental form for streaming detection; without one the detector is run again on the
+  // whole history for every appended bar
+  stream?: (params: P, context: DetectionContext) => DetectorStream;
+}
+
+export type AnomalyDetectionConfig = Record<string, DetectorSettings>;
+export type AnomalyDetectionConfigOverrides = Record<string, Partial<DetectorSettings>>;
+
+export interface DetectionOptions {
+  // Known splits and dividends; when absent they are inferred from the bars' adjusted close
+  corporateActions?: CorporateAction[];
+  // Detect on traded prices instead of the series adjusted for corporate actions
+  unadjusted?: boolean;
+  // Calendar of the exchange the symbol trades on; defaults to NYSE
+  calendar?: TradingCalendar;
+  // Interval of the bars; defaults to daily
+  interval?: BarInterval;
+  // Coarser timeframes to run the ensemble on as well; anomalies found on more than one
+  // timeframe are marked as confirmed
+  confirmTimeframes?: Timeframe[];
+  // Called with the fraction of the work done, from 0 to 1, as each detector finishes
+  onProgress?: (fraction: number) => void;
+}
+
+const detectorRegistry = new Map<string, AnomalyDetector>();
+
+// Registering an id that already exists replaces the previous detector
+export const registerDetector = <P extends DetectorSettings>(detector: AnomalyDetector<P>): void => {
+  detectorRegistry.set(detector.id, detector as unknown as AnomalyDetector);
 };
 
-export const detectAnomalies = (stockData: StockData[], config: AnomalyDetectionConfig = defaultConfig): AnomalyData[] => {
-  if (!stockData || stockData.length === 0) {
+export const unregisterDetector = (id: string): boolean => {
+  return detectorRegistry.delete(id);
+};
+
+export const getRegisteredDetectors = (): AnomalyDetector[] => {
+  return Array.from(detectorRegistry.values());
+};
+
+export const getDefaultConfig = (): AnomalyDetectionConfig => {
+  const config: AnomalyDetectionConfig = {};
+  detectorRegistry.forEach((detector, id) => {
+    config[id] = { ...detector.defaults };
+  });
+  return config;
+};
+
+// Detectors missing from a config fall back to their registered defaults
+const resolveDetectorSettings = (detector: AnomalyDetector, config: AnomalyDetectionConfig): DetectorSettings => {
+  return { ...detector.defaults, ...config[detector.id] };
+};
+
+export const getDetectorName = (id: string): string => {
+  if (id === SIMPLE_DETECTOR_ID) return 'Simple Change Detection';
+  return detectorRegistry.get(id)?.name ?? id;
+};
+
+// Small datasets bypass the registry and use simple day-over-day change detection
+const SIMPLE_DETECTOR_ID = 'simple';
+
+// Minimum number of data points required to run the registered detectors
+const MIN_ENSEMBLE_POINTS = 20;
+
+// Anomaly ids are derived from what was found rather than generated, so running detection again
+// finds the same ids and triage stays attached to them. A detector's findings are identified by
+// the detector as well; the ensemble's combined anomaly by symbol, date and type alone, so its id
+// does not change with the detectors that contributed to it.
+export const getAnomalyId = (symbol: string, date: string, type: AnomalyType, detectorId?: string): string => {
+  return [symbol.toUpperCase(), date, type, ...(detectorId ? [detectorId] : [])].join(':');
+};
+
+interface DetectorResult extends DetectionResult {
+  detectorId: string;
+}
+
+export const detectAnomalies = (
+  rawData: StockData[],
+  config: AnomalyDetectionConfig = getDefaultConfig(),
+  options: DetectionOptions = {}
+): AnomalyData[] => {
+  if (!rawData || rawData.length === 0) {
+    return [];
+  }
+  
+  // Detect on validated bars only, so bad ticks are not reported as market anomalies
+  const validData = validateStockData(rawData).data;
+  if (validData.length === 0) {
     return [];
   }
   
-  const anomalies: AnomalyData[] = [];
+  // A split or dividend moves the traded price without any news, so detect on the adjusted series
+  const corporateActions = options.corporateActions ?? inferCorporateActions(validData);
+  const stockData = options.unadjusted ? validData : adjustForCorporateActions(validData, corporateActions);
+  
+  const results: DetectorResult[] = [];
+  const context: DetectionContext = { calendar: options.calendar ?? getTradingCalendar() };
+  // Each timeframe is an equal share of the progress
+  const confirmTimeframes = options.confirmTimeframes ?? [];
+  const reportProgress = (fraction: number) => options.onProgress?.(fraction / (confirmTimeframes.length + 1));
   
   // For datasets with sufficient data, use advanced algorithms
-  if (stockData.length >= 20) {
-    // Z-score based detection
-    if (config.zscore.enabled) {
-      anomalies.push(...detectZScoreAnomalies(stockData, config.zscore));
-    }
-    
-    // Bollinger Bands breach detection
-    if (config.bollingerBands.enabled) {
-      anomalies.push(...detectBollingerBandsAnomalies(stockData, config.bollingerBands));
-    }
-    
-    // MACD anomaly detection
-    if (config.macd.enabled) {
-      anomalies.push(...detectMACDAnomalies(stockData, config.macd));
-    }
-    
-    // Isolation Forest simulation
-    if (config.isolationForest.enabled) {
-      anomalies.push(...detectIsolationForestAnomalies(stockData, config.isolationForest));
-    }
-    
-    // Pattern-based detection (pump and dump, etc.)
-    if (config.patternDetection.enabled) {
-      anomalies.push(...detectTradingPatternAnomalies(stockData, config.patternDetection));
-    }
+  if (stockData.length >= MIN_ENSEMBLE_POINTS) {
+    const detectors = Array.from(detectorRegistry.entries())
+      .map(([detectorId, detector]) => ({ detectorId, detector, settings: resolveDetectorSettings(detector, config) }))
+      .filter(({ settings }) => settings.enabled);
+    detectors.forEach(({ detectorId, detector, settings }, index) => {
+      results.push({ detectorId, ...detector.detect(stockData, settings, context) });
+      reportProgress((index + 1) / detectors.length);
+    });
   } else {
     // Fallback to simple detection for small datasets
-    anomalies.push(...detectSimpleAnomalies(stockData));
+    results.push({ detectorId: SIMPLE_DETECTOR_ID, ...detectSimpleAnomalies(stockData) });
+    reportProgress(1);
   }
   
-  // Apply sophisticated scoring with weighted factors
-  return applyWeightedScoring(anomalies, config);
+  // Calibrate each detection and combine them with weighted factors. Bars on a known corporate
+  // action date (the first intraday bar of the day) are annotated on the chart instead of being reported.
+  const actionDates = new Set(corporateActions.map(action => stockData.find(d => d.date >= action.date)?.date));
+  const anomalies = applyWeightedScoring(stockData[0].symbol, results, config)
+    .filter(anomaly => anomaly.type === 'regime' || !actionDates.has(anomaly.date));
+  
+  return confirmTimeframes.length > 0
+    ? confirmAcrossTimeframes(anomalies, stockData, config, options.interval ?? '1d', confirmTimeframes, context, options.onProgress)
+    : anomalies;
+};
+
+// Bars an anomaly covers, from its first bar up to (not including) the bar after its last one
+const getAnomalyPeriod = (anomaly: AnomalyData, bars: StockData[]): { start: string; end: string } => {
+  const last = anomaly.endDate ?? (anomaly.type === 'regime' ? bars[bars.length - 1].date : anomaly.date);
+  const next = bars.find(bar => bar.date > last);
+  // '~' sorts after every date, so an anomaly at the last bar runs to the end of the series
+  return { start: anomaly.date, end: next?.date ?? '~' };
+};
+
+// Run the ensemble again on each coarser timeframe of the (adjusted) series and match what it finds
+// to the anomalies at the bars' own interval by type and period. Coarser anomalies with no match are
+// reported on their own, moved to the first bar of their period so they can be shown on the series.
+const confirmAcrossTimeframes = (
+  anomalies: AnomalyData[],
+  stockData: StockData[],
+  config: AnomalyDetectionConfig,
+  interval: BarInterval,
+  timeframes: Timeframe[],
+  context: DetectionContext,
+  onProgress?: (fraction: number) => void
+): AnomalyData[] => {
+  const found = anomalies.map(anomaly => ({ anomaly, period: getAnomalyPeriod(anomaly, stockData), timeframes: [interval] as Timeframe[] }));
+
+  timeframes.forEach((timeframe, index) => {
+    const bars = resampleBars(stockData, timeframe, context.calendar);
+    const coarse = detectAnomalies(bars, config, {
+      unadjusted: true,
+      corporateActions: [],
+      calendar: context.calendar,
+      onProgress: onProgress && (fraction => onProgress((index + 1 + fraction) / (timeframes.length + 1)))
+    });
+    coarse.forEach(anomaly => {
+      const period = getAnomalyPeriod(anomaly, bars);
+      const matches = found.filter(f => f.anomaly.type === anomaly.type
+        && f.period.start < period.end && period.start < f.period.end);
+      matches.forEach(match => {
+        if (!match.timeframes.includes(timeframe)) {
+          match.timeframes.push(timeframe);
+        }
+      });
+      if (matches.length > 0) return;
+
+      const covered = stockData.filter(bar => bar.date >= period.start && bar.date < period.end);
+      if (covered.length === 0) return;
+      found.push({
+        anomaly: {
+          ...anomaly,
+          id: getAnomalyId(covered[0].symbol, covered[0].date, anomaly.type),
+          date: covered[0].date,
+          endDate: anomaly.endDate !== undefined ? covered[covered.length - 1].date : undefined
+        },
+        period,
+        timeframes: [timeframe]
+      });
+    });
+  });
+
+  return found.map(({ anomaly, timeframes: foundOn }) => ({ ...anomaly, timeframes: foundOn, confirmed: foundOn.length > 1 }));
+};
+
+// Log return from the previous bar, per session. Weekends and exchange holidays are not gaps, but
+// a bar after missing sessions carries several sessions' move, so it is scaled down by the square
+// root of the number of sessions; NaN for the first bar.
+const getSessionReturns = (stockData: StockData[], calendar: TradingCalendar): number[] => {
+  return stockData.map((d, i) => (i === 0 ? NaN : getSessionReturn(stockData[i - 1], d, calendar)));
+};
+
+const getSessionReturn = (previous: StockData, bar: StockData, calendar: TradingCalendar): number => {
+  const sessions = countSessionsBetween(previous.date, bar.date, calendar);
+  return Math.log(bar.close / previous.close) / Math.sqrt(sessions);
 };
 
 // Z-Score Based Anomaly Detection
-const detectZScoreAnomalies = (stockData: StockData[], config: { threshold: number; weight: number }): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
-  const prices = stockData.map(d => d.close);
-  const volumes = stockData.map(d => d.volume);
+// "global" scores every bar against the whole series (including later bars);
+// "rolling" scores each bar against a trailing window only, so results never use future data
+interface ZScoreParams extends DetectorSettings {
+  threshold: number;
+  mode: 'global' | 'rolling';
+  window: number;
+  minPeriods: number;
+  priceInput: 'close' | 'returns';
+  volumeInput: 'volume' | 'logVolume';
+  includeVolume: boolean;
+}
+
+const detectZScoreAnomalies = (stockData: StockData[], config: ZScoreParams, context: DetectionContext): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  const prices = config.priceInput === 'returns'
+    ? getSessionReturns(stockData, context.calendar)
+    : stockData.map(d => d.close);
+  const volumes = config.volumeInput === 'logVolume'
+    ? stockData.map(d => Math.log(Math.max(d.volume, 1)))
+    : stockData.map(d => d.volume);
   
-  const priceMean = calculateMean(prices);
-  const priceStdDev = calculateStdDev(prices, priceMean);
-  const volumeMean = calculateMean(volumes);
-  const volumeStdDev = calculateStdDev(volumes, volumeMean);
+  const priceZScores = calculateZScores(prices, config);
+  const volumeZScores = calculateZScores(volumes, config);
   
   stockData.forEach((data, index) => {
-    const priceZScore = Math.abs((data.close - priceMean) / priceStdDev);
-    const volumeZScore = Math.abs((data.volume - volumeMean) / volumeStdDev);
+    const priceZScore = Math.abs(priceZScores[index]);
+    const volumeZScore = Math.abs(volumeZScores[index]);
     
     if (priceZScore > config.threshold) {
-      anomalies.push({
-        id: uuidv4(),
-        date: data.date,
-        value: data.close,
-        score: priceZScore * config.weight,
-        type: 'price',
-        severity: priceZScore > 3 ? 'high' : priceZScore > 2.5 ? 'medium' : 'low',
-        description: `Z-Score price outlier: ${priceZScore.toFixed(2)} standard deviations from mean`
-      });
+      anomalies.push(createZScoreAnomaly(data, 'price', priceZScore, config));
     }
     
-    if (volumeZScore > config.threshold) {
-      anomalies.push({
-        id: uuidv4(),
-        date: data.date,
-        value: data.volume,
-        score: volumeZScore * config.weight,
-        type: 'volume',
-        severity: volumeZScore > 3 ? 'high' : volumeZScore > 2.5 ? 'medium' : 'low',
-        description: `Z-Score volume outlier: ${volumeZScore.toFixed(2)} standard deviations from mean`
-      });
+    if (config.includeVolume && volumeZScore > config.threshold) {
+      anomalies.push(createZScoreAnomaly(data, 'volume', volumeZScore, config));
+    }
+  });
+  
+  const statistics: DetectorStatistics = { price: priceZScores.map(z => Math.abs(z)) };
+  if (config.includeVolume) {
+    statistics.volume = volumeZScores.map(z => Math.abs(z));
+  }
+  
+  return { anomalies, statistics };
+};
+
+const createZScoreAnomaly = (data: StockData, type: 'price' | 'volume', zScore: number, config: ZScoreParams): DetectedAnomaly => {
+  const baseline = config.mode === 'rolling' ? `trailing ${config.window}-bar mean` : 'mean';
+  const label = type === 'price'
+    ? (config.priceInput === 'returns' ? 'return' : 'price')
+    : (config.volumeInput === 'logVolume' ? 'log-volume' : 'volume');
+  return {
+    id: getAnomalyId(data.symbol, data.date, type, 'zscore'),
+    date: data.date,
+    value: type === 'price' ? data.close : data.volume,
+    statistic: zScore,
+    threshold: config.threshold,
+    type,
+    description: `Z-Score ${label} outlier: ${zScore.toFixed(2)} standard deviations from ${baseline}`
+  };
+};
+
+// In a stream the global baseline can only be the bars so far, kept as running moments
+const streamZScoreAnomalies = (config: ZScoreParams, context: DetectionContext): DetectorStream => {
+  const size = config.mode === 'rolling' ? config.window : Infinity;
+  const prices = createTrailingStats(size);
+  const volumes = createTrailingStats(size);
+  let previous: StockData | undefined;
+  
+  return {
+    update: bar => {
+      const price = config.priceInput === 'returns'
+        ? (previous ? getSessionReturn(previous, bar, context.calendar) : NaN)
+        : bar.close;
+      const volume = config.volumeInput === 'logVolume' ? Math.log(Math.max(bar.volume, 1)) : bar.volume;
+      previous = bar;
+      
+      const priceZScore = Math.abs(prices.zScore(price, config.minPeriods));
+      const volumeZScore = Math.abs(volumes.zScore(volume, config.minPeriods));
+      prices.push(price);
+      volumes.push(volume);
+      
+      const anomalies: DetectedAnomaly[] = [];
+      if (priceZScore > config.threshold) {
+        anomalies.push(createZScoreAnomaly(bar, 'price', priceZScore, config));
+      }
+      if (config.includeVolume && volumeZScore > config.threshold) {
+        anomalies.push(createZScoreAnomaly(bar, 'volume', volumeZScore, config));
+      }
+      return {
+        anomalies,
+        statistics: config.includeVolume ? { price: priceZScore, volume: volumeZScore } : { price: priceZScore }
+      };
+    }
+  };
+};
+
+// Signed Z-scores; NaN where a bar cannot be scored (missing input, too little history, zero variance)
+const calculateZScores = (values: number[], config: ZScoreParams): number[] => {
+  const zScore = (value: number, reference: number[]): number => {
+    if (!Number.isFinite(value) || reference.length < config.minPeriods) return NaN;
+    const mean = calculateMean(reference);
+    const stdDev = calculateStdDev(reference, mean);
+    return stdDev > 0 ? (value - mean) / stdDev : NaN;
+  };
+  
+  if (config.mode === 'global') {
+    const reference = values.filter(Number.isFinite);
+    return values.map(value => zScore(value, reference));
+  }
+  
+  // Trailing window excludes the bar being scored
+  return values.map((value, i) => {
+    const reference = values.slice(Math.max(0, i - config.window), i).filter(Number.isFinite);
+    return zScore(value, reference);
+  });
+};
+
+// Seasonal Volume Detection
+// Scores log-volume against a trailing baseline adjusted for day-of-week and calendar events,
+// so routine Monday, month-end or options-expiry volume is not reported as unusual
+interface SeasonalVolumeParams extends DetectorSettings {
+  threshold: number;
+  window: number;
+  minPeriods: number;
+}
+
+// Effects seen only a few times in the window are shrunk towards zero
+const SEASONAL_SHRINKAGE = 2;
+
+const detectSeasonalVolumeAnomalies = (
+  stockData: StockData[],
+  config: SeasonalVolumeParams,
+  context: DetectionContext
+): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  const logVolumes = stockData.map(d => Math.log(Math.max(d.volume, 1)));
+  const tags = stockData.map(d => getSeasonalTags(d.date, context.calendar));
+  const zScores = stockData.map(() => NaN);
+  
+  stockData.forEach((data, i) => {
+    // The baseline only uses bars before the one being scored
+    const start = Math.max(0, i - config.window);
+    if (i - start < config.minPeriods) return;
+    const scored = scoreSeasonalVolume(data, tags[i], logVolumes.slice(start, i), tags.slice(start, i), config);
+    if (!scored) return;
+    zScores[i] = scored.statistic;
+    if (scored.anomaly) {
+      anomalies.push(scored.anomaly);
     }
   });
   
-  return anomalies;
+  return { anomalies, statistics: { volume: zScores } };
+};
+
+const streamSeasonalVolumeAnomalies = (config: SeasonalVolumeParams, context: DetectionContext): DetectorStream => {
+  const logVolumes: number[] = [];
+  const tags: SeasonalTags[] = [];
+  
+  return {
+    update: bar => {
+      const barTags = getSeasonalTags(bar.date, context.calendar);
+      const scored = logVolumes.length >= config.minPeriods
+        ? scoreSeasonalVolume(bar, barTags, logVolumes, tags, config)
+        : null;
+      logVolumes.push(Math.log(Math.max(bar.volume, 1)));
+      tags.push(barTags);
+      if (logVolumes.length > config.window) {
+        logVolumes.shift();
+        tags.shift();
+      }
+      return {
+        anomalies: scored?.anomaly ? [scored.anomaly] : [],
+        statistics: scored ? { volume: scored.statistic } : {}
+      };
+    }
+  };
+};
+
+// Scores a bar's volume against a baseline fitted on the reference bars before it; null when the
+// reference volumes do not vary
+const scoreSeasonalVolume = (
+  data: StockData,
+  tags: SeasonalTags,
+  referenceLogVolumes: number[],
+  referenceTags: SeasonalTags[],
+  config: SeasonalVolumeParams
+): { statistic: number; anomaly?: DetectedAnomaly } | null => {
+  const reference = referenceLogVolumes.map((_, j) => j);
+  const level = calculateMean(referenceLogVolumes);
+  const shrunkMean = (indices: number[], residual: (j: number) => number): number => {
+    return indices.reduce((sum, j) => sum + residual(j), 0) / (indices.length + SEASONAL_SHRINKAGE);
+  };
+  
+  // Day-of-week effects first, then calendar events on what the weekday does not explain
+  const dayEffects = DAY_OF_WEEK_LABELS.map((_, day) => shrunkMean(
+    reference.filter(j => referenceTags[j].dayOfWeek === day),
+    j => referenceLogVolumes[j] - level
+  ));
+  const eventEffects = new Map<SeasonalEvent, number>();
+  (Object.keys(SEASONAL_EVENT_LABELS) as SeasonalEvent[]).forEach(event => {
+    eventEffects.set(event, shrunkMean(
+      reference.filter(j => referenceTags[j].events.includes(event)),
+      j => referenceLogVolumes[j] - level - dayEffects[referenceTags[j].dayOfWeek]
+    ));
+  });
+  
+  const expected = (barTags: SeasonalTags): number => {
+    return barTags.events.reduce((sum, event) => sum + eventEffects.get(event)!, level + dayEffects[barTags.dayOfWeek]);
+  };
+  
+  const residuals = reference.map(j => referenceLogVolumes[j] - expected(referenceTags[j]));
+  const stdDev = calculateStdDev(residuals, calculateMean(residuals));
+  if (stdDev === 0) return null;
+  
+  const zScore = (Math.log(Math.max(data.volume, 1)) - expected(tags)) / stdDev;
+  const magnitude = Math.abs(zScore);
+  if (magnitude <= config.threshold) {
+    return { statistic: magnitude };
+  }
+  return {
+    statistic: magnitude,
+    anomaly: {
+      id: getAnomalyId(data.symbol, data.date, 'volume', 'seasonalVolume'),
+      date: data.date,
+      value: data.volume,
+      statistic: magnitude,
+      threshold: config.threshold,
+      type: 'volume',
+      description: `Seasonal volume outlier: ${formatVolume(data.volume)} is ${magnitude.toFixed(2)} standard deviations ${zScore > 0 ? 'above' : 'below'} the expected ${formatVolume(Math.exp(expected(tags)))} for a ${describeSeasonalTags(tags)}`
+    }
+  };
 };
 
 // Bollinger Bands Breach Detection
-const detectBollingerBandsAnomalies = (stockData: StockData[], config: { period: number; stdDev: number; weight: number }): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
+interface BollingerBandsParams extends DetectorSettings {
+  period: number;
+  stdDev: number;
+}
+
+const detectBollingerBandsAnomalies = (stockData: StockData[], config: BollingerBandsParams): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
   const prices = stockData.map(d => d.close);
+  const deviations = stockData.map(() => NaN);
   
   for (let i = config.period - 1; i < stockData.length; i++) {
-    const window = prices.slice(i - config.period + 1, i + 1);
-    const sma = calculateMean(window);
-    const stdDev = calculateStdDev(window, sma);
-    
-    const upperBand = sma + (config.stdDev * stdDev);
-    const lowerBand = sma - (config.stdDev * stdDev);
-    const currentPrice = stockData[i].close;
-    
-    if (currentPrice > upperBand || currentPrice < lowerBand) {
-      const deviation = currentPrice > upperBand ? 
-        (currentPrice - upperBand) / upperBand : 
-        (lowerBand - currentPrice) / lowerBand;
-        
-      anomalies.push({
-        id: uuidv4(),
-        date: stockData[i].date,
-        value: currentPrice,
-        score: deviation * config.weight * 10,
-        type: 'price',
-        severity: deviation > 0.05 ? 'high' : deviation > 0.02 ? 'medium' : 'low',
-        description: `Bollinger Bands breach: Price ${currentPrice > upperBand ? 'above upper' : 'below lower'} band by ${(deviation * 100).toFixed(2)}%`
-      });
+    const scored = scoreBollingerBands(stockData[i], prices.slice(i - config.period + 1, i + 1), config);
+    deviations[i] = scored.statistic;
+    if (scored.anomaly) {
+      anomalies.push(scored.anomaly);
+    }
+  }
+  
+  return { anomalies, statistics: { price: deviations } };
+};
+
+const streamBollingerBandsAnomalies = (config: BollingerBandsParams): DetectorStream => {
+  const prices: number[] = [];
+  
+  return {
+    update: bar => {
+      prices.push(bar.close);
+      if (prices.length > config.period) {
+        prices.shift();
+      }
+      if (prices.length < config.period) {
+        return { anomalies: [], statistics: {} };
+      }
+      const scored = scoreBollingerBands(bar, prices, config);
+      return { anomalies: scored.anomaly ? [scored.anomaly] : [], statistics: { price: scored.statistic } };
     }
+  };
+};
+
+// Scores a bar against the bands of the window ending with it
+const scoreBollingerBands = (
+  data: StockData,
+  window: number[],
+  config: BollingerBandsParams
+): { statistic: number; anomaly?: DetectedAnomaly } => {
+  const sma = calculateMean(window);
+  const stdDev = calculateStdDev(window, sma);
+  
+  const upperBand = sma + (config.stdDev * stdDev);
+  const lowerBand = sma - (config.stdDev * stdDev);
+  const currentPrice = data.close;
+  const statistic = Math.abs(currentPrice - sma) / stdDev;
+  
+  if (currentPrice <= upperBand && currentPrice >= lowerBand) {
+    return { statistic };
   }
+  const deviation = currentPrice > upperBand ? 
+    (currentPrice - upperBand) / upperBand : 
+    (lowerBand - currentPrice) / lowerBand;
   
-  return anomalies;
+  return {
+    statistic,
+    anomaly: {
+      id: getAnomalyId(data.symbol, data.date, 'price', 'bollingerBands'),
+      date: data.date,
+      value: currentPrice,
+      statistic,
+      threshold: config.stdDev,
+      type: 'price',
+      description: `Bollinger Bands breach: Price ${currentPrice > upperBand ? 'above upper' : 'below lower'} band by ${(deviation * 100).toFixed(2)}%`
+    }
+  };
 };
 
 // MACD Anomaly Detection
-const detectMACDAnomalies = (stockData: StockData[], config: { fastPeriod: number; slowPeriod: number; signalPeriod: number; weight: number }): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
+interface MACDParams extends DetectorSettings {
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+}
+
+const detectMACDAnomalies = (stockData: StockData[], config: MACDParams): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
   const prices = stockData.map(d => d.close);
+  const histograms = stockData.map(() => NaN);
   
-  if (prices.length < config.slowPeriod + config.signalPeriod) return anomalies;
+  if (prices.length < config.slowPeriod + config.signalPeriod) return { anomalies, statistics: {} };
   
+  // The EMAs start at the first bar, so each line's value belongs to the bar at the same index
   const fastEMA = calculateEMA(prices, config.fastPeriod);
   const slowEMA = calculateEMA(prices, config.slowPeriod);
-  const macdLine = fastEMA.map((fast, i) => fast - slowEMA[i]).filter(val => !isNaN(val));
+  const macdLine = fastEMA.map((fast, i) => fast - slowEMA[i]);
   const signalLine = calculateEMA(macdLine, config.signalPeriod);
   
-  for (let i = config.signalPeriod; i < macdLine.length && i < signalLine.length; i++) {
+  // Bars before the slow and signal EMAs have warmed up are not scored, as in the stream
+  for (let i = config.slowPeriod + config.signalPeriod - 1; i < prices.length; i++) {
     const histogram = macdLine[i] - signalLine[i];
-    const prevHistogram = i > 0 ? macdLine[i-1] - signalLine[i-1] : 0;
+    const prevHistogram = macdLine[i-1] - signalLine[i-1];
+    const histogramThreshold = Math.max(Math.abs(prevHistogram) * 2, 0.5);
+    histograms[i] = Math.abs(histogram);
     
     // Detect significant MACD divergences
-    if (Math.abs(histogram) > Math.abs(prevHistogram) * 2 && Math.abs(histogram) > 0.5) {
-      const dataIndex = i + config.slowPeriod - 1;
-      if (dataIndex < stockData.length) {
-        anomalies.push({
-          id: uuidv4(),
-          date: stockData[dataIndex].date,
-          value: stockData[dataIndex].close,
-          score: Math.abs(histogram) * config.weight * 5,
-          type: 'price',
-          severity: Math.abs(histogram) > 2 ? 'high' : Math.abs(histogram) > 1 ? 'medium' : 'low',
-          description: `MACD divergence: ${histogram > 0 ? 'Bullish' : 'Bearish'} signal with magnitude ${Math.abs(histogram).toFixed(3)}`
-        });
-      }
+    if (Math.abs(histogram) > histogramThreshold) {
+      anomalies.push(createMACDAnomaly(stockData[i], histogram, histogramThreshold));
     }
   }
   
-  return anomalies;
+  return { anomalies, statistics: { price: histograms } };
+};
+
+// Streaming MACD updates the EMAs bar by bar and reports a divergence at the bar that completes it
+const streamMACDAnomalies = (config: MACDParams): DetectorStream => {
+  let fastEMA = NaN;
+  let slowEMA = NaN;
+  let signal = NaN;
+  let previousHistogram = 0;
+  let count = 0;
+  
+  return {
+    update: bar => {
+      count++;
+      fastEMA = updateEMA(fastEMA, bar.close, config.fastPeriod);
+      slowEMA = updateEMA(slowEMA, bar.close, config.slowPeriod);
+      const macd = fastEMA - slowEMA;
+      signal = updateEMA(signal, macd, config.signalPeriod);
+      const histogram = macd - signal;
+      const histogramThreshold = Math.max(Math.abs(previousHistogram) * 2, 0.5);
+      previousHistogram = histogram;
+      
+      if (count < config.slowPeriod + config.signalPeriod) {
+        return { anomalies: [], statistics: {} };
+      }
+      return {
+        anomalies: Math.abs(histogram) > histogramThreshold ? [createMACDAnomaly(bar, histogram, histogramThreshold)] : [],
+        statistics: { price: Math.abs(histogram) }
+      };
+    }
+  };
 };
 
-// Isolation Forest Simulation
-const detectIsolationForestAnomalies = (stockData: StockData[], config: { contamination: number; weight: number }): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
+const createMACDAnomaly = (data: StockData, histogram: number, threshold: number): DetectedAnomaly => ({
+  id: getAnomalyId(data.symbol, data.date, 'price', 'macd'),
+  date: data.date,
+  value: data.close,
+  statistic: Math.abs(histogram),
+  threshold,
+  type: 'price',
+  description: `MACD divergence: ${histogram > 0 ? 'Bullish' : 'Bearish'} signal with magnitude ${Math.abs(histogram).toFixed(3)}`
+});
+
+// Isolation Forest Detection
+interface IsolationForestParams extends DetectorSettings {
+  contamination: number;
+  numTrees: number;
+  sampleSize: number;
+  seed: number;
+}
+
+const detectIsolationForestAnomalies = (stockData: StockData[], config: IsolationForestParams): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  
+  // Features are standardised so that no single unit (e.g. raw volume) dominates the splits
+  const { features } = standardizeFeatures(stockData.map(getIsolationFeatures));
   
-  // Simulate isolation forest by calculating isolation scores based on feature combinations
-  const features = stockData.map(d => [
-    d.close,
-    d.volume,
-    d.high - d.low, // daily range
-    (d.close - d.open) / d.open, // daily return
-    d.volume * d.close // dollar volume
-  ]);
+  const forest = fitIsolationForest(features, {
+    numTrees: config.numTrees,
+    sampleSize: config.sampleSize,
+    seed: config.seed
+  });
+  const isolationScores = features.map(feature => scoreIsolationForest(forest, feature));
   
-  const isolationScores = features.map(feature => calculateIsolationScore(feature, features));
+  // Contamination is the expected share of outliers, so it sets the score cut-off
   const threshold = getPercentile(isolationScores, (1 - config.contamination) * 100);
   
   stockData.forEach((data, index) => {
     if (isolationScores[index] > threshold) {
-      anomalies.push({
-        id: uuidv4(),
-        date: data.date,
-        value: data.close,
-        score: isolationScores[index] * config.weight,
-        type: 'price',
-        severity: isolationScores[index] > threshold * 1.5 ? 'high' : isolationScores[index] > threshold * 1.2 ? 'medium' : 'low',
-        description: `Isolation Forest anomaly: Unusual combination of price, volume, and volatility patterns (score: ${isolationScores[index].toFixed(3)})`
-      });
+      anomalies.push(createIsolationForestAnomaly(data, isolationScores[index], threshold));
     }
   });
   
-  return anomalies;
+  return { anomalies, statistics: { price: isolationScores } };
+};
+
+// Streaming Isolation Forest is fitted on the trailing bars once there are enough of them, and
+// fitted again each time as many bars as it was fitted on have arrived (at most the subsample
+// size). The contamination cut-off is taken over every score so far, as the batch one is over the range.
+const streamIsolationForestAnomalies = (config: IsolationForestParams): DetectorStream => {
+  const recent: number[][] = [];
+  const scores: number[] = [];
+  let model: { forest: IsolationForest; means: number[]; stdDevs: number[]; size: number } | null = null;
+  let sinceFit = 0;
+  
+  const fit = () => {
+    const { features, means, stdDevs } = standardizeFeatures(recent);
+    const forest = fitIsolationForest(features, {
+      numTrees: config.numTrees,
+      sampleSize: config.sampleSize,
+      seed: config.seed
+    });
+    model = { forest, means, stdDevs, size: recent.length };
+    sinceFit = 0;
+  };
+  
+  return {
+    update: bar => {
+      const raw = getIsolationFeatures(bar);
+      recent.push(raw);
+      if (recent.length > config.sampleSize) {
+        recent.shift();
+      }
+      sinceFit++;
+      if (recent.length >= MIN_ENSEMBLE_POINTS && (!model || sinceFit >= model.size)) {
+        fit();
+      }
+      if (!model) {
+        return { anomalies: [], statistics: {} };
+      }
+      
+      const { forest, means, stdDevs } = model;
+      const score = scoreIsolationForest(forest, raw.map((value, j) => (value - means[j]) / stdDevs[j]));
+      insertSorted(scores, score);
+      const threshold = scores[Math.floor((1 - config.contamination) * scores.length)];
+      return {
+        anomalies: score > threshold ? [createIsolationForestAnomaly(bar, score, threshold)] : [],
+        statistics: { price: score }
+      };
+    }
+  };
+};
+
+const getIsolationFeatures = (d: StockData): number[] => [
+  d.close,
+  d.volume,
+  d.high - d.low, // daily range
+  (d.close - d.open) / d.open, // daily return
+  d.volume * d.close // dollar volume
+];
+
+const createIsolationForestAnomaly = (data: StockData, score: number, threshold: number): DetectedAnomaly => ({
+  id: getAnomalyId(data.symbol, data.date, 'price', 'isolationForest'),
+  date: data.date,
+  value: data.close,
+  statistic: score,
+  threshold,
+  type: 'price',
+  description: `Isolation Forest anomaly: Unusual combination of price, volume, and volatility patterns (score: ${score.toFixed(3)})`
+});
+
+// Change-Point (Regime Shift) Detection
+// Two-sided CUSUM on standardised series: small persistent deviations accumulate until they
+// cross the decision threshold, and the new regime is dated from where the accumulation began
+interface ChangePointParams extends DetectorSettings {
+  threshold: number;
+  drift: number;
+  baselinePeriods: number;
+  returns: boolean;
+  volatility: boolean;
+  volume: boolean;
+}
+
+interface ChangePoint {
+  index: number; // first bar of the new regime
+  shift: number; // new regime mean relative to the previous baseline, in standard deviations
+  statistic: number; // CUSUM value when the shift was confirmed
+}
+
+const detectChangePointAnomalies = (stockData: StockData[], config: ChangePointParams, context: DetectionContext): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  
+  // Series start at the second bar because they are built from returns
+  const bars = stockData.slice(1);
+  const returns = getSessionReturns(stockData, context.calendar).slice(1);
+  const series = [
+    { enabled: config.returns, label: 'mean return', values: returns },
+    { enabled: config.volatility, label: 'volatility', values: returns.map(r => Math.abs(r)) },
+    { enabled: config.volume, label: 'volume level', values: bars.map(d => Math.log(Math.max(d.volume, 1))) }
+  ];
+  // Largest CUSUM across the tracked series at each bar
+  const cusumPath = stockData.map(() => NaN);
+  
+  series.filter(s => s.enabled).forEach(({ label, values }) => {
+    const { changePoints, cusum } = findChangePoints(values, config);
+    cusum.forEach((value, j) => {
+      if (Number.isFinite(value)) {
+        cusumPath[j + 1] = Number.isFinite(cusumPath[j + 1]) ? Math.max(cusumPath[j + 1], value) : value;
+      }
+    });
+    
+    changePoints.forEach((changePoint, k) => {
+      const next = changePoints[k + 1];
+      anomalies.push(createRegimeAnomaly(label, bars[changePoint.index], next ? bars[next.index - 1] : undefined, changePoint, config));
+    });
+  });
+  
+  return { anomalies, statistics: { regime: cusumPath } };
+};
+
+// A regime is reported as ongoing when its shift is confirmed and reported again, under the same
+// id, with its last bar once the next shift in the same series is confirmed
+const streamChangePointAnomalies = (config: ChangePointParams, context: DetectionContext): DetectorStream => {
+  const series = [
+    { enabled: config.returns, label: 'mean return', value: (r: number) => r },
+    { enabled: config.volatility, label: 'volatility', value: (r: number) => Math.abs(r) },
+    { enabled: config.volume, label: 'volume level', value: (_: number, bar: StockData) => Math.log(Math.max(bar.volume, 1)) }
+  ]
+    .filter(s => s.enabled)
+    .map(s => ({ ...s, tracker: createCusumTracker(config), regime: null as { start: StockData; changePoint: ChangePoint } | null }));
+  let previous: StockData | undefined;
+  
+  return {
+    update: bar => {
+      // Series are built from returns, so they start at the second bar
+      if (!previous) {
+        previous = bar;
+        return { anomalies: [], statistics: {} };
+      }
+      const r = getSessionReturn(previous, bar, context.calendar);
+      previous = bar;
+      
+      const anomalies: DetectedAnomaly[] = [];
+      let cusum = NaN;
+      series.forEach(s => {
+        const step = s.tracker.push(s.value(r, bar), bar);
+        if (Number.isFinite(step.cusum)) {
+          cusum = Number.isFinite(cusum) ? Math.max(cusum, step.cusum) : step.cusum;
+        }
+        step.changePoints.forEach(({ start, previousEnd, changePoint }) => {
+          if (s.regime) {
+            anomalies.push(createRegimeAnomaly(s.label, s.regime.start, previousEnd, s.regime.changePoint, config));
+          }
+          s.regime = { start, changePoint };
+          anomalies.push(createRegimeAnomaly(s.label, start, undefined, changePoint, config));
+        });
+      });
+      
+      return { anomalies, statistics: { regime: cusum } };
+    }
+  };
+};
+
+// CUSUM over one series, one value at a time. The values since the current regime began are
+// kept: a confirmed shift starts the next regime at its onset, and the values from there are
+// tracked again against the new regime's baseline, as findChangePoints does.
+const createCusumTracker = (config: ChangePointParams) => {
+  let regime: { bars: StockData[]; values: number[] } = { bars: [], values: [] };
+  let baseline: { mean: number; stdDev: number } | null = null;
+  let stopped = false;
+  let upper = 0;
+  let lower = 0;
+  let upperOnset = 0;
+  let lowerOnset = 0;
+  let cusum = NaN;
+  
+  const scan = (i: number): { start: StockData; previousEnd: StockData; changePoint: ChangePoint } | null => {
+    const { bars, values } = regime;
+    cusum = NaN;
+    if (i === config.baselinePeriods - 1) {
+      const reference = values.slice(0, config.baselinePeriods);
+      const mean = calculateMean(reference);
+      const stdDev = calculateStdDev(reference, mean);
+      stopped = stdDev === 0;
+      baseline = stopped ? null : { mean, stdDev };
+      upper = 0;
+      lower = 0;
+      upperOnset = config.baselinePeriods;
+      lowerOnset = config.baselinePeriods;
+      return null;
+    }
+    if (!baseline || i < config.baselinePeriods) return null;
+    
+    const z = (values[i] - baseline.mean) / baseline.stdDev;
+    upper = Math.max(0, upper + z - config.drift);
+    lower = Math.max(0, lower - z - config.drift);
+    if (upper === 0) upperOnset = i + 1;
+    if (lower === 0) lowerOnset = i + 1;
+    cusum = Math.max(upper, lower);
+    if (upper <= config.threshold && lower <= config.threshold) return null;
+    
+    const onset = upper > config.threshold ? upperOnset : lowerOnset;
+    const changePoint: ChangePoint = {
+      index: onset,
+      shift: (calculateMean(values.slice(onset, i + 1)) - baseline.mean) / baseline.stdDev,
+      statistic: cusum
+    };
+    regime = { bars: bars.slice(onset), values: values.slice(onset) };
+    baseline = null;
+    return { start: bars[onset], previousEnd: bars[onset - 1], changePoint };
+  };
+  
+  return {
+    push: (value: number, bar: StockData) => {
+      const changePoints: NonNullable<ReturnType<typeof scan>>[] = [];
+      if (stopped) return { cusum: NaN, changePoints };
+      regime.bars.push(bar);
+      regime.values.push(value);
+      
+      let found = scan(regime.values.length - 1);
+      while (found) {
+        changePoints.push(found);
+        found = null;
+        for (let i = 0; i < regime.values.length && !found && !stopped; i++) {
+          found = scan(i);
+        }
+      }
+      return { cusum, changePoints };
+    }
+  };
+};
+
+const createRegimeAnomaly = (
+  label: string,
+  start: StockData,
+  end: StockData | undefined,
+  changePoint: ChangePoint,
+  config: ChangePointParams
+): DetectedAnomaly => {
+  const magnitude = Math.abs(changePoint.shift);
+  return {
+    // One per series, as regimes in different series can start on the same bar
+    id: getAnomalyId(start.symbol, start.date, 'regime', `changePoint:${label}`),
+    date: start.date,
+    endDate: end?.date,
+    value: start.close,
+    statistic: changePoint.statistic,
+    threshold: config.threshold,
+    type: 'regime',
+    description: `Regime shift in ${label}: ${changePoint.shift > 0 ? 'up' : 'down'} ${magnitude.toFixed(2)}σ from the prior regime ${end ? `until ${end.date}` : '(ongoing)'}`
+  };
+};
+
+const findChangePoints = (values: number[], config: ChangePointParams): { changePoints: ChangePoint[]; cusum: number[] } => {
+  const changePoints: ChangePoint[] = [];
+  const cusum = values.map(() => NaN);
+  let regimeStart = 0;
+  
+  // Each regime's first bars form the baseline the next shift is measured against
+  while (regimeStart + config.baselinePeriods < values.length) {
+    const baseline = values.slice(regimeStart, regimeStart + config.baselinePeriods);
+    const mean = calculateMean(baseline);
+    const stdDev = calculateStdDev(baseline, mean);
+    if (stdDev === 0) break;
+    
+    let upper = 0;
+    let lower = 0;
+    let upperOnset = regimeStart + config.baselinePeriods;
+    let lowerOnset = upperOnset;
+    let detected: ChangePoint | null = null;
+    
+    for (let i = regimeStart + config.baselinePeriods; i < values.length; i++) {
+      const z = (values[i] - mean) / stdDev;
+      upper = Math.max(0, upper + z - config.drift);
+      lower = Math.max(0, lower - z - config.drift);
+      if (upper === 0) upperOnset = i + 1;
+      if (lower === 0) lowerOnset = i + 1;
+      cusum[i] = Math.max(upper, lower);
+      
+      if (upper > config.threshold || lower > config.threshold) {
+        const onset = upper > config.threshold ? upperOnset : lowerOnset;
+        detected = {
+          index: onset,
+          shift: (calculateMean(values.slice(onset, i + 1)) - mean) / stdDev,
+          statistic: Math.max(upper, lower)
+        };
+        break;
+      }
+    }
+    
+    if (!detected) break;
+    changePoints.push(detected);
+    regimeStart = detected.index;
+  }
+  
+  return { changePoints, cusum };
 };
 
 // Trading Pattern Detection (Pump and Dump, etc.)
-const detectTradingPatternAnomalies = (stockData: StockData[], config: { weight: number }): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
+const detectTradingPatternAnomalies = (stockData: StockData[]): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  const confidences = stockData.map(() => NaN);
   
   // Detect pump and dump patterns
   for (let i = 3; i < stockData.length - 2; i++) {
     const pattern = detectPumpAndDump(stockData, i);
+    confidences[i] = pattern.confidence;
     if (pattern.detected) {
-      anomalies.push({
-        id: uuidv4(),
-        date: stockData[i].date,
-        value: stockData[i].close,
-        score: pattern.confidence * config.weight * 10,
-        type: 'price',
-        severity: pattern.confidence > 0.8 ? 'high' : pattern.confidence > 0.6 ? 'medium' : 'low',
-        description: `Potential ${pattern.type} pattern detected with ${(pattern.confidence * 100).toFixed(1)}% confidence`
-      });
+      anomalies.push(createPatternAnomaly(stockData[i], pattern));
     }
   }
   
-  return anomalies;
+  return { anomalies, statistics: { price: confidences } };
+};
+
+// A pattern is centred on its peak, so each bar is scored once the three bars after it have arrived
+const streamTradingPatternAnomalies = (): DetectorStream => {
+  const recent: StockData[] = [];
+  
+  return {
+    update: bar => {
+      recent.push(bar);
+      if (recent.length > PATTERN_WINDOW * 2 + 1) {
+        recent.shift();
+      }
+      if (recent.length < PATTERN_WINDOW * 2 + 1) {
+        return { anomalies: [], statistics: {} };
+      }
+      const pattern = detectPumpAndDump(recent, PATTERN_WINDOW);
+      return {
+        anomalies: pattern.detected ? [createPatternAnomaly(recent[PATTERN_WINDOW], pattern)] : [],
+        statistics: { price: pattern.confidence }
+      };
+    }
+  };
 };
 
+const createPatternAnomaly = (data: StockData, pattern: { confidence: number; type: string }): DetectedAnomaly => ({
+  id: getAnomalyId(data.symbol, data.date, 'price', 'patternDetection'),
+  date: data.date,
+  value: data.close,
+  statistic: pattern.confidence,
+  threshold: PUMP_AND_DUMP_MIN_CONFIDENCE,
+  type: 'price',
+  description: `Potential ${pattern.type} pattern detected with ${(pattern.confidence * 100).toFixed(1)}% confidence`
+});
+
 // Simple anomaly detection for small datasets
-const detectSimpleAnomalies = (stockData: StockData[]): AnomalyData[] => {
-  const anomalies: AnomalyData[] = [];
+const detectSimpleAnomalies = (stockData: StockData[]): DetectionResult => {
+  const anomalies: DetectedAnomaly[] = [];
+  const priceChanges = stockData.map(() => NaN);
+  const volumeChanges = stockData.map(() => NaN);
   
   for (let i = 1; i < stockData.length; i++) {
     const prevDay = stockData[i-1];
@@ -242,74 +1045,226 @@ const detectSimpleAnomalies = (stockData: StockData[]): AnomalyData[] => {
     
     const priceChange = Math.abs((currentDay.close - prevDay.close) / prevDay.close);
     const volumeChange = prevDay.volume > 0 ? Math.abs((currentDay.volume / prevDay.volume) - 1) : 0;
+    priceChanges[i] = priceChange;
+    volumeChanges[i] = volumeChange;
     
     if (priceChange > 0.05) {
       anomalies.push({
-        id: uuidv4(),
+        id: getAnomalyId(currentDay.symbol, currentDay.date, 'price', SIMPLE_DETECTOR_ID),
         date: currentDay.date,
         value: currentDay.close,
-        score: priceChange * 20,
+        statistic: priceChange,
+        threshold: 0.05,
         type: 'price',
-        severity: priceChange > 0.1 ? 'high' : priceChange > 0.075 ? 'medium' : 'low',
         description: `Significant price movement: ${(priceChange * 100).toFixed(2)}% change`
       });
     }
     
     if (volumeChange > 1) {
       anomalies.push({
-        id: uuidv4(),
+        id: getAnomalyId(currentDay.symbol, currentDay.date, 'volume', SIMPLE_DETECTOR_ID),
         date: currentDay.date,
         value: currentDay.volume,
-        score: volumeChange * 5,
+        statistic: volumeChange,
+        threshold: 1,
         type: 'volume',
-        severity: volumeChange > 3 ? 'high' : volumeChange > 2 ? 'medium' : 'low',
         description: `Unusual volume activity: ${(volumeChange * 100).toFixed(0)}% of previous day`
       });
     }
   }
   
-  return anomalies;
+  return { anomalies, statistics: { price: priceChanges, volume: volumeChanges } };
+};
+
+// Calibration
+// Each detection is mapped to an empirical p-value: the share of the symbol's own bars on which
+// that detector's statistic was at least as extreme. Scores and severity are both derived from
+// this one scale, so a "high" means the same thing whichever detector raised it.
+const HIGH_SEVERITY_P_VALUE = 0.02;
+const MEDIUM_SEVERITY_P_VALUE = 0.05;
+
+const calculatePValue = (statistic: number, history: number[] = []): number => {
+  const observed = history.filter(Number.isFinite);
+  if (observed.length === 0) return 1;
+  const atLeastAsExtreme = observed.filter(value => value >= statistic).length;
+  // The detection is itself part of the history, so p is never below 1/n
+  return Math.max(atLeastAsExtreme, 1) / observed.length;
+};
+
+export const severityFromPValue = (pValue: number): AnomalyData['severity'] => {
+  if (pValue <= HIGH_SEVERITY_P_VALUE) return 'high';
+  if (pValue <= MEDIUM_SEVERITY_P_VALUE) return 'medium';
+  return 'low';
+};
+
+// The same p-value against statistics kept sorted, found by binary search
+const calculateSortedPValue = (statistic: number, sorted: number[] = []): number => {
+  if (sorted.length === 0) return 1;
+  const atLeastAsExtreme = sorted.length - lowerBound(sorted, statistic);
+  return Math.max(atLeastAsExtreme, 1) / sorted.length;
+};
+
+// Surprise on a log10 scale: p = 0.01 scores 2, p = 0.001 scores 3
+export const calibratedScore = (pValue: number): number => -Math.log10(pValue);
+
+interface Detection {
+  anomaly: DetectedAnomaly;
+  contribution: AnomalyContribution;
+}
+
+const getDetectorWeight = (detectorId: string, config: AnomalyDetectionConfig): number => {
+  return config[detectorId]?.weight ?? detectorRegistry.get(detectorId)?.defaults.weight ?? 1;
+};
+
+const createDetection = (detectorId: string, anomaly: DetectedAnomaly, pValue: number, weight: number): Detection => ({
+  anomaly,
+  contribution: {
+    detectorId,
+    statistic: anomaly.statistic,
+    threshold: anomaly.threshold,
+    pValue,
+    weight,
+    weightedScore: calibratedScore(pValue) * weight,
+    description: anomaly.description
+  }
+});
+
+// Merge detections of the same date and type; severity follows the most significant detection
+const mergeDetections = (symbol: string, group: Detection[]): AnomalyData => {
+  const contributions = group
+    .map(({ contribution }) => contribution)
+    .sort((a, b) => b.weightedScore - a.weightedScore);
+  const { statistic, threshold, ...anomaly } = group[0].anomaly;
+  const pValue = Math.min(...contributions.map(c => c.pValue));
+  const description = group.length === 1
+    ? anomaly.description
+    : `Multiple indicators: ${group.map(({ anomaly }) => anomaly.description).join('; ')}`;
+  
+  return {
+    ...anomaly,
+    id: getAnomalyId(symbol, anomaly.date, anomaly.type),
+    score: contributions.reduce((sum, c) => sum + c.weightedScore, 0),
+    severity: severityFromPValue(pValue),
+    pValue,
+    description,
+    contributions
+  };
 };
 
 // Apply weighted scoring system
-const applyWeightedScoring = (anomalies: AnomalyData[], config: AnomalyDetectionConfig): AnomalyData[] => {
-  const groupedAnomalies = new Map<string, AnomalyData[]>();
-  
-  // Group anomalies by date and type
-  anomalies.forEach(anomaly => {
-    const key = `${anomaly.date}-${anomaly.type}`;
-    if (!groupedAnomalies.has(key)) {
-      groupedAnomalies.set(key, []);
-    }
-    groupedAnomalies.get(key)!.push(anomaly);
+const applyWeightedScoring = (symbol: string, results: DetectorResult[], config: AnomalyDetectionConfig): AnomalyData[] => {
+  const groupedAnomalies = new Map<string, Detection[]>();
+  
+  // Calibrate and weight each detection, grouping anomalies by date and type
+  results.forEach(({ detectorId, anomalies, statistics }) => {
+    const weight = getDetectorWeight(detectorId, config);
+    
+    anomalies.forEach(anomaly => {
+      const key = `${anomaly.date}-${anomaly.type}`;
+      if (!groupedAnomalies.has(key)) {
+        groupedAnomalies.set(key, []);
+      }
+      const pValue = calculatePValue(anomaly.statistic, statistics[anomaly.type]);
+      groupedAnomalies.get(key)!.push(createDetection(detectorId, anomaly, pValue, weight));
+    });
   });
   
-  const mergedAnomalies: AnomalyData[] = [];
+  return Array.from(groupedAnomalies.values(), group => mergeDetections(symbol, group)).sort((a, b) => b.score - a.score);
+};
+
+// Streaming detection
+// A detector fed one bar at a time, for live monitoring and for refreshes that only add bars.
+// Each detector keeps its own rolling state (windows, EMAs, CUSUMs, the fitted forest), so a bar
+// costs about the same however long the history is. Detections are calibrated against the
+// statistics seen so far rather than a whole range, and bars are not adjusted for corporate
+// actions on the way in, so feed bars that already are.
+
+export interface StreamingDetectorOptions {
+  // Calendar of the exchange the symbol trades on; defaults to NYSE
+  calendar?: TradingCalendar;
+}
+
+export interface StreamingDetector {
+  // Appends a bar and returns the anomalies it adds, or updates under an id returned before.
+  // Bars that fail validation or are not after the last bar are ignored.
+  update: (bar: StockData) => AnomalyData[];
+}
+
+// Detectors without a stream are run on the whole history again, reporting what they find at the new bar
+const createBatchStream = (detector: AnomalyDetector, settings: DetectorSettings, context: DetectionContext): DetectorStream => {
+  const bars: StockData[] = [];
+  return {
+    update: bar => {
+      bars.push(bar);
+      const { anomalies, statistics } = detector.detect(bars, settings, context);
+      const latest: StreamDetectionResult['statistics'] = {};
+      (Object.keys(statistics) as AnomalyType[]).forEach(type => {
+        latest[type] = statistics[type]![bars.length - 1];
+      });
+      return { anomalies: anomalies.filter(anomaly => anomaly.date === bar.date), statistics: latest };
+    }
+  };
+};
+
+export const createDetector = (
+  config: AnomalyDetectionConfig = getDefaultConfig(),
+  options: StreamingDetectorOptions = {}
+): StreamingDetector => {
+  const context: DetectionContext = { calendar: options.calendar ?? getTradingCalendar() };
+  const streams = Array.from(detectorRegistry.entries())
+    .map(([detectorId, detector]) => ({ detectorId, detector, settings: resolveDetectorSettings(detector, config) }))
+    .filter(({ settings }) => settings.enabled)
+    .map(({ detectorId, detector, settings }) => ({
+      detectorId,
+      weight: getDetectorWeight(detectorId, config),
+      stream: detector.stream ? detector.stream(settings, context) : createBatchStream(detector, settings, context),
+      // Each statistic seen so far, sorted, for calibration
+      history: {} as Partial<Record<AnomalyType, number[]>>
+    }));
+  // Detections by date and type, so later ones are merged with what was reported before
+  const groups = new Map<string, Detection[]>();
+  let lastDate = '';
+  let barCount = 0;
   
-  // Merge and weight overlapping anomalies
-  groupedAnomalies.forEach((group, key) => {
-    if (group.length === 1) {
-      mergedAnomalies.push(group[0]);
-    } else {
-      // Combine multiple detections for the same date/type
-      const combinedScore = group.reduce((sum, a) => sum + a.score, 0);
-      const descriptions = group.map(a => a.description).join('; ');
-      const maxSeverity = group.reduce((max: 'low' | 'medium' | 'high', a) => {
-        if (a.severity === 'high' || max === 'high') return 'high';
-        if (a.severity === 'medium' || max === 'medium') return 'medium';
-        return 'low';
-      }, 'low');
+  const update = (input: StockData): AnomalyData[] => {
+    const bar = validateStockData([input]).data[0];
+    if (!bar || bar.date <= lastDate) {
+      return [];
+    }
+    lastDate = bar.date;
+    barCount++;
+    
+    const changed = new Set<string>();
+    streams.forEach(({ detectorId, weight, stream, history }) => {
+      const { anomalies, statistics } = stream.update(bar);
+      (Object.keys(statistics) as AnomalyType[]).forEach(type => {
+        const value = statistics[type]!;
+        if (Number.isFinite(value)) {
+          insertSorted(history[type] ??= [], value);
+        }
+      });
+      // As in the batch ensemble, the detectors need some history before anything is reported
+      if (barCount < MIN_ENSEMBLE_POINTS) return;
       
-      mergedAnomalies.push({
-        ...group[0],
-        score: combinedScore,
-        severity: maxSeverity,
-        description: `Multiple indicators: ${descriptions}`
+      anomalies.forEach(anomaly => {
+        const key = `${anomaly.date}-${anomaly.type}`;
+        const group = groups.get(key) ?? [];
+        const detection = createDetection(detectorId, anomaly, calculateSortedPValue(anomaly.statistic, history[anomaly.type]), weight);
+        const reported = group.findIndex(d => d.anomaly.id === anomaly.id);
+        if (reported >= 0) {
+          group[reported] = detection;
+        } else {
+          group.push(detection);
+        }
+        groups.set(key, group);
+        changed.add(key);
       });
-    }
-  });
+    });
+    
+    return Array.from(changed, key => mergeDetections(bar.symbol, groups.get(key)!)).sort((a, b) => b.score - a.score);
+  };
   
-  return mergedAnomalies.sort((a, b) => b.score - a.score);
+  return { update };
 };
 
 // Helper functions
@@ -333,13 +1288,73 @@ const calculateEMA = (data: number[], period: number): number[] => {
   return ema;
 };
 
-const calculateIsolationScore = (point: number[], dataset: number[][]): number => {
-  // Simplified isolation score based on average distance to other points
-  const distances = dataset.map(other => {
-    return Math.sqrt(point.reduce((sum, val, i) => sum + Math.pow(val - other[i], 2), 0));
-  });
+const updateEMA = (previous: number, value: number, period: number): number => {
+  if (Number.isNaN(previous)) return value;
+  const multiplier = 2 / (period + 1);
+  return (value * multiplier) + (previous * (1 - multiplier));
+};
+
+// Mean and standard deviation of the finite values among the last `size` pushed, or of all of
+// them (as running moments) when size is Infinity, for scoring a value against those before it
+const createTrailingStats = (size: number) => {
+  const window: number[] = [];
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
   
-  return calculateMean(distances);
+  return {
+    push: (value: number) => {
+      if (Number.isFinite(size)) {
+        window.push(value);
+        if (window.length > size) {
+          window.shift();
+        }
+      } else if (Number.isFinite(value)) {
+        count++;
+        sum += value;
+        sumOfSquares += value * value;
+      }
+    },
+    // Signed Z-score; NaN where the value cannot be scored, as in calculateZScores
+    zScore: (value: number, minPeriods: number): number => {
+      let n = count;
+      let mean = sum / count;
+      let stdDev = Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean));
+      if (Number.isFinite(size)) {
+        const reference = window.filter(Number.isFinite);
+        n = reference.length;
+        mean = calculateMean(reference);
+        stdDev = calculateStdDev(reference, mean);
+      }
+      if (!Number.isFinite(value) || n < minPeriods) return NaN;
+      return stdDev > 0 ? (value - mean) / stdDev : NaN;
+    }
+  };
+};
+
+// Index of the first value not below `value` in a sorted array
+const lowerBound = (sorted: number[], value: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+const insertSorted = (sorted: number[], value: number): void => {
+  sorted.splice(lowerBound(sorted, value), 0, value);
+};
+
+const formatVolume = (volume: number): string => {
+  if (volume >= 1000000) return `${(volume / 1000000).toFixed(2)}M`;
+  if (volume >= 1000) return `${(volume / 1000).toFixed(1)}K`;
+  return volume.toFixed(0);
 };
 
 const getPercentile = (data: number[], percentile: number): number => {
@@ -348,10 +1363,18 @@ const getPercentile = (data: number[], percentile: number): number => {
   return sorted[index];
 };
 
+const PUMP_THRESHOLD = 0.1;
+const DUMP_THRESHOLD = 0.08;
+const VOLUME_SPIKE_THRESHOLD = 2;
+// Lowest confidence a pattern that just clears all three thresholds can have
+const PUMP_AND_DUMP_MIN_CONFIDENCE = (PUMP_THRESHOLD + DUMP_THRESHOLD) * VOLUME_SPIKE_THRESHOLD * 0.1;
+
+// Bars either side of a pattern's peak
+const PATTERN_WINDOW = 3;
+
 const detectPumpAndDump = (stockData: StockData[], centerIndex: number): { detected: boolean; confidence: number; type: string } => {
-  const window = 3;
-  const start = Math.max(0, centerIndex - window);
-  const end = Math.min(stockData.length - 1, centerIndex + window);
+  const start = Math.max(0, centerIndex - PATTERN_WINDOW);
+  const end = Math.min(stockData.length - 1, centerIndex + PATTERN_WINDOW);
   
   const prices = stockData.slice(start, end + 1).map(d => d.close);
   const volumes = stockData.slice(start, end + 1).map(d => d.volume);
@@ -367,37 +1390,176 @@ const detectPumpAndDump = (stockData: StockData[], centerIndex: number): { detec
   const dumpMagnitude = (peakPrice - postDumpPrice) / peakPrice;
   const volumeSpike = peakVolume / avgVolume;
   
-  if (pumpMagnitude > 0.1 && dumpMagnitude > 0.08 && volumeSpike > 2) {
-    const confidence = Math.min(0.9, (pumpMagnitude + dumpMagnitude) * volumeSpike * 0.1);
+  // Confidence is reported for every window so detections can be calibrated against the rest
+  const confidence = Math.min(0.9, (pumpMagnitude + dumpMagnitude) * volumeSpike * 0.1);
+  
+  if (pumpMagnitude > PUMP_THRESHOLD && dumpMagnitude > DUMP_THRESHOLD && volumeSpike > VOLUME_SPIKE_THRESHOLD) {
     return { detected: true, confidence, type: 'pump and dump' };
   }
   
-  return { detected: false, confidence: 0, type: '' };
+  return { detected: false, confidence, type: '' };
+};
+
+// Built-in detectors
+registerDetector<ZScoreParams>({
+  id: 'zscore',
+  name: 'Z-Score Analysis',
+  description: 'Identifies statistical outliers using standard deviation thresholds against a trailing (point-in-time) or full-series baseline',
+  schema: {
+    threshold: { label: 'Threshold (σ)', type: 'number', min: 1, max: 5, step: 0.1 },
+    mode: { label: 'Baseline', type: 'select', options: ['rolling', 'global'] },
+    window: { label: 'Rolling window', type: 'number', min: 5, max: 252, step: 1 },
+    minPeriods: { label: 'Minimum periods', type: 'number', min: 2, max: 252, step: 1 },
+    priceInput: { label: 'Price series', type: 'select', options: ['close', 'returns'] },
+    volumeInput: { label: 'Volume series', type: 'select', options: ['volume', 'logVolume'] },
+    includeVolume: { label: 'Score volume', type: 'boolean' }
+  },
+  defaults: {
+    enabled: true,
+    threshold: 2.5,
+    mode: 'rolling',
+    window: 60,
+    minPeriods: 20,
+    priceInput: 'close',
+    volumeInput: 'volume',
+    // Volume is scored by the seasonality-aware detector unless enabled here
+    includeVolume: false,
+    weight: 0.25
+  },
+  thresholdParam: 'threshold',
+  detect: detectZScoreAnomalies,
+  stream: streamZScoreAnomalies
+});
+
+registerDetector<SeasonalVolumeParams>({
+  id: 'seasonalVolume',
+  name: 'Seasonal Volume',
+  description: 'Compares volume with a learned baseline for the weekday, month-end, options expiry, index rebalance and early-close dates',
+  schema: {
+    threshold: { label: 'Threshold (σ)', type: 'number', min: 1, max: 6, step: 0.1 },
+    window: { label: 'Baseline window', type: 'number', min: 20, max: 504, step: 1 },
+    minPeriods: { label: 'Minimum periods', type: 'number', min: 10, max: 252, step: 1 }
+  },
+  defaults: { enabled: true, threshold: 3, window: 120, minPeriods: 20, weight: 0.25 },
+  thresholdParam: 'threshold',
+  detect: detectSeasonalVolumeAnomalies,
+  stream: streamSeasonalVolumeAnomalies
+});
+
+registerDetector<BollingerBandsParams>({
+  id: 'bollingerBands',
+  name: 'Bollinger Bands',
+  description: 'Detects price movements outside normal volatility bands',
+  schema: {
+    period: { label: 'Period', type: 'number', min: 5, max: 100, step: 1 },
+    stdDev: { label: 'Band width (σ)', type: 'number', min: 1, max: 4, step: 0.1 }
+  },
+  defaults: { enabled: true, period: 20, stdDev: 2, weight: 0.25 },
+  thresholdParam: 'stdDev',
+  detect: detectBollingerBandsAnomalies,
+  stream: streamBollingerBandsAnomalies
+});
+
+registerDetector<MACDParams>({
+  id: 'macd',
+  name: 'MACD Divergence',
+  description: 'Spots momentum anomalies and trend reversals',
+  schema: {
+    fastPeriod: { label: 'Fast period', type: 'number', min: 2, max: 50, step: 1 },
+    slowPeriod: { label: 'Slow period', type: 'number', min: 5, max: 100, step: 1 },
+    signalPeriod: { label: 'Signal period', type: 'number', min: 2, max: 50, step: 1 }
+  },
+  defaults: { enabled: true, fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, weight: 0.25 },
+  detect: detectMACDAnomalies,
+  stream: streamMACDAnomalies
+});
+
+registerDetector<IsolationForestParams>({
+  id: 'isolationForest',
+  name: 'Isolation Forest',
+  description: 'Machine learning approach isolating unusual price-volume combinations with random trees',
+  schema: {
+    contamination: { label: 'Contamination', type: 'number', min: 0.01, max: 0.5, step: 0.01 },
+    numTrees: { label: 'Trees', type: 'number', min: 10, max: 500, step: 10 },
+    sampleSize: { label: 'Subsample size', type: 'number', min: 16, max: 1024, step: 16 },
+    seed: { label: 'Random seed', type: 'number', min: 0, max: 2147483647, step: 1 }
+  },
+  defaults: { enabled: true, contamination: 0.1, numTrees: 100, sampleSize: 256, seed: 42, weight: 0.15 },
+  detect: detectIsolationForestAnomalies,
+  stream: streamIsolationForestAnomalies
+});
+
+registerDetector<ChangePointParams>({
+  id: 'changePoint',
+  name: 'Change-Point Detection',
+  description: 'CUSUM tracking of sustained shifts in mean return, volatility and volume level',
+  schema: {
+    threshold: { label: 'Decision threshold (σ)', type: 'number', min: 1, max: 20, step: 0.5 },
+    drift: { label: 'Drift allowance (σ)', type: 'number', min: 0, max: 2, step: 0.05 },
+    baselinePeriods: { label: 'Baseline periods', type: 'number', min: 5, max: 120, step: 1 },
+    returns: { label: 'Mean return', type: 'boolean' },
+    volatility: { label: 'Volatility', type: 'boolean' },
+    volume: { label: 'Volume level', type: 'boolean' }
+  },
+  defaults: {
+    enabled: true,
+    threshold: 5,
+    drift: 0.5,
+    baselinePeriods: 20,
+    returns: true,
+    volatility: true,
+    volume: true,
+    weight: 0.1
+  },
+  detect: detectChangePointAnomalies,
+  stream: streamChangePointAnomalies
+});
+
+registerDetector({
+  id: 'patternDetection',
+  name: 'Pattern Recognition',
+  description: 'Identifies trading patterns like pump-and-dump schemes',
+  schema: {},
+  defaults: { enabled: true, weight: 0.1 },
+  detect: detectTradingPatternAnomalies,
+  stream: streamTradingPatternAnomalies
+});
+
+// Accuracy is only claimed from a measured evaluation report
+const describeAccuracy = (report?: EvaluationReport): string => {
+  if (!report) {
+    return "Accuracy has not been measured for this configuration. Run the evaluation harness to benchmark it.";
+  }
+  const { precision, recall, f1, meanLag } = report.ensemble;
+  const lag = meanLag === null ? '' : `, detecting events ${meanLag.toFixed(1)} bars after onset on average`;
+  return `Measured ${(precision * 100).toFixed(1)}% precision and ${(recall * 100).toFixed(1)}% recall (F1 ${f1.toFixed(2)}) on ${report.labels} labelled events across ${report.series} benchmark series${lag}.`;
 };
 
 // Enhanced model explanation
-export const getAnomalyModelExplanation = () => {
+export const getAnomalyModelExplanation = (report?: EvaluationReport) => {
   return {
     shortDescription: "Advanced multi-algorithm anomaly detection system using statistical analysis, technical indicators, and pattern recognition.",
     methodology: [
-      "Z-Score Analysis: Identifies statistical outliers using standard deviation thresholds",
-      "Bollinger Bands: Detects price movements outside normal volatility bands",
-      "MACD Divergence: Spots momentum anomalies and trend reversals",
-      "Isolation Forest: Machine learning approach for complex pattern detection",
-      "Pattern Recognition: Identifies trading patterns like pump-and-dump schemes",
+      ...getRegisteredDetectors().map(detector => `${detector.name}: ${detector.description}`),
+      "Calibrated Scoring: Converts each detector's statistic to an empirical p-value against the symbol's own history, so scores and severities are comparable across methods",
       "Weighted Scoring: Combines multiple detection methods for robust analysis"
     ],
-    accuracy: "Multi-algorithm approach achieves approximately 92-95% precision with reduced false positives.",
+    accuracy: describeAccuracy(report),
     limitations: [
-      "Requires sufficient historical data (20+ points) for optimal performance",
+      `Requires sufficient historical data (${MIN_ENSEMBLE_POINTS}+ points) for optimal performance`,
       "May have increased sensitivity during extreme market volatility",
       "Pattern detection effectiveness varies with market conditions",
-      "Isolation Forest is a simulation for demonstration purposes"
+      "Calibration is relative to the analysed date range; short ranges cannot produce very small p-values",
+      "Isolation Forest scores are relative to the analysed date range, not to the symbol's full history"
     ]
   };
 };
 
 // Export configuration for external customization
-export const createCustomConfig = (overrides: Partial<AnomalyDetectionConfig>): AnomalyDetectionConfig => {
-  return { ...defaultConfig, ...overrides };
+export const createCustomConfig = (overrides: AnomalyDetectionConfigOverrides): AnomalyDetectionConfig => {
+  const config = getDefaultConfig();
+  Object.entries(overrides).forEach(([id, settings]) => {
+    config[id] = { ...config[id], ...settings } as DetectorSettings;
+  });
+  return config;
 };
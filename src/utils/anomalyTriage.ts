@@ -0,0 +1,77 @@
+import { AnomalyContribution } from '@/types';
+
+// Anomaly triage
+// What an analyst has decided about each anomaly, and their notes on it, keyed by anomaly id.
+// Anomaly ids are stable across detection runs, so an anomaly found again keeps its triage.
+// Triage is kept in local storage so it survives a reload.
+
+export type TriageStatus = 'new' | 'acknowledged' | 'dismissed' | 'confirmed' | 'falsePositive';
+
+export const TRIAGE_STATUSES: TriageStatus[] = ['new', 'acknowledged', 'dismissed', 'confirmed', 'falsePositive'];
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  dismissed: 'Dismissed',
+  confirmed: 'Confirmed',
+  falsePositive: 'False positive'
+};
+
+export interface AnomalyTriage {
+  status: TriageStatus;
+  note?: string;
+  // The detectors' findings behind the anomaly when it was labelled a true or false positive,
+  // which weight tuning learns from
+  contributions?: AnomalyContribution[];
+  updatedAt: string;
+}
+
+export type AnomalyTriageUpdate = Partial<Pick<AnomalyTriage, 'status' | 'note' | 'contributions'>>;
+
+export type AnomalyTriageRecords = Record<string, AnomalyTriage>;
+
+const STORAGE_KEY = 'anomalyDetector_triage';
+
+export const loadAnomalyTriage = (): AnomalyTriageRecords => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AnomalyTriageRecords) : {};
+  } catch (error) {
+    console.error('Failed to load anomaly triage:', error);
+    return {};
+  }
+};
+
+// Returns false when the browser refuses to store the triage
+export const saveAnomalyTriage = (records: AnomalyTriageRecords): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    return true;
+  } catch (error) {
+    console.error('Failed to save anomaly triage:', error);
+    return false;
+  }
+};
+
+// Anomalies nobody has triaged yet are new
+export const getTriageStatus = (records: AnomalyTriageRecords, anomalyId: string): TriageStatus => {
+  return records[anomalyId]?.status ?? 'new';
+};
+
+// The records with an anomaly's status or note changed. A new anomaly without a note has nothing
+// to keep, so its record is dropped.
+export const updateAnomalyTriage = (
+  records: AnomalyTriageRecords,
+  anomalyId: string,
+  update: AnomalyTriageUpdate
+): AnomalyTriageRecords => {
+  const current = records[anomalyId];
+  const status = update.status ?? current?.status ?? 'new';
+  const note = (update.note ?? current?.note)?.trim() || undefined;
+  const contributions = update.contributions ?? current?.contributions;
+  const { [anomalyId]: _previous, ...others } = records;
+  if (status === 'new' && !note) {
+    return others;
+  }
+  return { ...others, [anomalyId]: { status, note, contributions, updatedAt: new Date().toISOString() } };
+};
@@ -0,0 +1,225 @@
+import { BarInterval, StockData } from '@/types';
+import { getBarDay } from '@/utils/barInterval';
+import { MarketDataProvider } from '@/utils/marketDataProvider';
+import { fromDateKey, toDateKey } from '@/utils/tradingCalendar';
+
+// Bar cache
+// Bars fetched from a provider are kept in IndexedDB per provider, symbol and interval together
+// with the date ranges they cover, so a request only fetches the days that are not cached yet.
+// A cached range is trusted in full while it is fresh; after that only the days that had ended
+// when it was fetched are kept, and later days are fetched again. Without IndexedDB (private
+// browsing, or outside a browser) the cache is kept in memory for the session.
+
+const DB_NAME = 'anomalyDetector_barCache';
+const STORE_NAME = 'bars';
+
+// How long a cached range is trusted in full, including the day it was fetched on
+export const BAR_CACHE_FRESH_MS = 5 * 60 * 1000;
+
+interface CachedRange {
+  from: string;
+  to: string;
+  fetchedAt: number;
+}
+
+interface CacheEntry {
+  key: string;
+  providerId: string;
+  symbol: string;
+  interval: BarInterval;
+  bars: StockData[];
+  ranges: CachedRange[];
+}
+
+export interface CachedBars {
+  bars: StockData[];
+  // When the bars at the end of the range, the ones that can still change, were fetched
+  fetchedAt: number;
+  // Date ranges fetched from the provider for this request; 0 when it was served from the cache
+  fetchedRanges: number;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+let database: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  database ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+  return database;
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  const db = await openDatabase();
+  if (!db) {
+    return memoryCache.get(key);
+  }
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result as CacheEntry | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+};
+
+// A failed write only means the bars are fetched again next time
+const writeEntry = async (entry: CacheEntry): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) {
+    memoryCache.set(entry.key, entry);
+    return;
+  }
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+};
+
+const readAllEntries = async (): Promise<CacheEntry[]> => {
+  const db = await openDatabase();
+  if (!db) {
+    return Array.from(memoryCache.values());
+  }
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as CacheEntry[]);
+    request.onerror = () => resolve([]);
+  });
+};
+
+const deleteEntries = async (keys: string[]): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) {
+    keys.forEach(key => memoryCache.delete(key));
+    return;
+  }
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    keys.forEach(key => transaction.objectStore(STORE_NAME).delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+};
+
+const shiftDays = (date: string, days: number): string => {
+  const day = fromDateKey(date);
+  day.setDate(day.getDate() + days);
+  return toDateKey(day);
+};
+
+// The part of a cached range that can still be used at `now`; a refresh only uses days that had ended
+const getTrustedRange = (range: CachedRange, now: number, refresh: boolean): CachedRange | null => {
+  if (!refresh && now - range.fetchedAt < BAR_CACHE_FRESH_MS) {
+    return range;
+  }
+  // Days before the one the range was fetched on had ended, so their bars will not change
+  const lastEnded = shiftDays(toDateKey(new Date(range.fetchedAt)), -1);
+  if (range.from > lastEnded) {
+    return null;
+  }
+  return range.to > lastEnded ? { ...range, to: lastEnded } : range;
+};
+
+// Parts of from..to (inclusive date keys) not covered by the ranges
+const getMissingRanges = (from: string, to: string, ranges: CachedRange[]): { from: string; to: string }[] => {
+  const missing: { from: string; to: string }[] = [];
+  let next = from;
+  [...ranges].sort((a, b) => a.from.localeCompare(b.from)).forEach(range => {
+    if (next > to || range.to < next || range.from > to) return;
+    if (range.from > next) {
+      missing.push({ from: next, to: shiftDays(range.from, -1) });
+    }
+    next = shiftDays(range.to, 1);
+  });
+  if (next <= to) {
+    missing.push({ from: next, to });
+  }
+  return missing;
+};
+
+// Adjacent ranges fetched at the same time are combined; ranges fetched at different times are
+// trusted for different days, so they stay separate
+const mergeRanges = (ranges: CachedRange[]): CachedRange[] => {
+  const merged: CachedRange[] = [];
+  [...ranges].sort((a, b) => a.from.localeCompare(b.from)).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && last.fetchedAt === range.fetchedAt && range.from <= shiftDays(last.to, 1)) {
+      merged[merged.length - 1] = { ...last, to: range.to > last.to ? range.to : last.to };
+    } else {
+      merged.push(range);
+    }
+  });
+  return merged;
+};
+
+const getCacheKey = (providerId: string, symbol: string, interval: BarInterval): string => {
+  return `${providerId}|${symbol}|${interval}`;
+};
+
+// Bars for the symbol over the trading days between the two dates, fetching only what the cache
+// is missing; `refresh` also fetches days that were still open when they were cached, however
+// recently. Provider errors are passed on; nothing is cached for a failed request.
+export const getCachedBars = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  from: Date,
+  to: Date,
+  interval: BarInterval = '1d',
+  refresh = false
+): Promise<CachedBars> => {
+  const upper = symbol.toUpperCase();
+  const key = getCacheKey(provider.id, upper, interval);
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const now = Date.now();
+
+  const entry = await readEntry(key);
+  const trusted = (entry?.ranges ?? [])
+    .map(range => getTrustedRange(range, now, refresh))
+    .filter((range): range is CachedRange => range !== null);
+  const missing = getMissingRanges(fromKey, toKey, trusted);
+
+  const fetched = await Promise.all(missing.map(range => {
+    return provider.getBars(upper, fromDateKey(range.from), fromDateKey(range.to), interval);
+  }));
+
+  // Refetched days replace whatever was cached for them
+  const isMissing = (bar: StockData) => {
+    const day = getBarDay(bar.date);
+    return missing.some(range => day >= range.from && day <= range.to);
+  };
+  const bars = [
+    ...(entry?.bars ?? []).filter(bar => !isMissing(bar)),
+    ...fetched.flat().filter(isMissing)
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  const ranges = mergeRanges([...trusted, ...missing.map(range => ({ ...range, fetchedAt: now }))]);
+
+  if (missing.length > 0) {
+    await writeEntry({ key, providerId: provider.id, symbol: upper, interval, bars, ranges });
+  }
+
+  const latest = ranges.find(range => range.from <= toKey && range.to >= toKey);
+  return {
+    bars: bars.filter(bar => {
+      const day = getBarDay(bar.date);
+      return day >= fromKey && day <= toKey;
+    }),
+    fetchedAt: latest?.fetchedAt ?? now,
+    fetchedRanges: missing.length
+  };
+};
+
+// Drops cached bars for one symbol, e.g. when imported data replaces it, or for every symbol
+export const clearCachedBars = async (symbol?: string): Promise<void> => {
+  const entries = await readAllEntries();
+  const upper = symbol?.toUpperCase();
+  await deleteEntries(entries.filter(entry => upper === undefined || entry.symbol === upper).map(entry => entry.key));
+};
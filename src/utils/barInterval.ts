@@ -0,0 +1,201 @@
+import { BarInterval, StockData, Timeframe } from '@/types';
+import { formatExchangeTime, getAnnualTradingDays, getSessionBounds, getTradingCalendar, getTradingDays } from '@/utils/tradingCalendar';
+
+// Bar intervals
+// Daily bars are dated by trading day and intraday bars are stamped with their start time (see
+// StockData.date). These helpers read either kind, aggregate minute bars to longer intervals and
+// resample any bars to a coarser timeframe.
+
+export const BAR_INTERVALS: BarInterval[] = ['1m', '5m', '15m', '1h', '1d'];
+
+export const BAR_INTERVAL_LABELS: Record<BarInterval, string> = {
+  '1m': '1 minute',
+  '5m': '5 minutes',
+  '15m': '15 minutes',
+  '1h': '1 hour',
+  '1d': '1 day'
+};
+
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  ...BAR_INTERVAL_LABELS,
+  '1w': '1 week',
+  '1mo': '1 month'
+};
+
+// Minutes of trading in a full bar; weeks and months are nominally 5 and 21 sessions
+const INTERVAL_MINUTES: Record<Timeframe, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '1d': 390,
+  '1w': 1950,
+  '1mo': 8190
+};
+
+// Coarser timeframes are only used for confirmation when they give the detectors this many bars
+const MIN_CONFIRMATION_BARS = 30;
+
+// Intraday ranges are capped so a long range does not produce more bars than the detectors can
+// score interactively
+export const MAX_INTRADAY_BARS = 6000;
+
+export const isIntradayInterval = (interval: Timeframe): boolean => INTERVAL_MINUTES[interval] < INTERVAL_MINUTES['1d'];
+
+export const getIntervalMinutes = (interval: Timeframe): number => INTERVAL_MINUTES[interval];
+
+export const isIntradayBar = (bar: StockData): boolean => bar.date.length > 10;
+
+// Trading day of a daily or intraday bar
+export const getBarDay = (date: string): string => date.slice(0, 10);
+
+// Milliseconds since the epoch; daily bars are placed at midnight UTC of their trading day
+export const getBarTime = (date: string): number => {
+  return date.length > 10 ? new Date(date).getTime() : new Date(`${date}T00:00:00Z`).getTime();
+};
+
+// Bars in a full regular session, rounding a final partial bar up
+export const getBarsPerSession = (interval: Timeframe): number => {
+  return Math.ceil(INTERVAL_MINUTES['1d'] / INTERVAL_MINUTES[interval]);
+};
+
+// Bars per year at the interval, for annualising per-bar statistics
+export const getBarsPerYear = (interval: BarInterval, date: string, calendar = getTradingCalendar()): number => {
+  return getAnnualTradingDays(getBarDay(date), calendar) * (isIntradayInterval(interval) ? getBarsPerSession(interval) : 1);
+};
+
+export const estimateBarCount = (interval: Timeframe, from: string, to: string, calendar = getTradingCalendar()): number => {
+  const days = getTradingDays(from, to, calendar).length;
+  return isIntradayInterval(interval)
+    ? days * getBarsPerSession(interval)
+    : Math.ceil(days * INTERVAL_MINUTES['1d'] / INTERVAL_MINUTES[interval]);
+};
+
+export const isIntervalAvailable = (interval: BarInterval, from: string, to: string, calendar = getTradingCalendar()): boolean => {
+  return !isIntradayInterval(interval) || estimateBarCount(interval, from, to, calendar) <= MAX_INTRADAY_BARS;
+};
+
+// Combine consecutive bars into one: first open, highest high, lowest low, last close, total volume
+export const mergeBars = (bars: StockData[], date: string = bars[0].date): StockData => {
+  const last = bars[bars.length - 1];
+  return {
+    symbol: bars[0].symbol,
+    date,
+    open: bars[0].open,
+    high: Math.max(...bars.map(bar => bar.high)),
+    low: Math.min(...bars.map(bar => bar.low)),
+    close: last.close,
+    volume: bars.reduce((sum, bar) => sum + bar.volume, 0),
+    adjClose: last.adjClose
+  };
+};
+
+// Aggregate one session's minute bars to the interval, with bars anchored at the session open;
+// a session that does not divide evenly ends with a shorter bar
+export const aggregateSessionBars = (minuteBars: StockData[], interval: BarInterval): StockData[] => {
+  if (interval === '1m' || minuteBars.length === 0) {
+    return minuteBars;
+  }
+  if (interval === '1d') {
+    return [mergeBars(minuteBars, getBarDay(minuteBars[0].date))];
+  }
+  const size = INTERVAL_MINUTES[interval];
+  const bars: StockData[] = [];
+  for (let i = 0; i < minuteBars.length; i += size) {
+    bars.push(mergeBars(minuteBars.slice(i, i + size)));
+  }
+  return bars;
+};
+
+// Bars sharing a key, in order of the groups' first bars
+const groupBars = (bars: StockData[], getKey: (bar: StockData) => string): StockData[][] => {
+  const groups = new Map<string, StockData[]>();
+  bars.forEach(bar => {
+    const key = getKey(bar);
+    const group = groups.get(key);
+    if (group) {
+      group.push(bar);
+    } else {
+      groups.set(key, [bar]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
+// One daily bar per trading day in a series of intraday bars
+export const toDailyBars = (bars: StockData[]): StockData[] => {
+  return groupBars(bars, bar => getBarDay(bar.date)).map(dayBars => mergeBars(dayBars, getBarDay(dayBars[0].date)));
+};
+
+// Monday of the bar's week
+const getWeekKey = (date: string): string => {
+  const day = new Date(`${getBarDay(date)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().slice(0, 10);
+};
+
+// Resample bars to a coarser timeframe. Weekly and monthly bars are dated by their first trading
+// day, so they line up with the daily bars they summarise; intraday bars are anchored at the
+// session open, as in aggregateSessionBars. Bars already at or above the timeframe are unchanged
+// apart from weeks and months, and daily bars cannot be resampled to an intraday interval.
+export const resampleBars = (bars: StockData[], timeframe: Timeframe, calendar = getTradingCalendar()): StockData[] => {
+  if (bars.length === 0) {
+    return [];
+  }
+  if (timeframe === '1w' || timeframe === '1mo') {
+    const getKey = timeframe === '1w' ? (bar: StockData) => getWeekKey(bar.date) : (bar: StockData) => bar.date.slice(0, 7);
+    return groupBars(bars, getKey).map(period => mergeBars(period, getBarDay(period[0].date)));
+  }
+  if (!isIntradayBar(bars[0])) {
+    if (isIntradayInterval(timeframe)) {
+      throw new Error(`Daily bars cannot be resampled to ${BAR_INTERVAL_LABELS[timeframe]} bars`);
+    }
+    return bars;
+  }
+  if (timeframe === '1d') {
+    return toDailyBars(bars);
+  }
+
+  const size = INTERVAL_MINUTES[timeframe] * 60000;
+  const sessionOpens = new Map<string, number>();
+  const getBucketStart = (bar: StockData): number => {
+    const day = getBarDay(bar.date);
+    const open = sessionOpens.get(day) ?? getSessionBounds(day, calendar).open;
+    sessionOpens.set(day, open);
+    return open + Math.floor((getBarTime(bar.date) - open) / size) * size;
+  };
+  return groupBars(bars, bar => String(getBucketStart(bar)))
+    .map(bucket => mergeBars(bucket, formatExchangeTime(getBucketStart(bucket[0]), calendar)));
+};
+
+// Coarser timeframes that give enough bars over the range to confirm anomalies found at the interval
+export const getConfirmationTimeframes = (
+  interval: BarInterval,
+  from: string,
+  to: string,
+  calendar = getTradingCalendar()
+): Timeframe[] => {
+  const timeframes: Timeframe[] = ['15m', '1h', '1d', '1w', '1mo'];
+  return timeframes.filter(timeframe => INTERVAL_MINUTES[timeframe] > INTERVAL_MINUTES[interval]
+    && estimateBarCount(timeframe, from, to, calendar) >= MIN_CONFIRMATION_BARS);
+};
+
+// "May 10" for a daily bar and "May 10 09:35" for an intraday bar, in the exchange's local time;
+// `timeOnly` drops the day from intraday labels, for axes that span a single session
+export const formatBarDate = (
+  date: string,
+  options: { timeOnly?: boolean; withYear?: boolean; withWeekday?: boolean } = {}
+): string => {
+  const time = date.slice(11, 16);
+  if (time && options.timeOnly) {
+    return time;
+  }
+  const day = new Date(`${getBarDay(date)}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: options.withYear ? 'numeric' : undefined,
+    weekday: options.withWeekday ? 'short' : undefined,
+    timeZone: 'UTC'
+  });
+  return time ? `${day} ${time}` : day;
+};
@@ -0,0 +1,148 @@
+import { CorporateAction, StockData } from '@/types';
+
+// Corporate action adjustment
+// Splits and cash dividends move the traded price without any change in value: a 4-for-1 split
+// looks like a 75% fall. Bars before each action are back-adjusted so the series is continuous
+// and the last bar keeps its traded price. Splits scale volume by the inverse of the price;
+// dividends leave volume unchanged.
+
+// Changes in adjClose / close smaller than this are treated as rounding in the source data
+const FACTOR_TOLERANCE = 0.0005;
+// Steps in adjClose / close at least this large (or its inverse) are read as a split, not a dividend
+const MIN_SPLIT_STEP = 1.25;
+
+interface AdjustmentFactors {
+  price: number[];
+  volume: number[];
+}
+
+// "4-for-1", or "1-for-10" for a reverse split
+export const formatSplitRatio = (ratio: number): string => {
+  return ratio >= 1 ? `${+ratio.toFixed(3)}-for-1` : `1-for-${+(1 / ratio).toFixed(3)}`;
+};
+
+export const describeCorporateAction = (action: CorporateAction): string => {
+  if (action.type === 'dividend') {
+    return `Dividend of ${action.value.toFixed(2)} per share`;
+  }
+  return `${formatSplitRatio(action.value)} ${action.value >= 1 ? 'split' : 'reverse split'}`;
+};
+
+// Actions take effect on their ex-date, or the first bar after it when that is not a trading day
+const groupActionsByBar = (data: StockData[], actions: CorporateAction[]): Map<number, CorporateAction[]> => {
+  const byBar = new Map<number, CorporateAction[]>();
+  actions.forEach(action => {
+    const bar = data.findIndex(d => d.date >= action.date);
+    // An action before the first bar or after the last one does not affect the range
+    if (bar <= 0) return;
+    byBar.set(bar, [...(byBar.get(bar) ?? []), action]);
+  });
+  return byBar;
+};
+
+const getAdjustmentFactors = (data: StockData[], actions: CorporateAction[]): AdjustmentFactors => {
+  const byBar = groupActionsByBar(data, actions);
+  const price = new Array<number>(data.length);
+  const volume = new Array<number>(data.length);
+  let priceFactor = 1;
+  let volumeFactor = 1;
+
+  for (let i = data.length - 1; i >= 0; i--) {
+    price[i] = priceFactor;
+    volume[i] = volumeFactor;
+    byBar.get(i)?.forEach(action => {
+      if (action.type === 'split' && action.value > 0) {
+        priceFactor /= action.value;
+        volumeFactor *= action.value;
+      } else if (action.type === 'dividend' && action.value < data[i - 1].close) {
+        priceFactor *= 1 - action.value / data[i - 1].close;
+      }
+    });
+  }
+  return { price, volume };
+};
+
+// Back-adjust OHLCV for the actions; adjClose of the result is its (adjusted) close.
+// Without a list of actions they are inferred from the bars' adjClose.
+export const adjustForCorporateActions = (
+  data: StockData[],
+  actions: CorporateAction[] = inferCorporateActions(data)
+): StockData[] => {
+  if (actions.length === 0) {
+    return data.map(bar => ({ ...bar, adjClose: bar.close }));
+  }
+
+  const factors = getAdjustmentFactors(data, actions);
+  return data.map((bar, i) => {
+    const factor = factors.price[i];
+    return {
+      ...bar,
+      open: bar.open * factor,
+      high: bar.high * factor,
+      low: bar.low * factor,
+      close: bar.close * factor,
+      volume: Math.round(bar.volume * factors.volume[i]),
+      adjClose: bar.close * factor
+    };
+  });
+};
+
+// Inverse of adjustForCorporateActions: rebuild traded bars from an adjusted series, with
+// adjClose set to the adjusted close. Dividend amounts are in traded prices.
+export const unadjustForCorporateActions = (adjusted: StockData[], actions: CorporateAction[]): StockData[] => {
+  const byBar = groupActionsByBar(adjusted, actions);
+  const traded = new Array<StockData>(adjusted.length);
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let dividend = 0;
+
+  for (let i = adjusted.length - 1; i >= 0; i--) {
+    const bar = adjusted[i];
+    // The traded close before an ex-date is the adjusted close plus the dividend paid from it
+    const close = bar.close / priceFactor + dividend;
+    const factor = bar.close / close;
+    traded[i] = {
+      ...bar,
+      open: bar.open / factor,
+      high: bar.high / factor,
+      low: bar.low / factor,
+      close,
+      volume: Math.round(bar.volume / volumeFactor),
+      adjClose: bar.close
+    };
+
+    priceFactor = factor;
+    dividend = 0;
+    byBar.get(i)?.forEach(action => {
+      if (action.type === 'split' && action.value > 0) {
+        priceFactor /= action.value;
+        volumeFactor *= action.value;
+      } else if (action.type === 'dividend') {
+        dividend += action.value;
+      }
+    });
+  }
+  return traded;
+};
+
+// Recover splits and dividends from steps in adjClose / close, for sources that provide an
+// adjusted close but no list of actions. Bars without an adjusted close are skipped.
+export const inferCorporateActions = (data: StockData[]): CorporateAction[] => {
+  const actions: CorporateAction[] = [];
+  let previous: StockData | null = null;
+
+  data.forEach(bar => {
+    if (!bar.adjClose || !bar.close) return;
+    if (previous) {
+      const step = (bar.adjClose / bar.close) / (previous.adjClose! / previous.close);
+      if (step >= MIN_SPLIT_STEP || step <= 1 / MIN_SPLIT_STEP) {
+        actions.push({ symbol: bar.symbol, date: bar.date, type: 'split', value: Math.round(step * 1000) / 1000 });
+      } else if (step > 1 + FACTOR_TOLERANCE) {
+        const amount = previous.close * (1 - 1 / step);
+        actions.push({ symbol: bar.symbol, date: bar.date, type: 'dividend', value: Math.round(amount * 10000) / 10000 });
+      }
+    }
+    previous = bar;
+  });
+  return actions;
+};
@@ -0,0 +1,163 @@
+import { CorporateAction, MarketIndex, StockData, SymbolInfo } from '@/types';
+import { isIntradayInterval } from '@/utils/barInterval';
+import { inferCorporateActions } from '@/utils/corporateActions';
+import { MarketDataError, MarketDataProvider, matchesSymbolQuery } from '@/utils/marketDataProvider';
+import { buildImportedData, getMissingFields, parseCsv, parseImportFile, suggestColumnMapping } from '@/utils/ohlcvImport';
+
+// CSV file market data provider
+// Reads one OHLCV file per symbol, `<baseUrl>/<SYMBOL>.csv`, plus an optional `symbols.csv`
+// manifest with the columns symbol,name,sector,exchange,currency,index where index is `market`
+// or `sector` for benchmarks, and an optional `actions.csv` with the columns symbol,date,type,value
+// listing splits (value = new shares per old share) and dividends (value = cash per share).
+// Without it, actions are recovered from the files' adjusted close. Files can also be supplied in
+// memory, keyed by symbol.
+
+export interface CsvProviderOptions {
+  baseUrl?: string;
+  files?: Record<string, string>;
+}
+
+const PROVIDER_ID = 'csv';
+
+// Parse a file whose header names date, open, high, low, close, volume and optionally adj close
+// columns, in any delimiter. Rows that do not parse are skipped.
+export const parseOhlcvCsv = (text: string, symbol: string): StockData[] => {
+  const table = parseImportFile(`${symbol}.csv`, text);
+  const mapping = suggestColumnMapping(table.columns);
+  const missing = getMissingFields(mapping);
+  if (missing.length > 0) {
+    throw new MarketDataError(`${symbol} CSV is missing columns: ${missing.join(', ')}`, PROVIDER_ID);
+  }
+  return buildImportedData(table, symbol, mapping).data;
+};
+
+const normaliseHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+interface Manifest {
+  symbols: SymbolInfo[];
+  indices: MarketIndex[];
+}
+
+const parseManifest = (text: string): Manifest => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(normaliseHeader);
+  const value = (row: string[], name: string) => {
+    const i = columns.indexOf(name);
+    return i >= 0 && row[i] ? row[i] : undefined;
+  };
+
+  const manifest: Manifest = { symbols: [], indices: [] };
+  rows.forEach(row => {
+    const symbol = value(row, 'symbol')?.toUpperCase();
+    if (!symbol) return;
+    const name = value(row, 'name') ?? symbol;
+    const kind = value(row, 'index');
+    if (kind === 'market' || kind === 'sector') {
+      manifest.indices.push({ symbol, name, kind });
+    }
+    manifest.symbols.push({
+      symbol,
+      name,
+      sector: value(row, 'sector'),
+      exchange: value(row, 'exchange'),
+      currency: value(row, 'currency')
+    });
+  });
+  return manifest;
+};
+
+const parseActions = (text: string): CorporateAction[] => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(normaliseHeader);
+  const value = (row: string[], name: string) => row[columns.indexOf(name)]?.trim() ?? '';
+
+  return rows.flatMap(row => {
+    const symbol = value(row, 'symbol').toUpperCase();
+    const type = value(row, 'type').toLowerCase();
+    const amount = parseFloat(value(row, 'value'));
+    if (!symbol || (type !== 'split' && type !== 'dividend') || !isFinite(amount)) return [];
+    return [{ symbol, date: value(row, 'date'), type: type as CorporateAction['type'], value: amount }];
+  });
+};
+
+export const createCsvProvider = (options: CsvProviderOptions = {}): MarketDataProvider => {
+  const files = new Map(Object.entries(options.files ?? {}).map(([symbol, text]) => [symbol.toUpperCase(), text]));
+  const parsed = new Map<string, StockData[]>();
+  let manifest: Promise<Manifest> | null = null;
+  let actionList: Promise<CorporateAction[] | null> | null = null;
+
+  const fetchText = async (path: string): Promise<string | null> => {
+    if (!options.baseUrl) return null;
+    const response = await fetch(`${options.baseUrl}/${path}`);
+    return response.ok ? response.text() : null;
+  };
+
+  // A missing manifest is not an error; the in-memory files are still listed
+  const loadManifest = (): Promise<Manifest> => {
+    if (!manifest) {
+      manifest = fetchText('symbols.csv')
+        .catch(() => null)
+        .then(text => (text ? parseManifest(text) : { symbols: [], indices: [] }));
+    }
+    return manifest;
+  };
+
+  // Null when there is no actions file, as opposed to a file listing no actions for the symbol
+  const loadActions = (): Promise<CorporateAction[] | null> => {
+    if (!actionList) {
+      actionList = fetchText('actions.csv')
+        .catch(() => null)
+        .then(text => (text ? parseActions(text) : null));
+    }
+    return actionList;
+  };
+
+  const listSymbols = async (): Promise<SymbolInfo[]> => {
+    const { symbols } = await loadManifest();
+    const listed = new Set(symbols.map(info => info.symbol));
+    const unlisted = Array.from(files.keys())
+      .filter(symbol => !listed.has(symbol))
+      .map(symbol => ({ symbol, name: symbol }));
+    return [...symbols, ...unlisted];
+  };
+
+  const loadBars = async (symbol: string): Promise<StockData[]> => {
+    const cached = parsed.get(symbol);
+    if (cached) return cached;
+
+    const text = files.get(symbol) ?? (await fetchText(`${encodeURIComponent(symbol)}.csv`));
+    if (text === null) {
+      throw new MarketDataError(`No CSV data for ${symbol}`, PROVIDER_ID);
+    }
+    const bars = parseOhlcvCsv(text, symbol);
+    parsed.set(symbol, bars);
+    return bars;
+  };
+
+  return {
+    id: PROVIDER_ID,
+    name: 'CSV files',
+    getBars: async (symbol, from, to, interval = '1d') => {
+      if (isIntradayInterval(interval)) {
+        throw new MarketDataError('CSV files only provide daily bars', PROVIDER_ID);
+      }
+      const fromKey = from.toISOString().split('T')[0];
+      const toKey = to.toISOString().split('T')[0];
+      const bars = await loadBars(symbol.toUpperCase());
+      return bars.filter(bar => bar.date >= fromKey && bar.date <= toKey);
+    },
+    getCorporateActions: async (symbol, from, to) => {
+      const fromKey = from.toISOString().split('T')[0];
+      const toKey = to.toISOString().split('T')[0];
+      const key = symbol.toUpperCase();
+      const listed = await loadActions();
+      const actions = listed
+        ? listed.filter(action => action.symbol === key).sort((a, b) => a.date.localeCompare(b.date))
+        : inferCorporateActions(await loadBars(key));
+      return actions.filter(action => action.date >= fromKey && action.date <= toKey);
+    },
+    searchSymbols: async query => (await listSymbols()).filter(info => matchesSymbolQuery(info, query)),
+    getSymbolInfo: async symbol => (await listSymbols()).find(info => info.symbol === symbol.toUpperCase()) ?? null,
+    getIndices: async () => (await loadManifest()).indices
+  };
+};
@@ -0,0 +1,129 @@
+import { StockData } from '@/types';
+
+// Data quality checks
+// Bad ticks look like market anomalies to the detectors, so bars are checked before detection.
+// Each input bar is labelled ok, repaired (fixed in place, with the fix recorded) or excluded
+// (dropped from the clean series). Issues are reported separately from detected anomalies.
+
+export type BarQualityStatus = 'ok' | 'repaired' | 'excluded';
+
+export interface DataQualityIssue {
+  // Position of the bar in the input, which may not be in date order
+  index: number;
+  date: string;
+  status: Exclude<BarQualityStatus, 'ok'>;
+  reasons: string[];
+}
+
+export interface DataQualityReport {
+  // Ok and repaired bars, sorted by date with one bar per date
+  data: StockData[];
+  issues: DataQualityIssue[];
+  counts: Record<BarQualityStatus, number>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const isPositive = (value: number) => isFinite(value) && value > 0;
+
+// Repair what can be inferred from the rest of the bar; return reasons the bar must be excluded
+const checkBar = (bar: StockData, repairs: string[]): string[] => {
+  if (typeof bar.date !== 'string' || !DATE_PATTERN.test(bar.date)) {
+    return ['invalid date'];
+  }
+  if (!isFinite(bar.close)) {
+    return ['missing close'];
+  }
+  if (bar.close <= 0) {
+    return ['non-positive close'];
+  }
+  if (!isFinite(bar.volume)) {
+    return ['missing volume'];
+  }
+  if (bar.volume < 0) {
+    return ['negative volume'];
+  }
+  if (bar.volume === 0) {
+    return ['zero volume'];
+  }
+
+  (['open', 'high', 'low'] as const).forEach(field => {
+    if (!isPositive(bar[field])) {
+      repairs.push(`${field} ${isFinite(bar[field]) ? 'not positive' : 'missing'}, set to close`);
+      bar[field] = bar.close;
+    }
+  });
+  if (bar.high < bar.low) {
+    repairs.push('high below low, swapped');
+    [bar.high, bar.low] = [bar.low, bar.high];
+  }
+  if (bar.high < Math.max(bar.open, bar.close)) {
+    repairs.push('high below open or close, raised');
+    bar.high = Math.max(bar.open, bar.close);
+  }
+  if (bar.low > Math.min(bar.open, bar.close)) {
+    repairs.push('low above open or close, lowered');
+    bar.low = Math.min(bar.open, bar.close);
+  }
+  if (bar.adjClose !== undefined && !isPositive(bar.adjClose)) {
+    // Dropped rather than set to close, which would read as a corporate action
+    repairs.push('invalid adjusted close, dropped');
+    bar.adjClose = undefined;
+  }
+  return [];
+};
+
+const sameBar = (a: StockData, b: StockData): boolean => {
+  return a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close && a.volume === b.volume;
+};
+
+export const validateStockData = (stockData: StockData[]): DataQualityReport => {
+  const issues: DataQualityIssue[] = [];
+  const kept = new Map<string, { bar: StockData; index: number; repairs: string[] }>();
+  let previousDate = '';
+
+  stockData.forEach((original, index) => {
+    const bar = { ...original };
+    const repairs: string[] = [];
+    const exclusions = checkBar(bar, repairs);
+    if (exclusions.length > 0) {
+      issues.push({ index, date: String(original.date ?? ''), status: 'excluded', reasons: exclusions });
+      return;
+    }
+
+    if (bar.date < previousDate) {
+      repairs.push('out of date order, moved');
+    }
+    previousDate = bar.date > previousDate ? bar.date : previousDate;
+
+    // For repeated dates the later bar wins, as it is usually a correction
+    const existing = kept.get(bar.date);
+    if (existing) {
+      issues.push({
+        index: existing.index,
+        date: bar.date,
+        status: 'excluded',
+        reasons: [sameBar(existing.bar, bar) ? 'duplicate date' : 'duplicate date, superseded by a later bar']
+      });
+    }
+    kept.set(bar.date, { bar, index, repairs });
+  });
+
+  kept.forEach(({ bar, index, repairs }) => {
+    if (repairs.length > 0) {
+      issues.push({ index, date: bar.date, status: 'repaired', reasons: repairs });
+    }
+  });
+  issues.sort((a, b) => a.index - b.index);
+
+  const excluded = issues.filter(issue => issue.status === 'excluded').length;
+  const repaired = issues.length - excluded;
+
+  return {
+    data: Array.from(kept.values())
+      .map(({ bar }) => bar)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    issues,
+    counts: { ok: stockData.length - excluded - repaired, repaired, excluded }
+  };
+};
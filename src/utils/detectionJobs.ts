@@ -0,0 +1,124 @@
+import { AnomalyData, BarInterval, StockData, StockMetrics } from '@/types';
+import { AnomalyDetectionConfig, createDetector, detectAnomalies, DetectionOptions, StreamingDetector } from '@/utils/anomalyDetection';
+import { EvaluationReport, getBenchmarkReport } from '@/utils/evaluation';
+import { fetchStockMetrics } from '@/utils/stockData';
+import { getTradingCalendar } from '@/utils/tradingCalendar';
+
+// Detection jobs
+// The work the detection worker pool runs, and the messages between the pool and its workers.
+// Everything in a message must survive structured cloning, so options refer to the trading
+// calendar by its id rather than passing the calendar and its rule functions.
+//
+// Streaming jobs keep their detector between jobs, by key, in the worker (or thread) that ran them.
+// The pool sends every job with the same key to the same worker, so a symbol refreshed again only
+// has the bars added since the last job detected. Each job still carries the whole series, so a
+// worker started afresh, e.g. after a job was cancelled, builds the detector again from it.
+
+export type DetectionJob =
+  | {
+    kind: 'anomalies';
+    bars: StockData[];
+    config: AnomalyDetectionConfig;
+    options: Omit<DetectionOptions, 'calendar' | 'onProgress'> & { calendarId?: string };
+  }
+  | {
+    kind: 'metrics';
+    symbol: string;
+    bars: StockData[];
+    interval: BarInterval;
+  }
+  | {
+    kind: 'stream';
+    // Identifies the detector kept between jobs, e.g. the symbol
+    key: string;
+    bars: StockData[];
+    config: AnomalyDetectionConfig;
+  }
+  | {
+    // Scores the configuration on the synthetic benchmark
+    kind: 'benchmark';
+    config: AnomalyDetectionConfig;
+  };
+
+export type DetectionJobOutput = AnomalyData[] | StockMetrics | EvaluationReport;
+
+export type DetectionJobResult<J extends DetectionJob> =
+  J extends { kind: 'metrics' } ? StockMetrics
+  : J extends { kind: 'benchmark' } ? EvaluationReport
+  : AnomalyData[];
+
+// Pool to worker
+export interface DetectionRequest {
+  id: number;
+  job: DetectionJob;
+}
+
+// Worker to pool: any number of progress messages, then a result or an error
+export type DetectionResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'result'; id: number; result: DetectionJobOutput }
+  | { type: 'error'; id: number; message: string };
+
+// A kept streaming detector, the configuration it runs with, the last bar it was fed and what it
+// has found so far
+interface KeptStream {
+  detector: StreamingDetector;
+  config: string;
+  last?: StockData;
+  anomalies: Map<string, AnomalyData>;
+}
+
+const keptStreams = new Map<string, KeptStream>();
+
+// Feeds the key's detector the bars after the last one it was fed. The detector starts again when
+// its last bar is no longer in the series unchanged, e.g. after a new split or dividend restated
+// the adjusted prices, or the configuration changed.
+const runStreamJob = (job: Extract<DetectionJob, { kind: 'stream' }>, onProgress: (fraction: number) => void): AnomalyData[] => {
+  const { key, bars } = job;
+  if (bars.length === 0) return [];
+  const config = JSON.stringify(job.config);
+  const existing = keptStreams.get(key);
+  const last = existing?.last;
+  const state: KeptStream = existing && last && existing.config === config
+    && bars.some(bar => bar.date === last.date && bar.close === last.close)
+    ? existing
+    : { detector: createDetector(job.config), config, anomalies: new Map() };
+  keptStreams.set(key, state);
+
+  const added = bars.filter(bar => !state.last || bar.date > state.last.date);
+  added.forEach((bar, i) => {
+    state.detector.update(bar).forEach(anomaly => state.anomalies.set(anomaly.id, anomaly));
+    state.last = bar;
+    onProgress((i + 1) / added.length);
+  });
+
+  // The range moves forward with each day, so anomalies before its first bar are dropped
+  return Array.from(state.anomalies.values())
+    .filter(anomaly => anomaly.date >= bars[0].date)
+    .sort((a, b) => b.score - a.score);
+};
+
+export const runDetectionJob = async (
+  job: DetectionJob,
+  onProgress: (fraction: number) => void = () => {}
+): Promise<DetectionJobOutput> => {
+  if (job.kind === 'metrics') {
+    const metrics = await fetchStockMetrics(job.symbol, job.bars, job.interval);
+    onProgress(1);
+    return metrics;
+  }
+  if (job.kind === 'benchmark') {
+    const report = getBenchmarkReport(job.config);
+    onProgress(1);
+    return report;
+  }
+  if (job.kind === 'stream') {
+    return runStreamJob(job, onProgress);
+  }
+  const { calendarId, ...options } = job.options;
+  return detectAnomalies(job.bars, job.config, {
+    ...options,
+    calendar: calendarId ? getTradingCalendar(calendarId) : undefined,
+    onProgress
+  });
+};
@@ -0,0 +1,216 @@
+import { getRegisteredDetectors } from '@/utils/anomalyDetection';
+import { DetectionJob, DetectionJobOutput, DetectionJobResult, DetectionRequest, DetectionResponse, runDetectionJob } from '@/utils/detectionJobs';
+import { getTradingCalendar, getTradingCalendars } from '@/utils/tradingCalendar';
+
+// Detection worker pool
+// Anomaly detection and metrics run in a pool of Web Workers so long series and large watchlists
+// do not block the page. Jobs wait in a queue until a worker is free. Detection cannot be
+// interrupted from outside, so cancelling a running job terminates its worker and a fresh one is
+// started for the next job. Jobs can ask to run on the same worker as earlier jobs with the same
+// affinity, so state a worker keeps between jobs is found again. Without Web Workers (outside a
+// browser) jobs run on the calling thread, as do jobs that need a detector or calendar the workers
+// do not have.
+
+export class DetectionCancelledError extends Error {
+  constructor() {
+    super('Detection was cancelled');
+    this.name = 'DetectionCancelledError';
+  }
+}
+
+export interface DetectionRunOptions {
+  // Aborting cancels the job, whether it is queued or running
+  signal?: AbortSignal;
+  // Fraction of the job done, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  // Jobs with the same affinity run on the same worker while it lasts
+  affinity?: string;
+}
+
+export interface DetectionPool {
+  run: <J extends DetectionJob>(job: J, options?: DetectionRunOptions) => Promise<DetectionJobResult<J>>;
+  terminate: () => void;
+}
+
+interface PoolJob {
+  id: number;
+  job: DetectionJob;
+  onProgress?: (fraction: number) => void;
+  affinity?: string;
+  resolve: (result: DetectionJobOutput) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+}
+
+// Leave a core for the page
+const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+// Workers only have the detectors and calendars the modules register when they load
+const moduleDetectors = new Map(getRegisteredDetectors().map(detector => [detector.id, detector]));
+const moduleCalendars = new Map(getTradingCalendars().map(calendar => [calendar.id, calendar]));
+
+// Whether the job enables a detector registered, replaced or unregistered at run time on the page,
+// or uses a calendar registered or replaced there, so a worker would run it differently
+const needsPageRegistrations = (job: DetectionJob): boolean => {
+  if (job.kind === 'metrics') return false;
+  const detectors = getRegisteredDetectors();
+  const changed = [
+    ...detectors.filter(detector => moduleDetectors.get(detector.id) !== detector),
+    ...Array.from(moduleDetectors.values()).filter(detector => !detectors.includes(detector))
+  ];
+  if (changed.some(detector => job.config[detector.id]?.enabled ?? detector.defaults.enabled)) return true;
+  const calendarId = job.kind === 'anomalies' ? job.options.calendarId : undefined;
+  if (!calendarId) return false;
+  const calendar = getTradingCalendar(calendarId);
+  return moduleCalendars.get(calendar.id) !== calendar;
+};
+
+const runOnCallingThread = async <J extends DetectionJob>(job: J, options: DetectionRunOptions): Promise<DetectionJobResult<J>> => {
+  if (options.signal?.aborted) {
+    throw new DetectionCancelledError();
+  }
+  return (await runDetectionJob(job, options.onProgress)) as DetectionJobResult<J>;
+};
+
+export const createDetectionPool = (size: number = getDefaultPoolSize()): DetectionPool => {
+  const workers: PoolWorker[] = [];
+  const queue: PoolJob[] = [];
+  const affinities = new Map<string, PoolWorker>();
+  let nextId = 1;
+
+  // A job with an affinity waits for its worker while that worker is busy; others take any free one
+  const findWorker = (job: PoolJob): PoolWorker | undefined => {
+    const bound = job.affinity ? affinities.get(job.affinity) : undefined;
+    if (bound && workers.includes(bound)) {
+      return bound.job === null ? bound : undefined;
+    }
+    let slot = workers.find(w => w.job === null);
+    if (!slot && workers.length < size) {
+      slot = startWorker();
+      workers.push(slot);
+    }
+    if (slot && job.affinity) {
+      affinities.set(job.affinity, slot);
+    }
+    return slot;
+  };
+
+  const dispatch = () => {
+    for (let i = 0; i < queue.length;) {
+      const slot = findWorker(queue[i]);
+      if (!slot) {
+        i++;
+        continue;
+      }
+      const [job] = queue.splice(i, 1);
+      slot.job = job;
+      const request: DetectionRequest = { id: job.id, job: job.job };
+      slot.worker.postMessage(request);
+    }
+  };
+
+  // Terminates a worker whose job was cancelled or that failed; the next job starts a new one
+  const discard = (slot: PoolWorker) => {
+    slot.worker.terminate();
+    workers.splice(workers.indexOf(slot), 1);
+    dispatch();
+  };
+
+  const startWorker = (): PoolWorker => {
+    const slot: PoolWorker = {
+      worker: new Worker(new URL('../workers/detection.worker.ts', import.meta.url), { type: 'module' }),
+      job: null
+    };
+    slot.worker.onmessage = (event: MessageEvent<DetectionResponse>) => {
+      const job = slot.job;
+      const response = event.data;
+      if (!job || response.id !== job.id) return;
+      if (response.type === 'progress') {
+        job.onProgress?.(response.fraction);
+        return;
+      }
+      slot.job = null;
+      dispatch();
+      if (response.type === 'result') {
+        job.resolve(response.result);
+      } else {
+        job.reject(new Error(response.message));
+      }
+    };
+    slot.worker.onerror = event => {
+      const job = slot.job;
+      discard(slot);
+      job?.reject(new Error(event.message || 'Detection worker failed'));
+    };
+    return slot;
+  };
+
+  const cancel = (job: PoolJob) => {
+    const queued = queue.indexOf(job);
+    if (queued >= 0) {
+      queue.splice(queued, 1);
+    } else {
+      const slot = workers.find(w => w.job === job);
+      if (!slot) return;
+      discard(slot);
+    }
+    job.reject(new DetectionCancelledError());
+  };
+
+  const run = <J extends DetectionJob>(job: J, options: DetectionRunOptions = {}): Promise<DetectionJobResult<J>> => {
+    if (typeof Worker === 'undefined' || needsPageRegistrations(job)) {
+      return runOnCallingThread(job, options);
+    }
+    const { signal, onProgress, affinity } = options;
+    return new Promise<DetectionJobResult<J>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DetectionCancelledError());
+        return;
+      }
+      const onAbort = () => cancel(poolJob);
+      const poolJob: PoolJob = {
+        id: nextId++,
+        job,
+        onProgress,
+        affinity,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as DetectionJobResult<J>);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(poolJob);
+      dispatch();
+    });
+  };
+
+  const terminate = () => {
+    queue.splice(0).forEach(job => job.reject(new DetectionCancelledError()));
+    affinities.clear();
+    workers.splice(0).forEach(slot => {
+      slot.worker.terminate();
+      slot.job?.reject(new DetectionCancelledError());
+    });
+  };
+
+  return { run, terminate };
+};
+
+let sharedPool: DetectionPool | null = null;
+
+// The pool every page shares, created on first use
+export const getDetectionPool = (): DetectionPool => {
+  sharedPool ??= createDetectionPool();
+  return sharedPool;
+};
@@ -0,0 +1,83 @@
+import { AnomalyDetectionConfig, AnomalyDetectionConfigOverrides } from '@/utils/anomalyDetection';
+import { getPresetConfig } from '@/utils/detectionSettings';
+
+// Detection profiles
+// Detection settings attached to a symbol or a sector, since how far from normal counts as an
+// anomaly depends on how the stock usually trades. A symbol is detected with its own profile, or
+// else its sector's, or else the default settings. A profile is made from a preset and keeps a copy
+// of its settings, so it stays as it was if the preset is changed or deleted. Profiles are kept in
+// local storage so they survive a reload.
+
+export type ProfileScope = 'symbol' | 'sector';
+
+export interface DetectionProfile {
+  scope: ProfileScope;
+  // The symbol, in upper case, or the sector name the profile applies to
+  target: string;
+  // Name of the preset the settings came from
+  preset: string;
+  overrides: AnomalyDetectionConfigOverrides;
+}
+
+export const PROFILE_SCOPE_LABELS: Record<ProfileScope, string> = {
+  symbol: 'Symbol',
+  sector: 'Sector'
+};
+
+const STORAGE_KEY = 'anomalyDetector_detectionProfiles';
+
+export const loadDetectionProfiles = (): DetectionProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DetectionProfile[]) : [];
+  } catch (error) {
+    console.error('Failed to load detection profiles:', error);
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store the profiles
+export const saveDetectionProfiles = (profiles: DetectionProfile[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    return true;
+  } catch (error) {
+    console.error('Failed to save detection profiles:', error);
+    return false;
+  }
+};
+
+const isProfileFor = (profile: DetectionProfile, scope: ProfileScope, target: string): boolean => {
+  return profile.scope === scope && profile.target === (scope === 'symbol' ? target.toUpperCase() : target);
+};
+
+// The symbol's own profile, or else its sector's; undefined when the default settings apply
+export const findDetectionProfile = (
+  profiles: DetectionProfile[],
+  symbol: string,
+  sector?: string
+): DetectionProfile | undefined => {
+  return profiles.find(profile => isProfileFor(profile, 'symbol', symbol))
+    ?? (sector ? profiles.find(profile => isProfileFor(profile, 'sector', sector)) : undefined);
+};
+
+export const getProfileConfig = (profile: DetectionProfile): AnomalyDetectionConfig => {
+  return getPresetConfig({ name: profile.preset, overrides: profile.overrides });
+};
+
+// The profiles with the given one added, replacing any other for the same symbol or sector
+export const setDetectionProfile = (profiles: DetectionProfile[], profile: DetectionProfile): DetectionProfile[] => {
+  const target = profile.scope === 'symbol' ? profile.target.toUpperCase() : profile.target;
+  return [
+    ...profiles.filter(existing => !isProfileFor(existing, profile.scope, target)),
+    { ...profile, target }
+  ];
+};
+
+export const removeDetectionProfile = (
+  profiles: DetectionProfile[],
+  scope: ProfileScope,
+  target: string
+): DetectionProfile[] => {
+  return profiles.filter(profile => !isProfileFor(profile, scope, target));
+};
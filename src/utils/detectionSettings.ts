@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import {
+  AnomalyDetectionConfig,
+  AnomalyDetectionConfigOverrides,
+  DetectorParamSpec,
+  createCustomConfig,
+  getRegisteredDetectors
+} from '@/utils/anomalyDetection';
+
+// Detection settings
+// The detection configuration the app runs with, and named presets of it. Only the settings that
+// differ from a detector's defaults are stored, so a detector keeps following its defaults for
+// everything it has not been tuned on, and settings of a detector that is no longer registered are
+// dropped when loaded. Settings are validated against the detectors' parameter specs and kept in
+// local storage so they survive a reload.
+
+const STORAGE_KEY = 'anomalyDetector_detectionConfig';
+const PRESETS_STORAGE_KEY = 'anomalyDetector_detectionPresets';
+
+// Every detector has a weight in the ensemble score as well as its own parameters
+export const WEIGHT_SPEC: DetectorParamSpec = { label: 'Weight', type: 'number', min: 0, max: 1, step: 0.05 };
+
+export interface DetectionPreset {
+  name: string;
+  overrides: AnomalyDetectionConfigOverrides;
+  // Built-in presets come with the app and cannot be replaced or deleted
+  builtIn?: boolean;
+}
+
+// Thresholds and contamination either side of the defaults: conservative flags fewer, stronger
+// anomalies and aggressive flags more
+export const BUILT_IN_PRESETS: DetectionPreset[] = [
+  { name: 'Default', overrides: {}, builtIn: true },
+  {
+    name: 'Conservative',
+    overrides: {
+      zscore: { threshold: 3 },
+      seasonalVolume: { threshold: 3.5 },
+      bollingerBands: { stdDev: 2.5 },
+      isolationForest: { contamination: 0.05 },
+      changePoint: { threshold: 6 }
+    },
+    builtIn: true
+  },
+  {
+    name: 'Aggressive',
+    overrides: {
+      zscore: { threshold: 2 },
+      seasonalVolume: { threshold: 2.5 },
+      bollingerBands: { stdDev: 1.8 },
+      isolationForest: { contamination: 0.15 },
+      changePoint: { threshold: 4 }
+    },
+    builtIn: true
+  }
+];
+
+const getParamSchema = (spec: DetectorParamSpec): z.ZodTypeAny => {
+  if (spec.type === 'boolean') {
+    return z.boolean({ invalid_type_error: `${spec.label} must be on or off` });
+  }
+  if (spec.type === 'select') {
+    const options = spec.options ?? [];
+    return z.string().refine(value => options.includes(value), `${spec.label} must be one of ${options.join(', ')}`);
+  }
+  let schema = z.number({ invalid_type_error: `${spec.label} must be a number` });
+  if (spec.min !== undefined) schema = schema.min(spec.min, `${spec.label} must be at least ${spec.min}`);
+  if (spec.max !== undefined) schema = schema.max(spec.max, `${spec.label} must be at most ${spec.max}`);
+  return schema;
+};
+
+// A check across two of a detector's parameters. Each parameter within its own bounds can still
+// give a pair the detector cannot run with.
+interface ParamRelation {
+  params: [string, string];
+  holds: (first: number, second: number) => boolean;
+  message: string;
+}
+
+const PARAM_RELATIONS: Record<string, ParamRelation[]> = {
+  zscore: [
+    { params: ['minPeriods', 'window'], holds: (minPeriods, window) => minPeriods <= window, message: 'Minimum periods must be at most the rolling window' }
+  ],
+  macd: [
+    { params: ['fastPeriod', 'slowPeriod'], holds: (fast, slow) => fast < slow, message: 'Fast period must be less than the slow period' }
+  ]
+};
+
+// A failed check marks both parameters, so both fields show it and leaving out both overrides
+// gives a valid pair again
+const checkParamRelations = (relations: ParamRelation[]) => (settings: Record<string, unknown>, context: z.RefinementCtx) => {
+  relations.forEach(({ params, holds, message }) => {
+    const [first, second] = params.map(param => settings[param]);
+    if (typeof first !== 'number' || typeof second !== 'number' || holds(first, second)) return;
+    params.forEach(param => context.addIssue({ code: z.ZodIssueCode.custom, path: [param], message }));
+  });
+};
+
+// Built from the registered detectors' parameter specs, so a detector registered later is
+// validated the same way
+export const getDetectionConfigSchema = () => {
+  return z.object(Object.fromEntries(getRegisteredDetectors().map(detector => [
+    detector.id,
+    z.object({
+      enabled: z.boolean(),
+      weight: getParamSchema(WEIGHT_SPEC),
+      ...Object.fromEntries(Object.entries(detector.schema).map(([param, spec]) => [param, getParamSchema(spec)]))
+    }).passthrough().superRefine(checkParamRelations(PARAM_RELATIONS[detector.id] ?? []))
+  ])));
+};
+
+// Error messages by detector id and parameter; empty when the configuration is valid
+export type DetectionConfigErrors = Record<string, Record<string, string>>;
+
+export const validateDetectionConfig = (config: AnomalyDetectionConfig): DetectionConfigErrors => {
+  const result = getDetectionConfigSchema().safeParse(config);
+  const errors: DetectionConfigErrors = {};
+  if (result.success) return errors;
+  result.error.issues.forEach(issue => {
+    const [detectorId, param] = issue.path.map(String);
+    if (!detectorId || !param) return;
+    errors[detectorId] = { ...errors[detectorId], [param]: errors[detectorId]?.[param] ?? issue.message };
+  });
+  return errors;
+};
+
+// The configuration with the overrides applied, leaving out any that are not valid
+export const toValidConfig = (overrides: AnomalyDetectionConfigOverrides): AnomalyDetectionConfig => {
+  const registered = new Set(getRegisteredDetectors().map(detector => detector.id));
+  const known = Object.fromEntries(Object.entries(overrides).filter(([id]) => registered.has(id)));
+  const errors = validateDetectionConfig(createCustomConfig(known));
+  return createCustomConfig(Object.fromEntries(Object.entries(known).map(([id, settings]) => [
+    id,
+    Object.fromEntries(Object.entries(settings).filter(([param]) => !errors[id]?.[param]))
+  ])));
+};
+
+export const getPresetConfig = (preset: DetectionPreset): AnomalyDetectionConfig => {
+  return toValidConfig(preset.overrides);
+};
+
+export const getConfigOverrides = (config: AnomalyDetectionConfig): AnomalyDetectionConfigOverrides => {
+  const overrides: AnomalyDetectionConfigOverrides = {};
+  getRegisteredDetectors().forEach(detector => {
+    const settings = config[detector.id];
+    if (!settings) return;
+    const changed = Object.entries(settings).filter(([param, value]) => detector.defaults[param] !== value);
+    if (changed.length > 0) {
+      overrides[detector.id] = Object.fromEntries(changed);
+    }
+  });
+  return overrides;
+};
+
+export const loadDetectionConfig = (): AnomalyDetectionConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return toValidConfig(stored ? (JSON.parse(stored) as AnomalyDetectionConfigOverrides) : {});
+  } catch (error) {
+    console.error('Failed to load detection settings:', error);
+    return createCustomConfig({});
+  }
+};
+
+// Returns false when the browser refuses to store the settings
+export const saveDetectionConfig = (config: AnomalyDetectionConfig): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getConfigOverrides(config)));
+    return true;
+  } catch (error) {
+    console.error('Failed to save detection settings:', error);
+    return false;
+  }
+};
+
+// Presets the user has saved; the built-in ones are not stored
+export const loadDetectionPresets = (): DetectionPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DetectionPreset[]) : [];
+  } catch (error) {
+    console.error('Failed to load detection presets:', error);
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store the presets
+export const saveDetectionPresets = (presets: DetectionPreset[]): boolean => {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+    return true;
+  } catch (error) {
+    console.error('Failed to save detection presets:', error);
+    return false;
+  }
+};
+
+export const createDetectionPreset = (name: string, config: AnomalyDetectionConfig): DetectionPreset => ({
+  name: name.trim(),
+  overrides: getConfigOverrides(config)
+});
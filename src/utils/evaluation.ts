@@ -0,0 +1,213 @@
+import { AnomalyData, AnomalyLabel, LabelledStockData, StockData } from '@/types';
+import {
+  AnomalyDetectionConfig,
+  detectAnomalies,
+  getDefaultConfig,
+  getRegisteredDetectors,
+  severityFromPValue
+} from '@/utils/anomalyDetection';
+import { createSeededRandom, randomNormal, RandomGenerator } from '@/utils/random';
+import { injectScenarios, scheduleScenarios, ScenarioId } from '@/utils/scenarios';
+import { getTradingDaysFrom } from '@/utils/tradingCalendar';
+
+// Evaluation harness for detector configurations
+// Runs detection over labelled series and scores each detector, and the ensemble, against the
+// known anomaly dates, so configuration changes can be measured instead of guessed.
+
+export const ENSEMBLE_ID = 'ensemble';
+
+export interface EvaluationOptions {
+  config?: AnomalyDetectionConfig;
+  // Bars after a label's last bar within which a detection still counts as catching it
+  maxLag?: number;
+  // Detections below this severity are ignored
+  minSeverity?: AnomalyData['severity'];
+}
+
+export interface DetectionMetrics {
+  detectorId: string;
+  flaggedBars: number;
+  truePositives: number;
+  falsePositives: number;
+  labels: number;
+  detectedLabels: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  // Mean bars from a label's first bar to its first detection; null when nothing was detected
+  meanLag: number | null;
+}
+
+export interface EvaluationReport {
+  ensemble: DetectionMetrics;
+  detectors: DetectionMetrics[];
+  series: number;
+  bars: number;
+  labels: number;
+  maxLag: number;
+  minSeverity: AnomalyData['severity'];
+}
+
+const DEFAULT_MAX_LAG = 3;
+
+const SEVERITY_RANK: Record<AnomalyData['severity'], number> = { low: 1, medium: 2, high: 3 };
+
+interface LabelWindow {
+  start: number;
+  end: number;
+}
+
+interface Tally {
+  flaggedBars: number;
+  truePositives: number;
+  labels: number;
+  lags: number[];
+}
+
+const emptyTally = (): Tally => ({ flaggedBars: 0, truePositives: 0, labels: 0, lags: [] });
+
+// Label dates that are not in the series (e.g. a weekend) cannot be matched and are skipped
+const toLabelWindows = (labels: AnomalyLabel[], data: StockData[], maxLag: number): LabelWindow[] => {
+  const indexByDate = new Map(data.map((d, i) => [d.date, i]));
+  return labels
+    .map(label => {
+      const start = indexByDate.get(label.date);
+      const end = indexByDate.get(label.endDate ?? label.date) ?? start;
+      return start === undefined ? null : { start, end: end + maxLag };
+    })
+    .filter((window): window is LabelWindow => window !== null);
+};
+
+const tallyDetections = (tally: Tally, flagged: Set<number>, windows: LabelWindow[]): void => {
+  const bars = Array.from(flagged).sort((a, b) => a - b);
+  tally.flaggedBars += bars.length;
+  tally.truePositives += bars.filter(bar => windows.some(w => bar >= w.start && bar <= w.end)).length;
+  tally.labels += windows.length;
+
+  windows.forEach(window => {
+    const first = bars.find(bar => bar >= window.start && bar <= window.end);
+    if (first !== undefined) {
+      tally.lags.push(first - window.start);
+    }
+  });
+};
+
+const toMetrics = (detectorId: string, tally: Tally): DetectionMetrics => {
+  const precision = tally.flaggedBars > 0 ? tally.truePositives / tally.flaggedBars : 0;
+  const recall = tally.labels > 0 ? tally.lags.length / tally.labels : 0;
+  return {
+    detectorId,
+    flaggedBars: tally.flaggedBars,
+    truePositives: tally.truePositives,
+    falsePositives: tally.flaggedBars - tally.truePositives,
+    labels: tally.labels,
+    detectedLabels: tally.lags.length,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    meanLag: tally.lags.length > 0 ? tally.lags.reduce((sum, lag) => sum + lag, 0) / tally.lags.length : null
+  };
+};
+
+export const evaluateDetection = (dataset: LabelledStockData[], options: EvaluationOptions = {}): EvaluationReport => {
+  const config = options.config ?? getDefaultConfig();
+  const maxLag = options.maxLag ?? DEFAULT_MAX_LAG;
+  const minSeverity = options.minSeverity ?? 'low';
+  const minRank = SEVERITY_RANK[minSeverity];
+
+  const detectorIds = getRegisteredDetectors()
+    .filter(detector => config[detector.id]?.enabled ?? detector.defaults.enabled)
+    .map(detector => detector.id);
+  const tallies = new Map<string, Tally>([ENSEMBLE_ID, ...detectorIds].map(id => [id, emptyTally()]));
+
+  dataset.forEach(series => {
+    const anomalies = detectAnomalies(series.data, config);
+    const indexByDate = new Map(series.data.map((d, i) => [d.date, i]));
+    const windows = toLabelWindows(series.labels, series.data, maxLag);
+
+    // Flagged bars per source; a detector is credited through its contribution to each anomaly
+    const flagged = new Map<string, Set<number>>(Array.from(tallies.keys()).map(id => [id, new Set<number>()]));
+    anomalies.forEach(anomaly => {
+      const bar = indexByDate.get(anomaly.date);
+      if (bar === undefined) return;
+      if (SEVERITY_RANK[anomaly.severity] >= minRank) {
+        flagged.get(ENSEMBLE_ID)!.add(bar);
+      }
+      anomaly.contributions?.forEach(contribution => {
+        if (SEVERITY_RANK[severityFromPValue(contribution.pValue)] >= minRank) {
+          flagged.get(contribution.detectorId)?.add(bar);
+        }
+      });
+    });
+
+    tallies.forEach((tally, id) => tallyDetections(tally, flagged.get(id)!, windows));
+  });
+
+  return {
+    ensemble: toMetrics(ENSEMBLE_ID, tallies.get(ENSEMBLE_ID)!),
+    detectors: detectorIds.map(id => toMetrics(id, tallies.get(id)!)),
+    series: dataset.length,
+    bars: dataset.reduce((sum, series) => sum + series.data.length, 0),
+    labels: tallies.get(ENSEMBLE_ID)!.labels,
+    maxLag,
+    minSeverity
+  };
+};
+
+// Synthetic benchmark
+// A seeded random walk with scenarios injected at known bars, so the same benchmark is produced
+// on every run and its labels are exact.
+const BENCHMARK_SEED = 20240101;
+const BENCHMARK_SYMBOLS = ['BENCH-A', 'BENCH-B', 'BENCH-C', 'BENCH-D'];
+const BENCHMARK_BARS = 500;
+const BENCHMARK_START = '2022-01-03';
+// Bars left clean at the start so rolling detectors have history to learn from
+const BENCHMARK_WARMUP = 80;
+// Clean bars between one event ending and the next starting
+const BENCHMARK_SPACING = 30;
+const BENCHMARK_JITTER = 35;
+
+const BENCHMARK_SCENARIOS: ScenarioId[] = ['earningsGap', 'flashCrash', 'volumeClimax', 'pumpAndDump', 'volatilityRegime'];
+
+const createBenchmarkSeries = (symbol: string, random: RandomGenerator): LabelledStockData => {
+  const dates = getTradingDaysFrom(BENCHMARK_START, BENCHMARK_BARS);
+
+  let close = 100;
+  const data = dates.map(date => {
+    const open = close * (1 + 0.003 * randomNormal(random));
+    close = close * Math.exp(0.0003 + 0.015 * randomNormal(random));
+    return {
+      symbol,
+      date,
+      open,
+      high: Math.max(open, close) * (1 + Math.abs(0.005 * randomNormal(random))),
+      low: Math.min(open, close) * (1 - Math.abs(0.005 * randomNormal(random))),
+      close,
+      volume: Math.floor(1000000 * Math.exp(0.25 * randomNormal(random))),
+      adjClose: close
+    };
+  });
+
+  const events = scheduleScenarios(dates, random, {
+    scenarios: BENCHMARK_SCENARIOS,
+    warmup: BENCHMARK_WARMUP,
+    spacing: BENCHMARK_SPACING,
+    jitter: BENCHMARK_JITTER
+  });
+  return injectScenarios(data, events);
+};
+
+export const createSyntheticBenchmark = (seed: number = BENCHMARK_SEED): LabelledStockData[] => {
+  const random = createSeededRandom(seed);
+  return BENCHMARK_SYMBOLS.map(symbol => createBenchmarkSeries(symbol, random));
+};
+
+// The benchmark is generated once per worker (or thread) and reused for every configuration scored on it
+let syntheticBenchmark: LabelledStockData[] | null = null;
+
+export const getBenchmarkReport = (config?: AnomalyDetectionConfig): EvaluationReport => {
+  if (!syntheticBenchmark) {
+    syntheticBenchmark = createSyntheticBenchmark();
+  }
+  return evaluateDetection(syntheticBenchmark, { config });
+};
@@ -0,0 +1,58 @@
+import { CorporateAction, MarketIndex, StockData, SymbolInfo } from '@/types';
+import { MarketDataError, MarketDataProvider } from '@/utils/marketDataProvider';
+
+// HTTP market data provider
+// Talks to a JSON API, such as a local stand-in server during development:
+//   GET /bars/:symbol?from=YYYY-MM-DD&to=YYYY-MM-DD     -> StockData[]
+//   GET /actions/:symbol?from=YYYY-MM-DD&to=YYYY-MM-DD  -> CorporateAction[]
+//   GET /symbols?q=query                               -> SymbolInfo[]
+//   GET /symbols/:symbol                               -> SymbolInfo (404 when unknown)
+//   GET /indices                                       -> MarketIndex[]
+
+const PROVIDER_ID = 'http';
+
+export const createHttpProvider = (baseUrl: string): MarketDataProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string, allowNotFound = false): Promise<T | null> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, { headers: { Accept: 'application/json' } });
+    } catch (error) {
+      throw new MarketDataError(`Could not reach ${root}: ${(error as Error).message}`, PROVIDER_ID);
+    }
+    if (allowNotFound && response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new MarketDataError(`${path} failed with status ${response.status}`, PROVIDER_ID);
+    }
+    return (await response.json()) as T;
+  };
+
+  const rangeParams = (from: Date, to: Date) => new URLSearchParams({
+    from: from.toISOString().split('T')[0],
+    to: to.toISOString().split('T')[0]
+  });
+
+  return {
+    id: PROVIDER_ID,
+    name: `HTTP (${root})`,
+    getBars: async (symbol, from, to, interval = '1d') => {
+      const params = rangeParams(from, to);
+      params.set('interval', interval);
+      const bars = await request<StockData[]>(`/bars/${encodeURIComponent(symbol)}?${params}`);
+      return bars ?? [];
+    },
+    getCorporateActions: async (symbol, from, to) => {
+      const actions = await request<CorporateAction[]>(`/actions/${encodeURIComponent(symbol)}?${rangeParams(from, to)}`);
+      return actions ?? [];
+    },
+    searchSymbols: async query => {
+      const symbols = await request<SymbolInfo[]>(`/symbols?${new URLSearchParams({ q: query })}`);
+      return symbols ?? [];
+    },
+    getSymbolInfo: symbol => request<SymbolInfo>(`/symbols/${encodeURIComponent(symbol)}`, true),
+    getIndices: async () => (await request<MarketIndex[]>('/indices')) ?? []
+  };
+};
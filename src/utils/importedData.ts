@@ -0,0 +1,79 @@
+import { StockData, SymbolInfo } from '@/types';
+import { isIntradayInterval } from '@/utils/barInterval';
+import { inferCorporateActions } from '@/utils/corporateActions';
+import { MarketDataError, MarketDataProvider, matchesSymbolQuery } from '@/utils/marketDataProvider';
+
+// Imported market data
+// Symbols imported from files sit in front of the app's provider: they are listed, searched and
+// charted like any other symbol, and an imported symbol takes precedence over the provider's own
+// data for it. Imports are kept in local storage so they survive a reload.
+
+export interface ImportedSymbol {
+  info: SymbolInfo;
+  data: StockData[];
+  fileName: string;
+  importedAt: string;
+}
+
+const STORAGE_KEY = 'anomalyDetector_importedSymbols';
+
+export const loadImportedSymbols = (): ImportedSymbol[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ImportedSymbol[]) : [];
+  } catch (error) {
+    console.error('Failed to load imported data:', error);
+    return [];
+  }
+};
+
+// Returns false when the browser refuses to store the data, e.g. because it is too large
+export const saveImportedSymbols = (imports: ImportedSymbol[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(imports));
+    return true;
+  } catch (error) {
+    console.error('Failed to save imported data:', error);
+    return false;
+  }
+};
+
+export const withImportedData = (base: MarketDataProvider, imports: ImportedSymbol[]): MarketDataProvider => {
+  if (imports.length === 0) {
+    return base;
+  }
+
+  const bySymbol = new Map(imports.map(imported => [imported.info.symbol, imported]));
+
+  return {
+    ...base,
+    getBars: async (symbol, from, to, interval = '1d') => {
+      const imported = bySymbol.get(symbol.toUpperCase());
+      if (!imported) {
+        return base.getBars(symbol, from, to, interval);
+      }
+      if (isIntradayInterval(interval)) {
+        throw new MarketDataError(`${imported.info.symbol} was imported with daily bars only`, base.id);
+      }
+      const fromKey = from.toISOString().split('T')[0];
+      const toKey = to.toISOString().split('T')[0];
+      return imported.data.filter(bar => bar.date >= fromKey && bar.date <= toKey);
+    },
+    // Files have no list of actions, so they are recovered from the adjusted close when it was imported
+    getCorporateActions: async (symbol, from, to) => {
+      const imported = bySymbol.get(symbol.toUpperCase());
+      if (!imported) {
+        return base.getCorporateActions(symbol, from, to);
+      }
+      const fromKey = from.toISOString().split('T')[0];
+      const toKey = to.toISOString().split('T')[0];
+      return inferCorporateActions(imported.data).filter(action => action.date >= fromKey && action.date <= toKey);
+    },
+    searchSymbols: async (query) => {
+      const matches = imports.map(imported => imported.info).filter(info => matchesSymbolQuery(info, query));
+      const others = (await base.searchSymbols(query)).filter(info => !bySymbol.has(info.symbol));
+      return [...matches, ...others];
+    },
+    getSymbolInfo: async (symbol) => bySymbol.get(symbol.toUpperCase())?.info ?? base.getSymbolInfo(symbol)
+  };
+};
@@ -0,0 +1,142 @@
+import { createSeededRandom, randomInt, RandomGenerator } from '@/utils/random';
+
+// Isolation Forest (Liu, Ting & Zhou, 2008)
+// Anomalies are few and different, so random axis-aligned splits isolate them in fewer steps.
+// Each tree is grown on a random subsample; a point's score comes from its average path length.
+
+export interface IsolationForestOptions {
+  numTrees: number;
+  sampleSize: number;
+  seed: number;
+}
+
+type IsolationTreeNode =
+  | { kind: 'leaf'; size: number }
+  | { kind: 'split'; feature: number; value: number; left: IsolationTreeNode; right: IsolationTreeNode };
+
+export interface IsolationForest {
+  trees: IsolationTreeNode[];
+  sampleSize: number;
+}
+
+export interface StandardizedFeatures {
+  features: number[][];
+  means: number[];
+  stdDevs: number[];
+}
+
+const EULER_GAMMA = 0.5772156649;
+
+// Average path length of an unsuccessful binary search tree lookup among n points
+export const averagePathLength = (n: number): number => {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  const harmonic = Math.log(n - 1) + EULER_GAMMA;
+  return 2 * harmonic - (2 * (n - 1)) / n;
+};
+
+// Scale each feature column to zero mean and unit variance so no single feature dominates
+export const standardizeFeatures = (features: number[][]): StandardizedFeatures => {
+  if (features.length === 0) {
+    return { features: [], means: [], stdDevs: [] };
+  }
+
+  const dimensions = features[0].length;
+  const means: number[] = [];
+  const stdDevs: number[] = [];
+
+  for (let j = 0; j < dimensions; j++) {
+    const column = features.map(row => row[j]);
+    const mean = column.reduce((sum, val) => sum + val, 0) / column.length;
+    const variance = column.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / column.length;
+    means.push(mean);
+    // Constant columns are left centred rather than divided by zero
+    stdDevs.push(Math.sqrt(variance) || 1);
+  }
+
+  return {
+    features: features.map(row => row.map((val, j) => (val - means[j]) / stdDevs[j])),
+    means,
+    stdDevs
+  };
+};
+
+const buildTree = (
+  points: number[][],
+  depth: number,
+  heightLimit: number,
+  random: RandomGenerator
+): IsolationTreeNode => {
+  if (depth >= heightLimit || points.length <= 1) {
+    return { kind: 'leaf', size: points.length };
+  }
+
+  // Only split on features that still vary within this node
+  const dimensions = points[0].length;
+  const candidates: { feature: number; min: number; max: number }[] = [];
+  for (let feature = 0; feature < dimensions; feature++) {
+    let min = Infinity;
+    let max = -Infinity;
+    points.forEach(point => {
+      min = Math.min(min, point[feature]);
+      max = Math.max(max, point[feature]);
+    });
+    if (max > min) {
+      candidates.push({ feature, min, max });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return { kind: 'leaf', size: points.length };
+  }
+
+  const { feature, min, max } = candidates[randomInt(random, candidates.length)];
+  const value = min + random() * (max - min);
+
+  return {
+    kind: 'split',
+    feature,
+    value,
+    left: buildTree(points.filter(point => point[feature] < value), depth + 1, heightLimit, random),
+    right: buildTree(points.filter(point => point[feature] >= value), depth + 1, heightLimit, random)
+  };
+};
+
+const pathLength = (point: number[], node: IsolationTreeNode, depth: number): number => {
+  if (node.kind === 'leaf') {
+    // Unresolved leaves contribute the expected remaining depth of a tree of that size
+    return depth + averagePathLength(node.size);
+  }
+  return pathLength(point, point[node.feature] < node.value ? node.left : node.right, depth + 1);
+};
+
+// Draw a subsample without replacement (partial Fisher-Yates shuffle)
+const subsample = (points: number[][], size: number, random: RandomGenerator): number[][] => {
+  const indices = points.map((_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + randomInt(random, indices.length - i);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).map(i => points[i]);
+};
+
+export const fitIsolationForest = (features: number[][], options: IsolationForestOptions): IsolationForest => {
+  const random = createSeededRandom(options.seed);
+  const sampleSize = Math.max(1, Math.min(options.sampleSize, features.length));
+  const heightLimit = Math.ceil(Math.log2(Math.max(sampleSize, 2)));
+
+  const trees: IsolationTreeNode[] = [];
+  for (let t = 0; t < options.numTrees; t++) {
+    trees.push(buildTree(subsample(features, sampleSize, random), 0, heightLimit, random));
+  }
+
+  return { trees, sampleSize };
+};
+
+// Anomaly score s(x) = 2^(-E[h(x)] / c(n)): close to 1 is anomalous, well below 0.5 is normal
+export const scoreIsolationForest = (forest: IsolationForest, point: number[]): number => {
+  if (forest.trees.length === 0) return 0;
+  const meanPath = forest.trees.reduce((sum, tree) => sum + pathLength(point, tree, 0), 0) / forest.trees.length;
+  const normalizer = averagePathLength(forest.sampleSize);
+  return normalizer > 0 ? Math.pow(2, -meanPath / normalizer) : 0;
+};
@@ -0,0 +1,228 @@
+import { BarInterval, StockData } from '@/types';
+import { getBarDay, getBarTime, getIntervalMinutes, isIntradayInterval, resampleBars } from '@/utils/barInterval';
+import { getSessionBounds, getTradingCalendar } from '@/utils/tradingCalendar';
+
+// Live quote feed
+// Streams trades and bars over a WebSocket. Each subscription is answered with a snapshot of the
+// symbol's bars so far in the current session, then trades and bar updates as they happen: a bar
+// is sent again with every trade and once more, final, when it closes. A dropped connection is
+// reopened with exponential backoff and the subscriptions are restored, so each snapshot replaces
+// what a listener had before.
+
+export interface LiveTrade {
+  price: number;
+  size: number;
+  // Exchange local time, as intraday bar dates
+  time: string;
+}
+
+// A bar of the feed (one-minute bars from the simulated feed) as it stands
+export interface LiveBar {
+  bar: StockData;
+  interval: BarInterval;
+  // The bar has closed and will not change
+  final: boolean;
+}
+
+// Client to server
+export type LiveFeedRequest =
+  | { type: 'subscribe'; symbols: string[] }
+  | { type: 'unsubscribe'; symbols: string[] };
+
+// Server to client
+export type LiveFeedMessage =
+  | { type: 'snapshot'; symbol: string; bars: LiveBar[] }
+  | { type: 'trade'; symbol: string; trade: LiveTrade }
+  | { type: 'bar'; symbol: string; bar: LiveBar }
+  | { type: 'error'; symbol?: string; message: string };
+
+export type LiveFeedStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export type LiveFeedListener = (message: LiveFeedMessage) => void;
+
+export interface LiveFeed {
+  url: string;
+  // Calls the listener with the symbol's messages until the returned function is called
+  subscribe: (symbol: string, listener: LiveFeedListener) => () => void;
+  getStatus: () => LiveFeedStatus;
+  onStatusChange: (listener: (status: LiveFeedStatus) => void) => () => void;
+}
+
+export interface LiveFeedOptions {
+  // Delay before the first reconnect attempt, doubled after each failed attempt up to maxDelay
+  initialDelay?: number;
+  maxDelay?: number;
+}
+
+// Half to all of the backed-off delay, so clients dropped together do not reconnect together
+export const getReconnectDelay = (attempt: number, initialDelay: number, maxDelay: number): number => {
+  return Math.min(maxDelay, initialDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+};
+
+// Connects on the first subscription and disconnects after the last one ends
+export const createLiveFeed = (url: string, options: LiveFeedOptions = {}): LiveFeed => {
+  const { initialDelay = 1000, maxDelay = 30000 } = options;
+  const listeners = new Map<string, Set<LiveFeedListener>>();
+  const statusListeners = new Set<(status: LiveFeedStatus) => void>();
+  let socket: WebSocket | null = null;
+  let status: LiveFeedStatus = 'idle';
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (next: LiveFeedStatus) => {
+    if (next === status) return;
+    status = next;
+    statusListeners.forEach(listener => listener(next));
+  };
+
+  const send = (request: LiveFeedRequest) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(request));
+    }
+  };
+
+  const connect = () => {
+    retryTimer = undefined;
+    setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      setStatus('open');
+      send({ type: 'subscribe', symbols: Array.from(listeners.keys()) });
+    };
+    ws.onmessage = (event: MessageEvent<string>) => {
+      let message: LiveFeedMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'error' && !message.symbol) {
+        console.warn(`Live feed: ${message.message}`);
+        return;
+      }
+      if (message.symbol) {
+        listeners.get(message.symbol)?.forEach(listener => listener(message));
+      }
+    };
+    ws.onclose = () => {
+      // Closed on purpose when the last subscription ended
+      if (socket !== ws) return;
+      socket = null;
+      setStatus('reconnecting');
+      retryTimer = setTimeout(connect, getReconnectDelay(attempt++, initialDelay, maxDelay));
+    };
+  };
+
+  const disconnect = () => {
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    attempt = 0;
+    setStatus('idle');
+  };
+
+  const subscribe = (symbol: string, listener: LiveFeedListener) => {
+    const key = symbol.toUpperCase();
+    let symbolListeners = listeners.get(key);
+    if (!symbolListeners) {
+      symbolListeners = new Set();
+      listeners.set(key, symbolListeners);
+      send({ type: 'subscribe', symbols: [key] });
+    }
+    symbolListeners.add(listener);
+    if (!socket && retryTimer === undefined) {
+      connect();
+    }
+
+    const subscribed = symbolListeners;
+    return () => {
+      subscribed.delete(listener);
+      if (subscribed.size > 0 || listeners.get(key) !== subscribed) return;
+      listeners.delete(key);
+      send({ type: 'unsubscribe', symbols: [key] });
+      if (listeners.size === 0) {
+        disconnect();
+      }
+    };
+  };
+
+  return {
+    url,
+    subscribe,
+    getStatus: () => status,
+    onStatusChange: listener => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    }
+  };
+};
+
+let configuredFeed: LiveFeed | null | undefined;
+
+// Set at build time with VITE_LIVE_FEED_URL, e.g. ws://localhost:8788 for the mock feed server
+// (npm run feed); without it there are no live updates
+export const getConfiguredLiveFeed = (): LiveFeed | null => {
+  if (configuredFeed === undefined) {
+    const url = import.meta.env.VITE_LIVE_FEED_URL;
+    configuredFeed = url ? createLiveFeed(url) : null;
+  }
+  return configuredFeed;
+};
+
+// A symbol's live bars with an update applied: it replaces the bar with the same date or follows the last one
+export const applyLiveBar = (bars: LiveBar[], update: LiveBar): LiveBar[] => {
+  const last = bars[bars.length - 1];
+  if (!last || update.bar.date > last.bar.date) {
+    return [...bars, update];
+  }
+  return bars.map(live => (live.bar.date === update.bar.date ? update : live));
+};
+
+// Where a bar's period ends: the next bar's start, or the session close
+const getBarEnd = (date: string, interval: BarInterval, calendar = getTradingCalendar()): number => {
+  const close = getSessionBounds(getBarDay(date), calendar).close;
+  return isIntradayInterval(interval)
+    ? Math.min(getBarTime(date) + getIntervalMinutes(interval) * 60000, close)
+    : close;
+};
+
+// Live bars at a series' interval, each final once its whole period has closed. A feed coarser
+// than the interval cannot be shown at it and gives no bars.
+export const resampleLiveBars = (live: LiveBar[], interval: BarInterval, calendar = getTradingCalendar()): LiveBar[] => {
+  if (live.length === 0 || getIntervalMinutes(live[0].interval) > getIntervalMinutes(interval)) {
+    return [];
+  }
+  if (live[0].interval === interval) {
+    return live;
+  }
+
+  const bars = resampleBars(live.map(({ bar }) => bar), interval, calendar);
+  let cursor = 0;
+  return bars.map((bar, i) => {
+    const next = bars[i + 1];
+    while (cursor + 1 < live.length && (!next || live[cursor + 1].bar.date < next.date)) {
+      cursor++;
+    }
+    const last = live[cursor];
+    const closed = next !== undefined || getBarEnd(last.bar.date, last.interval, calendar) >= getBarEnd(bar.date, interval, calendar);
+    return { bar, interval, final: last.final && closed };
+  });
+};
+
+// The series with live bars in place of its bars from the first live bar on. Live bars from
+// before the series starts are left out.
+export const mergeLiveBars = (series: StockData[], live: LiveBar[]): StockData[] => {
+  const start = series[0]?.date ?? '';
+  const bars = live.filter(({ bar }) => bar.date >= start).map(({ bar }) => bar);
+  if (bars.length === 0) {
+    return series;
+  }
+  return [...series.filter(bar => bar.date < bars[0].date), ...bars];
+};
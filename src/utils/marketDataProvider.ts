@@ -0,0 +1,33 @@
+import { BarInterval, CorporateAction, MarketIndex, StockData, SymbolInfo } from '@/types';
+
+// Market data sources
+// Components never talk to a data source directly; they go through a MarketDataProvider chosen
+// once for the whole app, so every page shows data from the same place.
+
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  // Bars for the symbol over the trading days between the two dates, oldest first. Daily unless
+  // an intraday interval is given; providers without intraday data throw a MarketDataError.
+  getBars: (symbol: string, from: Date, to: Date, interval?: BarInterval) => Promise<StockData[]>;
+  // Splits and dividends with ex-dates between the two dates, oldest first
+  getCorporateActions: (symbol: string, from: Date, to: Date) => Promise<CorporateAction[]>;
+  // Symbols matching the query by ticker or name; an empty query lists every symbol
+  searchSymbols: (query: string) => Promise<SymbolInfo[]>;
+  // Null when the provider does not know the symbol
+  getSymbolInfo: (symbol: string) => Promise<SymbolInfo | null>;
+  getIndices: () => Promise<MarketIndex[]>;
+}
+
+export class MarketDataError extends Error {
+  constructor(message: string, public readonly providerId: string) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+// Matching used by providers that search an in-memory symbol list
+export const matchesSymbolQuery = (info: SymbolInfo, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  return needle === '' || info.symbol.toLowerCase().includes(needle) || info.name.toLowerCase().includes(needle);
+};
@@ -0,0 +1,35 @@
+import { createCsvProvider } from '@/utils/csvProvider';
+import { createHttpProvider } from '@/utils/httpProvider';
+import { MarketDataProvider } from '@/utils/marketDataProvider';
+import { mockMarketDataProvider } from '@/utils/stockData';
+
+// Selection of the app's market data provider
+
+export type MarketDataSourceType = 'mock' | 'csv' | 'http';
+
+export interface MarketDataSourceConfig {
+  type: MarketDataSourceType;
+  // Where the csv and http providers load from
+  baseUrl?: string;
+}
+
+export const createMarketDataProvider = (config: MarketDataSourceConfig): MarketDataProvider => {
+  switch (config.type) {
+    case 'csv':
+      return createCsvProvider({ baseUrl: config.baseUrl ?? '/data' });
+    case 'http':
+      return createHttpProvider(config.baseUrl ?? 'http://localhost:8787');
+    default:
+      return mockMarketDataProvider;
+  }
+};
+
+// Chosen at build time, e.g. VITE_MARKET_DATA_PROVIDER=http with
+// VITE_MARKET_DATA_URL=http://localhost:8787; simulated data is used otherwise
+export const getConfiguredSource = (): MarketDataSourceConfig => {
+  const type = import.meta.env.VITE_MARKET_DATA_PROVIDER;
+  return {
+    type: type === 'csv' || type === 'http' ? type : 'mock',
+    baseUrl: import.meta.env.VITE_MARKET_DATA_URL || undefined
+  };
+};
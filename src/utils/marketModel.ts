@@ -0,0 +1,301 @@
+import { CorporateAction, StockData } from '@/types';
+import { createSeededRandom, hashString, randomNormal, RandomGenerator } from '@/utils/random';
+import { formatExchangeTime, getEarlyClose, getTradingCalendar, getTradingDaysPerYear, TradingCalendar } from '@/utils/tradingCalendar';
+
+// Price model for mock market data
+// Geometric Brownian motion with Heston-style stochastic variance and Merton jumps. Each symbol
+// has its own drift, volatility and jump profile, and its path is driven by a generator seeded
+// from the symbol, so the same symbol always produces the same series. The path is the adjusted
+// series; splits and dividends are scheduled separately and applied on top to give traded prices.
+
+export interface SymbolProfile {
+  // Adjusted close on REFERENCE_DATE; the simulated path is scaled to pass through it
+  referencePrice: number;
+  // Annualised expected return
+  drift: number;
+  // Long-run annualised volatility
+  volatility: number;
+  // Speed at which variance reverts to its long-run level
+  meanReversion: number;
+  // Volatility of variance
+  volOfVol: number;
+  // Correlation between price and variance shocks; negative gives the leverage effect
+  correlation: number;
+  // Expected jumps per year, and the mean and spread of a jump's log size
+  jumpIntensity: number;
+  jumpMean: number;
+  jumpStdDev: number;
+  averageVolume: number;
+  // Annual cash dividend as a fraction of the price, paid quarterly
+  dividendYield: number;
+}
+
+export const REFERENCE_DATE = '2024-01-02';
+
+// Early closes trade for about half a session, on thin volume
+const EARLY_CLOSE_VOLUME = 0.5;
+
+// Volume of the first and last minute relative to the intraday profile: the opening and closing
+// auctions concentrate orders there
+const OPENING_AUCTION_VOLUME = 4;
+const CLOSING_AUCTION_VOLUME = 5;
+
+const DEFAULT_PROFILE: SymbolProfile = {
+  referencePrice: 100,
+  drift: 0.08,
+  volatility: 0.3,
+  meanReversion: 3,
+  volOfVol: 0.5,
+  correlation: -0.6,
+  jumpIntensity: 3,
+  jumpMean: -0.01,
+  jumpStdDev: 0.04,
+  averageVolume: 5000000,
+  dividendYield: 0
+};
+
+// Rough characteristics of the demo symbols
+const SYMBOL_PROFILES: Record<string, Partial<SymbolProfile>> = {
+  AAPL: { referencePrice: 185, drift: 0.18, volatility: 0.28, averageVolume: 60000000, dividendYield: 0.005 },
+  MSFT: { referencePrice: 370, drift: 0.16, volatility: 0.26, averageVolume: 25000000, dividendYield: 0.008 },
+  AMZN: { referencePrice: 150, drift: 0.18, volatility: 0.34, averageVolume: 45000000 },
+  GOOGL: { referencePrice: 138, drift: 0.15, volatility: 0.29, averageVolume: 30000000 },
+  TSLA: { referencePrice: 250, drift: 0.25, volatility: 0.6, volOfVol: 0.9, jumpIntensity: 6, jumpStdDev: 0.07, averageVolume: 100000000 },
+  META: { referencePrice: 345, drift: 0.15, volatility: 0.38, jumpIntensity: 4, averageVolume: 20000000 },
+  NVDA: { referencePrice: 48, drift: 0.35, volatility: 0.5, volOfVol: 0.8, jumpIntensity: 5, averageVolume: 50000000 },
+  JPM: { referencePrice: 170, drift: 0.1, volatility: 0.25, averageVolume: 10000000, dividendYield: 0.025 },
+  V: { referencePrice: 260, drift: 0.13, volatility: 0.22, averageVolume: 7000000, dividendYield: 0.008 },
+  WMT: { referencePrice: 52, drift: 0.08, volatility: 0.18, jumpIntensity: 1, averageVolume: 8000000, dividendYield: 0.015 },
+  JNJ: { referencePrice: 157, drift: 0.06, volatility: 0.17, jumpIntensity: 1, averageVolume: 7000000, dividendYield: 0.029 },
+  PFE: { referencePrice: 29, drift: 0.04, volatility: 0.22, averageVolume: 30000000, dividendYield: 0.05 },
+  XOM: { referencePrice: 102, drift: 0.06, volatility: 0.27, averageVolume: 18000000, dividendYield: 0.035 },
+  CVX: { referencePrice: 150, drift: 0.06, volatility: 0.28, averageVolume: 9000000, dividendYield: 0.04 },
+  SPY: { referencePrice: 472, drift: 0.09, volatility: 0.16, volOfVol: 0.6, jumpIntensity: 1, jumpStdDev: 0.03, averageVolume: 80000000, dividendYield: 0.014 },
+  QQQ: { referencePrice: 402, drift: 0.13, volatility: 0.21, volOfVol: 0.6, jumpIntensity: 1, jumpStdDev: 0.03, averageVolume: 45000000, dividendYield: 0.006 },
+  IWM: { referencePrice: 198, drift: 0.07, volatility: 0.22, volOfVol: 0.6, jumpIntensity: 1, jumpStdDev: 0.03, averageVolume: 30000000, dividendYield: 0.012 },
+  VTI: { referencePrice: 237, drift: 0.09, volatility: 0.16, volOfVol: 0.6, jumpIntensity: 1, jumpStdDev: 0.03, averageVolume: 4000000, dividendYield: 0.014 }
+};
+
+// Stock splits of the demo symbols since 2000, as [ex-date, new shares per old share]
+const SYMBOL_SPLITS: Record<string, [string, number][]> = {
+  AAPL: [['2000-06-21', 2], ['2005-02-28', 2], ['2014-06-09', 7], ['2020-08-31', 4]],
+  MSFT: [['2003-02-18', 2]],
+  AMZN: [['2022-06-06', 20]],
+  GOOGL: [['2022-07-18', 20]],
+  TSLA: [['2020-08-31', 5], ['2022-08-25', 3]],
+  NVDA: [['2000-06-27', 2], ['2001-09-17', 2], ['2006-04-07', 2], ['2007-09-11', 1.5], ['2021-07-20', 4], ['2024-06-10', 10]],
+  V: [['2015-03-19', 4]],
+  WMT: [['2024-02-26', 3]],
+  JNJ: [['2001-06-13', 2]],
+  XOM: [['2001-07-19', 2]],
+  CVX: [['2004-09-13', 2]]
+};
+
+// Quarterly dividends go ex on the first trading day from the 10th of these months
+const DIVIDEND_MONTHS = ['02', '05', '08', '11'];
+const DIVIDEND_DAY = '10';
+
+// Unknown symbols get a profile derived from their name, so they are still stable
+const deriveProfile = (symbol: string): SymbolProfile => {
+  const random = createSeededRandom(hashString(symbol));
+  return {
+    ...DEFAULT_PROFILE,
+    referencePrice: 10 + random() * 190,
+    drift: 0.02 + random() * 0.12,
+    volatility: 0.2 + random() * 0.3,
+    averageVolume: Math.floor(1000000 + random() * 20000000)
+  };
+};
+
+export const getSymbolProfile = (symbol: string): SymbolProfile => {
+  const known = SYMBOL_PROFILES[symbol.toUpperCase()];
+  return known ? { ...DEFAULT_PROFILE, ...known } : deriveProfile(symbol);
+};
+
+// Poisson sample by inversion; intensities per bar are small so this terminates quickly
+const randomPoisson = (random: RandomGenerator, mean: number): number => {
+  let count = 0;
+  let p = Math.exp(-mean);
+  let cumulative = p;
+  const u = random();
+  while (u > cumulative && count < 10) {
+    count++;
+    p *= mean / count;
+    cumulative += p;
+  }
+  return count;
+};
+
+// Simulate one bar per trading date; prices are relative until scaled with scaleToReference.
+// Each bar is one session of the calendar's year, so annual parameters scale with its length.
+export const simulateBars = (
+  symbol: string,
+  dates: string[],
+  profile: SymbolProfile,
+  random: RandomGenerator,
+  calendar: TradingCalendar = getTradingCalendar()
+): StockData[] => {
+  const longRunVariance = profile.volatility * profile.volatility;
+  const jumpCompensation = profile.jumpIntensity * (Math.exp(profile.jumpMean + profile.jumpStdDev ** 2 / 2) - 1);
+  let variance = longRunVariance;
+  let close = 100;
+
+  return dates.map(date => {
+    const dt = 1 / getTradingDaysPerYear(Number(date.slice(0, 4)), calendar);
+    const z1 = randomNormal(random);
+    const z2 = profile.correlation * z1 + Math.sqrt(1 - profile.correlation ** 2) * randomNormal(random);
+    const dailyVol = Math.sqrt(variance * dt);
+
+    // Jump-compensated GBM step, so jumps do not change the expected return
+    let logReturn = (profile.drift - jumpCompensation - variance / 2) * dt + dailyVol * z1;
+    const jumps = randomPoisson(random, profile.jumpIntensity * dt);
+    for (let j = 0; j < jumps; j++) {
+      logReturn += profile.jumpMean + profile.jumpStdDev * randomNormal(random);
+    }
+
+    // Part of each move happens overnight, so the open gaps from the previous close
+    const previousClose = close;
+    const open = previousClose * Math.exp(0.3 * logReturn + 0.2 * dailyVol * randomNormal(random));
+    close = previousClose * Math.exp(logReturn);
+    const high = Math.max(open, close) * Math.exp(Math.abs(0.5 * dailyVol * randomNormal(random)));
+    const low = Math.min(open, close) * Math.exp(-Math.abs(0.5 * dailyVol * randomNormal(random)));
+
+    // Volume rises with volatility and with the size of the day's move
+    const volumeFactor = Math.sqrt(variance / longRunVariance) * Math.exp(0.4 * (Math.abs(z1) - 0.8) + 0.25 * randomNormal(random));
+    const sessionVolume = getEarlyClose(date, calendar) ? EARLY_CLOSE_VOLUME : 1;
+    const volume = Math.floor(profile.averageVolume * volumeFactor * sessionVolume * (jumps > 0 ? 2 : 1));
+
+    // A small floor keeps the variance process positive
+    variance = Math.max(
+      variance + profile.meanReversion * (longRunVariance - variance) * dt + profile.volOfVol * Math.sqrt(variance * dt) * z2,
+      0.0001
+    );
+
+    return { symbol, date, open, high, low, close, volume, adjClose: close };
+  });
+};
+
+// Scale a path so it closes at the reference price on the reference date, or on the last bar
+// before it; returns are unchanged
+export const scaleToReference = (bars: StockData[], profile: SymbolProfile): StockData[] => {
+  const after = bars.findIndex(bar => bar.date > REFERENCE_DATE);
+  const anchor = bars[(after < 0 ? bars.length : after) - 1] ?? bars[0];
+  if (!anchor) return bars;
+
+  const factor = profile.referencePrice / anchor.close;
+  return bars.map(bar => ({
+    ...bar,
+    open: bar.open * factor,
+    high: bar.high * factor,
+    low: bar.low * factor,
+    close: bar.close * factor,
+    adjClose: bar.adjClose * factor
+  }));
+};
+
+// Splits and quarterly dividends over the bars of an adjusted path, dated on trading days.
+// Dividends are a quarter of the yield in traded prices, rounded to the cent.
+export const scheduleCorporateActions = (symbol: string, bars: StockData[], profile: SymbolProfile): CorporateAction[] => {
+  const firstBarFrom = (date: string) => bars.findIndex(bar => bar.date >= date);
+  const splits: CorporateAction[] = (SYMBOL_SPLITS[symbol.toUpperCase()] ?? [])
+    .map(([date, ratio]) => ({ bar: firstBarFrom(date), ratio }))
+    .filter(({ bar }) => bar > 0)
+    .map(({ bar, ratio }) => ({ symbol, date: bars[bar].date, type: 'split' as const, value: ratio }));
+
+  const dividends: CorporateAction[] = [];
+  if (profile.dividendYield > 0 && bars.length > 0) {
+    const firstYear = Number(bars[0].date.slice(0, 4));
+    const lastYear = Number(bars[bars.length - 1].date.slice(0, 4));
+    for (let year = firstYear; year <= lastYear; year++) {
+      DIVIDEND_MONTHS.forEach(month => {
+        const bar = firstBarFrom(`${year}-${month}-${DIVIDEND_DAY}`);
+        if (bar <= 0) return;
+        // Traded price of the last bar before the ex-date: later splits have not happened yet
+        const splitFactor = splits
+          .filter(split => split.date > bars[bar].date)
+          .reduce((product, split) => product * split.value, 1);
+        const amount = Math.round(bars[bar - 1].close * splitFactor * profile.dividendYield / 4 * 100) / 100;
+        if (amount > 0) {
+          dividends.push({ symbol, date: bars[bar].date, type: 'dividend', value: amount });
+        }
+      });
+    }
+  }
+
+  return [...splits, ...dividends].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Intraday activity is U-shaped: busy after the open, quiet at midday and rising into the close
+const intradayActivity = (minute: number, minutes: number): number => {
+  return 1 + 2.5 * Math.exp(-minute / 20) + 1.5 * Math.exp(-(minutes - 1 - minute) / 15);
+};
+
+// Split a daily bar into one-minute bars over its session: a Brownian bridge from the day's open
+// to its close, with volatility and volume following the intraday activity profile. The path is
+// fitted inside the day's range and touches its high and low, so the minute bars add up to the
+// daily bar.
+export const simulateSession = (
+  daily: StockData,
+  sessionOpen: number,
+  minutes: number,
+  random: RandomGenerator,
+  calendar: TradingCalendar = getTradingCalendar()
+): StockData[] => {
+  const activity = Array.from({ length: minutes }, (_, i) => intradayActivity(i, minutes));
+  const totalActivity = activity.reduce((sum, a) => sum + a, 0);
+  // Parkinson estimate of the day's volatility from its range
+  const dayVol = Math.max(Math.log(daily.high / daily.low) / (2 * Math.sqrt(Math.LN2)), 0.002);
+  const minuteVols = activity.map(a => dayVol * Math.sqrt(a / totalActivity));
+
+  // Random walk in log price, then bridged so it ends at the day's close
+  const walk = [0];
+  const elapsedVariance = [0];
+  minuteVols.forEach((vol, i) => {
+    walk.push(walk[i] + vol * randomNormal(random));
+    elapsedVariance.push(elapsedVariance[i] + vol * vol);
+  });
+  const totalVariance = elapsedVariance[minutes];
+  const dayReturn = Math.log(daily.close / daily.open);
+  const trend = elapsedVariance.map(v => Math.log(daily.open) + dayReturn * v / totalVariance);
+  const deviations = walk.map((w, i) => w - walk[minutes] * elapsedVariance[i] / totalVariance);
+  // Shrink the excursions from the open-to-close trend until they stay inside the day's range
+  const logHigh = Math.log(daily.high);
+  const logLow = Math.log(daily.low);
+  const fit = deviations.reduce((scale, d, i) => {
+    if (d > 0) return Math.min(scale, Math.max(logHigh - trend[i], 0) / d);
+    if (d < 0) return Math.min(scale, Math.min(logLow - trend[i], 0) / d);
+    return scale;
+  }, 1);
+  const prices = trend.map((t, i) => Math.min(Math.max(Math.exp(t + fit * deviations[i]), daily.low), daily.high));
+  prices[0] = daily.open;
+  prices[minutes] = daily.close;
+
+  const volumeWeights = activity.map((a, i) => {
+    const auction = i === 0 ? OPENING_AUCTION_VOLUME : i === minutes - 1 ? CLOSING_AUCTION_VOLUME : 1;
+    return a * auction * Math.exp(0.3 * randomNormal(random));
+  });
+  const totalWeight = volumeWeights.reduce((sum, w) => sum + w, 0);
+  const adjustment = daily.adjClose !== undefined ? daily.adjClose / daily.close : 1;
+
+  const bars = minuteVols.map((vol, i) => {
+    const open = prices[i];
+    const close = prices[i + 1];
+    return {
+      symbol: daily.symbol,
+      date: formatExchangeTime(sessionOpen + i * 60000, calendar),
+      open,
+      high: Math.min(Math.max(open, close) * Math.exp(Math.abs(0.5 * vol * randomNormal(random))), daily.high),
+      low: Math.max(Math.min(open, close) * Math.exp(-Math.abs(0.5 * vol * randomNormal(random))), daily.low),
+      close,
+      volume: Math.floor(daily.volume * volumeWeights[i] / totalWeight),
+      adjClose: close * adjustment
+    };
+  });
+
+  // The day's high and low trade in the minutes where the path comes closest to them
+  const highest = bars.reduce((best, bar, i) => (bar.high > bars[best].high ? i : best), 0);
+  const lowest = bars.reduce((best, bar, i) => (bar.low < bars[best].low ? i : best), 0);
+  bars[highest].high = daily.high;
+  bars[lowest].low = daily.low;
+  return bars;
+};
@@ -0,0 +1,340 @@
+import { StockData } from '@/types';
+
+// OHLCV file import
+// Turns CSV or JSON exports into StockData in three steps: read the file into a table of text
+// cells, map table columns to bar fields, then convert and validate every row. Each step can be
+// shown to the user, so a bad mapping or date format is caught before anything is imported.
+
+export type OhlcvField = 'date' | 'open' | 'high' | 'low' | 'close' | 'volume' | 'adjClose';
+
+export const OHLCV_FIELDS: OhlcvField[] = ['date', 'open', 'high', 'low', 'close', 'volume', 'adjClose'];
+export const REQUIRED_OHLCV_FIELDS: OhlcvField[] = ['date', 'open', 'high', 'low', 'close', 'volume'];
+
+// Column index for each field, -1 when unmapped
+export type ColumnMapping = Record<OhlcvField, number>;
+
+export type DateFormat = 'ymd' | 'mdy' | 'dmy' | 'unix' | 'unixMs';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  ymd: 'YYYY-MM-DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+  unix: 'Unix seconds',
+  unixMs: 'Unix milliseconds'
+};
+
+export interface ImportTable {
+  columns: string[];
+  rows: string[][];
+  // Delimiter of CSV input; undefined for JSON
+  delimiter?: string;
+}
+
+export interface ImportIssue {
+  // 1-based data row, not counting the header
+  row: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportOptions {
+  dateFormat?: DateFormat;
+  // Read numbers as 1.234,56 rather than 1,234.56; detected from the data when omitted
+  decimalComma?: boolean;
+}
+
+export interface ImportResult {
+  data: StockData[];
+  issues: ImportIssue[];
+  dateFormat: DateFormat;
+  // Rows dropped because an identical bar for the same date came earlier
+  duplicates: number;
+  // Rows dropped because of errors
+  skipped: number;
+  // Bars whose adjClose was missing and set to the close
+  filledAdjClose: number;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// The delimiter that splits the first lines into the most, and most consistent, columns
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const consistent = counts.every(count => count === counts[0]);
+    const score = counts[0] > 0 ? counts[0] * (consistent ? 2 : 1) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Split CSV text into rows of cells, honouring double-quoted cells with escaped quotes
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+const toCell = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim());
+
+// Accepts an array of bar objects, an array of arrays with a header row, or an object holding
+// either under a key such as `data` or `bars`
+const parseJson = (text: string): ImportTable => {
+  const parsed: unknown = JSON.parse(text);
+  const records = Array.isArray(parsed)
+    ? parsed
+    : Object.values((parsed ?? {}) as Record<string, unknown>).find(Array.isArray);
+  if (!records || records.length === 0) {
+    throw new Error('No array of bars found in the JSON file');
+  }
+
+  if (Array.isArray(records[0])) {
+    const [header, ...rows] = records as unknown[][];
+    const hasHeader = header.every(value => typeof value === 'string');
+    return {
+      columns: hasHeader ? header.map(toCell) : header.map((_, i) => `Column ${i + 1}`),
+      rows: (hasHeader ? rows : (records as unknown[][])).map(row => row.map(toCell))
+    };
+  }
+
+  const columns: string[] = [];
+  (records as Record<string, unknown>[]).forEach(record => {
+    Object.keys(record ?? {}).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+  return {
+    columns,
+    rows: (records as Record<string, unknown>[]).map(record => columns.map(column => toCell(record?.[column])))
+  };
+};
+
+export const parseImportFile = (fileName: string, text: string): ImportTable => {
+  const content = text.replace(/^\uFEFF/, '');
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content)) {
+    return parseJson(content);
+  }
+
+  const delimiter = detectDelimiter(content);
+  const [header, ...rows] = parseCsv(content, delimiter);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+  return { columns: header, rows, delimiter };
+};
+
+const normaliseHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const HEADER_ALIASES: Record<OhlcvField, string[]> = {
+  date: ['date', 'timestamp', 'time', 'datetime', 'day', 't'],
+  open: ['open', 'o', 'openprice'],
+  high: ['high', 'h', 'highprice'],
+  low: ['low', 'l', 'lowprice'],
+  close: ['close', 'c', 'closeprice', 'last', 'price'],
+  volume: ['volume', 'v', 'vol'],
+  adjClose: ['adjclose', 'adjustedclose', 'adjcloseprice']
+};
+
+export const suggestColumnMapping = (columns: string[]): ColumnMapping => {
+  const normalised = columns.map(normaliseHeader);
+  return OHLCV_FIELDS.reduce((mapping, field) => {
+    mapping[field] = normalised.findIndex(name => HEADER_ALIASES[field].includes(name));
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+export const getMissingFields = (mapping: ColumnMapping): OhlcvField[] => {
+  return REQUIRED_OHLCV_FIELDS.filter(field => mapping[field] < 0);
+};
+
+const YMD = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/;
+const COMPACT_YMD = /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/;
+const DAY_MONTH_YEAR = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/;
+
+// Day-first or month-first is decided by any part that can only be a day; month-first otherwise
+export const detectDateFormat = (values: string[]): DateFormat => {
+  const sample = values.filter(value => value !== '').slice(0, 500);
+  // Compact dates such as 20240102 are also all digits
+  if (sample.length > 0 && sample.every(value => COMPACT_YMD.test(value))) {
+    return 'ymd';
+  }
+  if (sample.length > 0 && sample.every(value => /^\d+(\.\d+)?$/.test(value))) {
+    return Number(sample[0]) > 1e11 ? 'unixMs' : 'unix';
+  }
+  if (sample.some(value => YMD.test(value))) {
+    return 'ymd';
+  }
+  const parts = sample.map(value => value.match(DAY_MONTH_YEAR)).filter((match): match is RegExpMatchArray => match !== null);
+  if (parts.some(match => Number(match[1]) > 12)) return 'dmy';
+  if (parts.length > 0) return 'mdy';
+  return 'ymd';
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toDateKey = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects impossible dates such as 2024-02-31, which Date would roll over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return '';
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (year: string): number => {
+  const value = Number(year);
+  return year.length === 2 ? (value < 70 ? 2000 + value : 1900 + value) : value;
+};
+
+// Returns an empty string when the value is not a date in the given format
+export const parseDateValue = (value: string, format: DateFormat): string => {
+  if (format === 'unix' || format === 'unixMs') {
+    const time = Number(value) * (format === 'unix' ? 1000 : 1);
+    return value !== '' && isFinite(time) ? new Date(time).toISOString().split('T')[0] : '';
+  }
+  if (format === 'ymd') {
+    if (COMPACT_YMD.test(value)) {
+      return toDateKey(Number(value.slice(0, 4)), Number(value.slice(4, 6)), Number(value.slice(6, 8)));
+    }
+    const match = value.match(YMD);
+    return match ? toDateKey(Number(match[1]), Number(match[2]), Number(match[3])) : '';
+  }
+  const match = value.match(DAY_MONTH_YEAR);
+  if (!match) return '';
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  return format === 'mdy'
+    ? toDateKey(expandYear(match[3]), first, second)
+    : toDateKey(expandYear(match[3]), second, first);
+};
+
+export const parseNumberValue = (value: string, decimalComma = false): number => {
+  const cleaned = value.replace(/[\s$€£]/g, '');
+  if (cleaned === '') return NaN;
+  const normalised = decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  return Number(normalised);
+};
+
+const detectDecimalComma = (table: ImportTable, mapping: ColumnMapping): boolean => {
+  if (table.delimiter === ',' || mapping.close < 0) return false;
+  return table.rows.slice(0, 100).some(row => /^\d+,\d+$/.test(row[mapping.close] ?? ''));
+};
+
+const sameBar = (a: StockData, b: StockData): boolean => {
+  return a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close && a.volume === b.volume;
+};
+
+// Convert mapped rows to bars sorted by date. Rows with an unreadable date or price are skipped,
+// repeated dates keep the last row, and inconsistent bars are kept but reported.
+export const buildImportedData = (
+  table: ImportTable,
+  symbol: string,
+  mapping: ColumnMapping,
+  options: ImportOptions = {}
+): ImportResult => {
+  const dateFormat = options.dateFormat ?? detectDateFormat(table.rows.map(row => row[mapping.date] ?? ''));
+  const decimalComma = options.decimalComma ?? detectDecimalComma(table, mapping);
+  const issues: ImportIssue[] = [];
+  const byDate = new Map<string, StockData>();
+  let duplicates = 0;
+  let skipped = 0;
+  const filledAdjClose = new Set<string>();
+
+  table.rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    const cell = (field: OhlcvField) => (mapping[field] >= 0 ? row[mapping[field]] ?? '' : '');
+    const error = (message: string) => {
+      issues.push({ row: rowNumber, severity: 'error', message });
+      skipped++;
+    };
+
+    const date = parseDateValue(cell('date'), dateFormat);
+    if (!date) {
+      error(`Unreadable date "${cell('date')}"`);
+      return;
+    }
+
+    const [open, high, low, close, volume] = (['open', 'high', 'low', 'close', 'volume'] as const).map(field =>
+      parseNumberValue(cell(field), decimalComma)
+    );
+    const values = { open, high, low, close, volume };
+    const unreadable = Object.entries(values).filter(([, value]) => !isFinite(value)).map(([field]) => field);
+    if (unreadable.length > 0) {
+      error(`Unreadable ${unreadable.join(', ')} on ${date}`);
+      return;
+    }
+    if ([open, high, low, close].some(price => price <= 0) || volume < 0) {
+      error(`Non-positive price or negative volume on ${date}`);
+      return;
+    }
+
+    const adjClose = parseNumberValue(cell('adjClose'), decimalComma);
+    const hasAdjClose = isFinite(adjClose) && adjClose > 0;
+    const bar: StockData = { symbol, date, open, high, low, close, volume, adjClose: hasAdjClose ? adjClose : close };
+
+    if (high < Math.max(open, close) || low > Math.min(open, close)) {
+      issues.push({ row: rowNumber, severity: 'warning', message: `High/low do not contain open and close on ${date}` });
+    }
+
+    const existing = byDate.get(date);
+    if (existing) {
+      if (sameBar(existing, bar)) {
+        duplicates++;
+        return;
+      }
+      issues.push({ row: rowNumber, severity: 'warning', message: `Conflicting rows for ${date}; the later row is used` });
+    }
+    byDate.set(date, bar);
+    if (hasAdjClose) {
+      filledAdjClose.delete(date);
+    } else {
+      filledAdjClose.add(date);
+    }
+  });
+
+  return {
+    data: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    issues,
+    dateFormat,
+    duplicates,
+    skipped,
+    filledAdjClose: filledAdjClose.size
+  };
+};
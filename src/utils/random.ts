@@ -0,0 +1,38 @@
+// Seeded pseudo-random number generation
+// Math.random() cannot be reproduced, so anything that needs repeatable results uses these instead
+
+export type RandomGenerator = () => number;
+
+// Mulberry32: small, fast 32-bit generator returning floats in [0, 1)
+export const createSeededRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Random integer in [0, max)
+export const randomInt = (random: RandomGenerator, max: number): number => {
+  return Math.floor(random() * max);
+};
+
+// Standard normal sample (Box-Muller transform)
+export const randomNormal = (random: RandomGenerator): number => {
+  const u = 1 - random(); // avoid log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// 32-bit FNV-1a hash, for deriving a stable seed from a string such as a symbol
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,269 @@
+import { AnomalyLabel, AnomalyType, LabelledStockData, StockData } from '@/types';
+import { randomInt, RandomGenerator } from '@/utils/random';
+
+// Synthetic anomaly scenarios
+// Named, parameterised market events that can be injected into a generated series. Injection is
+// deterministic and returns ground-truth labels, so demo datasets are reproducible and detectors
+// can be evaluated against exactly what was injected.
+
+export type ScenarioId =
+  | 'pumpAndDump'
+  | 'flashCrash'
+  | 'earningsGap'
+  | 'volumeClimax'
+  | 'volatilityRegime'
+  | 'slowDrift';
+
+export type ScenarioParams = Record<string, number>;
+
+// A series decomposed into per-bar log moves, so events compose and later bars follow on
+interface BarPath {
+  returns: number[]; // close-to-close
+  gaps: number[]; // previous close to open
+  upperWicks: number[]; // max(open, close) to high
+  lowerWicks: number[]; // low to min(open, close)
+  volumes: number[];
+}
+
+export interface MarketScenario {
+  id: ScenarioId;
+  name: string;
+  description: string;
+  labelType: AnomalyType;
+  defaults: ScenarioParams;
+  // Number of bars the event affects, starting at its first bar
+  duration: (params: ScenarioParams) => number;
+  apply: (path: BarPath, start: number, params: ScenarioParams) => void;
+}
+
+export interface ScenarioEvent {
+  scenario: ScenarioId;
+  // First bar of the event, either as a date or as a fraction (0-1) of the series length
+  date?: string;
+  position?: number;
+  params?: Partial<ScenarioParams>;
+}
+
+// Apply fn to each bar in [start, start + length) that exists in the path
+const forBars = (path: BarPath, start: number, length: number, fn: (i: number, k: number) => void) => {
+  for (let k = 0; k < length && start + k < path.returns.length; k++) {
+    fn(start + k, k);
+  }
+};
+
+const scenarios: Record<ScenarioId, MarketScenario> = {
+  pumpAndDump: {
+    id: 'pumpAndDump',
+    name: 'Pump and dump',
+    description: 'Rapid run-up on heavy volume followed by a sharp reversal',
+    labelType: 'price',
+    defaults: { magnitude: 0.3, pumpBars: 3, dumpBars: 2, retracement: 0.9, volumeMultiplier: 4 },
+    duration: p => p.pumpBars + p.dumpBars,
+    apply: (path, start, p) => {
+      const rise = Math.log(1 + p.magnitude);
+      forBars(path, start, p.pumpBars + p.dumpBars, (i, k) => {
+        path.returns[i] += k < p.pumpBars ? rise / p.pumpBars : (-rise * p.retracement) / p.dumpBars;
+        path.volumes[i] *= p.volumeMultiplier;
+      });
+    }
+  },
+  flashCrash: {
+    id: 'flashCrash',
+    name: 'Flash crash',
+    description: 'Intraday collapse that mostly recovers before the close',
+    labelType: 'price',
+    defaults: { drop: 0.12, recovery: 0.7, volumeMultiplier: 5 },
+    duration: () => 1,
+    apply: (path, start, p) => {
+      forBars(path, start, 1, i => {
+        const drop = -Math.log(1 - p.drop);
+        path.lowerWicks[i] += drop;
+        path.returns[i] -= drop * (1 - p.recovery);
+        path.volumes[i] *= p.volumeMultiplier;
+      });
+    }
+  },
+  earningsGap: {
+    id: 'earningsGap',
+    name: 'Earnings gap',
+    description: 'Opening gap on an earnings release with elevated follow-through volume',
+    labelType: 'price',
+    defaults: { gap: 0.08, volumeMultiplier: 3, followThrough: 1.8 },
+    duration: () => 1,
+    apply: (path, start, p) => {
+      const gap = Math.log(1 + p.gap);
+      forBars(path, start, 2, (i, k) => {
+        if (k === 0) {
+          path.gaps[i] += gap;
+          path.returns[i] += gap;
+          path.volumes[i] *= p.volumeMultiplier;
+        } else {
+          path.volumes[i] *= p.followThrough;
+        }
+      });
+    }
+  },
+  volumeClimax: {
+    id: 'volumeClimax',
+    name: 'Volume climax',
+    description: 'Exhaustion volume far above normal with little net price change',
+    labelType: 'volume',
+    defaults: { volumeMultiplier: 6, bars: 1 },
+    duration: p => p.bars,
+    apply: (path, start, p) => {
+      forBars(path, start, p.bars, i => {
+        path.volumes[i] *= p.volumeMultiplier;
+        path.upperWicks[i] *= 2;
+        path.lowerWicks[i] *= 2;
+      });
+    }
+  },
+  volatilityRegime: {
+    id: 'volatilityRegime',
+    name: 'Volatility regime change',
+    description: 'Sustained period of amplified daily moves and ranges',
+    labelType: 'regime',
+    defaults: { multiplier: 2.5, bars: 30, volumeMultiplier: 1.5 },
+    duration: p => p.bars,
+    apply: (path, start, p) => {
+      forBars(path, start, p.bars, i => {
+        path.returns[i] *= p.multiplier;
+        path.upperWicks[i] *= p.multiplier;
+        path.lowerWicks[i] *= p.multiplier;
+        path.volumes[i] *= p.volumeMultiplier;
+      });
+    }
+  },
+  slowDrift: {
+    id: 'slowDrift',
+    name: 'Slow drift',
+    description: 'Gradual, persistent trend that no single bar reveals',
+    labelType: 'regime',
+    defaults: { totalReturn: 0.15, bars: 40 },
+    duration: p => p.bars,
+    apply: (path, start, p) => {
+      const step = Math.log(1 + p.totalReturn) / p.bars;
+      forBars(path, start, p.bars, i => {
+        path.returns[i] += step;
+      });
+    }
+  }
+};
+
+export const getScenarios = (): MarketScenario[] => Object.values(scenarios);
+
+export interface ScheduleOptions {
+  scenarios?: ScenarioId[];
+  // Bars left clean at the start so rolling detectors have history to learn from
+  warmup: number;
+  // Minimum clean bars between one event ending and the next starting, plus a random extra
+  spacing: number;
+  jitter: number;
+}
+
+// Vary each event's size and direction so a schedule is not a set of identical shocks
+export const randomScenarioParams = (id: ScenarioId, random: RandomGenerator): ScenarioParams => {
+  const direction = random() < 0.5 ? -1 : 1;
+  switch (id) {
+    case 'earningsGap':
+      return { gap: direction * (0.06 + random() * 0.06) };
+    case 'flashCrash':
+      return { drop: 0.1 + random() * 0.05 };
+    case 'volumeClimax':
+      return { volumeMultiplier: 5 + random() * 3 };
+    case 'pumpAndDump':
+      return { magnitude: 0.2 + random() * 0.15 };
+    case 'volatilityRegime':
+      return { bars: 20 + randomInt(random, 15) };
+    case 'slowDrift':
+      return { totalReturn: direction * (0.1 + random() * 0.1) };
+  }
+};
+
+// Place randomly chosen events through a series of dates, spaced so each can be attributed
+// unambiguously. Events that would run past the last date are not scheduled.
+export const scheduleScenarios = (dates: string[], random: RandomGenerator, options: ScheduleOptions): ScenarioEvent[] => {
+  const ids = options.scenarios ?? (Object.keys(scenarios) as ScenarioId[]);
+  const events: ScenarioEvent[] = [];
+
+  let bar = options.warmup + randomInt(random, options.jitter);
+  while (bar < dates.length) {
+    const id = ids[randomInt(random, ids.length)];
+    const params = randomScenarioParams(id, random);
+    const duration = scenarios[id].duration({ ...scenarios[id].defaults, ...params });
+    if (bar + duration > dates.length) break;
+
+    events.push({ scenario: id, date: dates[bar], params });
+    bar += duration + options.spacing + randomInt(random, options.jitter);
+  }
+
+  return events;
+};
+
+const decompose = (data: StockData[]): BarPath => {
+  // The first bar has no previous close, so its open stands in for one
+  const previousClose = (i: number) => (i > 0 ? data[i - 1].close : data[0].open);
+  return {
+    returns: data.map((d, i) => Math.log(d.close / previousClose(i))),
+    gaps: data.map((d, i) => Math.log(d.open / previousClose(i))),
+    // Clamped so a bar whose high or low sits inside its body comes back consistent
+    upperWicks: data.map(d => Math.max(0, Math.log(d.high / Math.max(d.open, d.close)))),
+    lowerWicks: data.map(d => Math.max(0, Math.log(Math.min(d.open, d.close) / d.low))),
+    volumes: data.map(d => d.volume)
+  };
+};
+
+const recompose = (data: StockData[], path: BarPath): StockData[] => {
+  let previousClose = data[0].open;
+  return data.map((d, i) => {
+    const open = previousClose * Math.exp(path.gaps[i]);
+    const close = previousClose * Math.exp(path.returns[i]);
+    previousClose = close;
+    return {
+      ...d,
+      open,
+      high: Math.max(open, close) * Math.exp(path.upperWicks[i]),
+      low: Math.min(open, close) * Math.exp(-path.lowerWicks[i]),
+      close,
+      volume: Math.floor(path.volumes[i]),
+      adjClose: close
+    };
+  });
+};
+
+const resolveStart = (event: ScenarioEvent, data: StockData[]): number => {
+  if (event.date) {
+    return data.findIndex(d => d.date >= event.date!);
+  }
+  return Math.floor(Math.min(Math.max(event.position ?? 0, 0), 1) * (data.length - 1));
+};
+
+// Inject events into a series and return it with one ground-truth label per injected event
+export const injectScenarios = (data: StockData[], events: ScenarioEvent[]): LabelledStockData => {
+  const symbol = data[0]?.symbol ?? '';
+  if (data.length === 0) {
+    return { symbol, data, labels: [] };
+  }
+
+  const path = decompose(data);
+  const labels: AnomalyLabel[] = [];
+
+  events.forEach(event => {
+    const scenario = scenarios[event.scenario];
+    const start = resolveStart(event, data);
+    if (!scenario || start < 0) return;
+
+    const params = { ...scenario.defaults, ...event.params } as ScenarioParams;
+    scenario.apply(path, start, params);
+
+    const end = Math.min(start + scenario.duration(params) - 1, data.length - 1);
+    labels.push({
+      date: data[start].date,
+      endDate: end > start ? data[end].date : undefined,
+      type: scenario.labelType,
+      name: scenario.name
+    });
+  });
+
+  return { symbol, data: recompose(data, path), labels };
+};
@@ -0,0 +1,72 @@
+import { addTradingDays, getEarlyClose, getTradingCalendar, previousTradingDay, TradingCalendar } from '@/utils/tradingCalendar';
+
+// Calendar seasonality for trading activity
+// Volume follows the calendar: weekdays differ, and month-ends, options expiries and index
+// rebalances bring predictable surges, while early closes bring a short, quiet session. These
+// helpers tag a bar with the effects that apply to it, using the exchange's trading calendar.
+
+export type SeasonalEvent = 'monthEnd' | 'monthlyExpiry' | 'quarterlyWitching' | 'indexRebalance' | 'earlyClose';
+
+export interface SeasonalTags {
+  dayOfWeek: number;
+  events: SeasonalEvent[];
+}
+
+export const DAY_OF_WEEK_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const SEASONAL_EVENT_LABELS: Record<SeasonalEvent, string> = {
+  monthEnd: 'month-end',
+  monthlyExpiry: 'monthly options expiry',
+  quarterlyWitching: 'quarterly witching',
+  indexRebalance: 'index rebalance',
+  earlyClose: 'early close'
+};
+
+const QUARTER_END_MONTHS = [2, 5, 8, 11];
+
+// Dates are calendar days, so they are read in UTC to avoid local timezone shifts
+const toUTCDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+
+// Options expire on the third Friday, or the trading day before it when the exchange is closed
+const isExpiryDay = (date: string, calendar: TradingCalendar): boolean => {
+  const thirdFriday = toUTCDate(`${date.slice(0, 7)}-15`);
+  thirdFriday.setUTCDate(15 + ((5 - thirdFriday.getUTCDay() + 7) % 7));
+  return previousTradingDay(thirdFriday.toISOString().split('T')[0], calendar) === date.slice(0, 10);
+};
+
+const isLastTradingDayOfMonth = (date: string, calendar: TradingCalendar): boolean => {
+  return addTradingDays(date, 1, calendar).slice(0, 7) !== date.slice(0, 7);
+};
+
+// Russell reconstitution takes effect after the close on the last Friday of June
+const isAnnualReconstitution = (date: Date): boolean => {
+  return date.getUTCMonth() === 5 && date.getUTCDay() === 5 && date.getUTCDate() > 23;
+};
+
+export const getSeasonalTags = (date: string, calendar: TradingCalendar = getTradingCalendar()): SeasonalTags => {
+  const day = toUTCDate(date);
+  const events: SeasonalEvent[] = [];
+
+  if (isLastTradingDayOfMonth(date, calendar)) {
+    events.push('monthEnd');
+  }
+  if (isExpiryDay(date, calendar)) {
+    // Quarterly witching is itself a monthly expiry, so only the stronger effect is tagged
+    events.push(QUARTER_END_MONTHS.includes(day.getUTCMonth()) ? 'quarterlyWitching' : 'monthlyExpiry');
+  }
+  if (isAnnualReconstitution(day)) {
+    events.push('indexRebalance');
+  }
+  if (getEarlyClose(date, calendar)) {
+    events.push('earlyClose');
+  }
+
+  return { dayOfWeek: day.getUTCDay(), events };
+};
+
+export const describeSeasonalTags = (tags: SeasonalTags): string => {
+  const day = DAY_OF_WEEK_LABELS[tags.dayOfWeek];
+  return tags.events.length > 0
+    ? `${day} with ${tags.events.map(event => SEASONAL_EVENT_LABELS[event]).join(' and ')}`
+    : day;
+};
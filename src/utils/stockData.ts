@@ -1,115 +1,181 @@
 
-import { StockData, StockMetrics } from '@/types';
+import { BarInterval, CorporateAction, LabelledStockData, MarketIndex, StockData, StockMetrics, SymbolInfo } from '@/types';
+import { aggregateSessionBars, getBarsPerYear, isIntradayInterval, toDailyBars } from '@/utils/barInterval';
+import { unadjustForCorporateActions } from '@/utils/corporateActions';
+import { MarketDataProvider, matchesSymbolQuery } from '@/utils/marketDataProvider';
+import { getSymbolProfile, REFERENCE_DATE, scaleToReference, scheduleCorporateActions, simulateBars, simulateSession } from '@/utils/marketModel';
+import { createSeededRandom, hashString } from '@/utils/random';
+import { injectScenarios, scheduleScenarios, ScenarioEvent } from '@/utils/scenarios';
+import { getSessionBounds, getTradingCalendar, getTradingDays } from '@/utils/tradingCalendar';
 
 // This is mock data for demonstration purposes
 // In a real app, you would fetch this from an API
-const mockStockSymbols = [
-  'AAPL', 'MSFT', 'AMZN', 'GOOGL', 'TSLA', 'META', 'NVDA', 'JPM', 'V', 'WMT'
+const mockSymbols: SymbolInfo[] = [
+  { symbol: 'AAPL', name: 'Apple Inc.', sector: 'Technology', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', sector: 'Technology', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', sector: 'E-commerce', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', sector: 'Technology', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'TSLA', name: 'Tesla Inc.', sector: 'Automotive', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'META', name: 'Meta Platforms Inc.', sector: 'Technology', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'NVDA', name: 'NVIDIA Corporation', sector: 'Technology', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', sector: 'Finance', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'V', name: 'Visa Inc.', sector: 'Finance', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'WMT', name: 'Walmart Inc.', sector: 'Retail', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', sector: 'Healthcare', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'PFE', name: 'Pfizer Inc.', sector: 'Healthcare', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'XOM', name: 'Exxon Mobil Corporation', sector: 'Energy', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'CVX', name: 'Chevron Corporation', sector: 'Energy', exchange: 'NYSE', currency: 'USD' }
 ];
 
-// Generate fake historical stock data
-export const fetchStockData = async (symbol: string, from: Date, to: Date): Promise<StockData[]> => {
+// Market indices and sector ETFs for comparison
+const mockIndices: MarketIndex[] = [
+  { symbol: 'SPY', name: 'S&P 500', kind: 'market' },
+  { symbol: 'QQQ', name: 'NASDAQ 100', kind: 'market' },
+  { symbol: 'IWM', name: 'Russell 2000', kind: 'market' },
+  { symbol: 'VTI', name: 'Total Stock Market', kind: 'market' },
+  { symbol: 'XLK', name: 'Technology', kind: 'sector' },
+  { symbol: 'XLF', name: 'Finance', kind: 'sector' },
+  { symbol: 'XLV', name: 'Healthcare', kind: 'sector' },
+  { symbol: 'XLE', name: 'Energy', kind: 'sector' },
+  { symbol: 'XLI', name: 'Industrial', kind: 'sector' },
+  { symbol: 'XLY', name: 'Consumer Discretionary', kind: 'sector' }
+];
+
+// Every symbol has one simulated history starting here, and a requested range is a slice of it,
+// so the same symbol and date always give the same bar
+const SIMULATION_START = '2000-01-03';
+export const DEFAULT_MARKET_SEED = 1;
+
+// Labelled events are scheduled through each history with a stream separate from the prices
+const SCENARIO_STREAM = 0x5ce7a;
+// Intraday paths are seeded per symbol and day with their own stream
+const INTRADAY_STREAM = 0x1d4a7;
+const SCENARIO_SCHEDULE = { warmup: 60, spacing: 120, jitter: 120 };
+
+export interface MockDataOptions {
+  seed?: number;
+  // Inject these events into the requested range instead of the symbol's own scheduled events
+  events?: ScenarioEvent[];
+}
+
+interface SimulatedHistory {
+  through: string;
+  // Adjusted bars without events, for injecting requested events into
+  bars: StockData[];
+  labelled: LabelledStockData;
+  actions: CorporateAction[];
+}
+
+const histories = new Map<string, SimulatedHistory>();
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const getSymbolCalendar = (symbol: string) => {
+  return getTradingCalendar(mockSymbols.find(info => info.symbol === symbol.toUpperCase())?.exchange);
+};
+
+// Histories are simulated to the end of the requested year and extended when a later date is
+// needed; the generators are sequential, so extending leaves earlier bars unchanged
+const getHistory = (symbol: string, seed: number, through: string): SimulatedHistory => {
+  const key = `${symbol}:${seed}`;
+  const cached = histories.get(key);
+  if (cached && cached.through >= through) {
+    return cached;
+  }
+
+  // Always simulated past the reference date so the price scaling never changes
+  const horizon = `${[through, REFERENCE_DATE].sort()[1].slice(0, 4)}-12-31`;
+  // Bars fall on the trading days of the symbol's exchange
+  const calendar = getSymbolCalendar(symbol);
+  const dates = getTradingDays(SIMULATION_START, horizon, calendar);
+  const profile = getSymbolProfile(symbol);
+  const symbolSeed = hashString(symbol) ^ seed;
+  const bars = simulateBars(symbol, dates, profile, createSeededRandom(symbolSeed), calendar);
+  const events = scheduleScenarios(dates, createSeededRandom(symbolSeed ^ SCENARIO_STREAM), SCENARIO_SCHEDULE);
+  const labelled = injectScenarios(bars, events);
+  const adjusted = scaleToReference(labelled.data, profile);
+  const actions = scheduleCorporateActions(symbol, adjusted, profile);
+
+  // The simulated path is the adjusted series; bars are served at traded prices
+  const history = {
+    through: horizon,
+    bars: scaleToReference(bars, profile),
+    labelled: { ...labelled, data: unadjustForCorporateActions(adjusted, actions) },
+    actions
+  };
+  histories.set(key, history);
+  return history;
+};
+
+// Indices of the bars in [from, to]; a range with no trading days (e.g. a weekend) falls back
+// to the last bar before it so there is always something to show
+const sliceRange = (bars: StockData[], from: string, to: string): [number, number] => {
+  const start = bars.findIndex(bar => bar.date >= from);
+  let end = bars.findIndex(bar => bar.date > to);
+  end = end < 0 ? bars.length : end;
+  if (start < 0 || start >= end) {
+    return end > 0 ? [end - 1, end] : [0, 0];
+  }
+  return [start, end];
+};
+
+// Generate deterministic historical stock data along with the labels of the events injected into it
+export const fetchLabelledStockData = async (
+  symbol: string,
+  from: Date,
+  to: Date,
+  options: MockDataOptions = {}
+): Promise<LabelledStockData> => {
   // In a real app, this would be an API call
   // For demo purposes, we'll generate mock data
   console.log(`Fetching data for ${symbol} from ${from.toDateString()} to ${to.toDateString()}`);
   
-  const result: StockData[] = [];
-  const days = Math.ceil((to.getTime() - from.getTime()) / (1000 * 3600 * 24));
-  const startPrice = 100 + Math.random() * 900; // Random start price between 100 and 1000
-  
-  // Ensure we generate at least one data point, even for very short time ranges
-  const minDays = Math.max(1, days);
-  
-  let currentDate = new Date(from);
-  let price = startPrice;
-  
-  // For very short ranges (1 day), generate intraday data points
-  if (minDays === 1) {
-    // Create a single day with higher volatility to ensure anomalies
-    const dayVolatility = 0.03 + Math.random() * 0.04; // 3-7% intraday volatility
-    const dailyTrend = (Math.random() - 0.5) * 0.02; // Daily trend -1% to +1%
-    
-    const open = price;
-    const close = price * (1 + dailyTrend);
-    const high = Math.max(open, close) * (1 + dayVolatility/2);
-    const low = Math.min(open, close) * (1 - dayVolatility/2);
-    
-    // Generate volume - for 1D, create an anomaly about 30% of the time
-    let volume = Math.floor(100000 + Math.random() * 900000);
-    if (Math.random() < 0.3) { // 30% chance of volume anomaly
-      volume *= 2 + Math.random() * 3; // 2-5x normal volume
-    }
-    
-    result.push({
-      symbol,
-      date: currentDate.toISOString().split('T')[0],
-      open,
-      high,
-      low,
-      close,
-      volume,
-      adjClose: close
-    });
-    
-    return result;
-  }
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const history = getHistory(symbol, options.seed ?? DEFAULT_MARKET_SEED, toKey);
+  const [start, end] = sliceRange(history.bars, fromKey, toKey);
   
-  for (let i = 0; i < minDays; i++) {
-    // Skip weekends (but ensure at least one data point for very short ranges)
-    if ((currentDate.getDay() === 0 || currentDate.getDay() === 6) && minDays > 2) {
-      currentDate = new Date(currentDate.getTime() + 24 * 60 * 60 * 1000);
-      continue;
-    }
-    
-    // Generate daily price movement (normal distribution around 0)
-    const dailyChange = (Math.random() - 0.5) * 0.05 * price; // Daily change up to ±2.5%
-    price += dailyChange;
-    
-    // Add some volatility
-    const volatilityFactor = 1 + (Math.random() - 0.5) * 0.1; // ±5% volatility
-    
-    // Create artificial anomalies occasionally (about 5% of days)
-    const isAnomaly = Math.random() < 0.05;
-    if (isAnomaly) {
-      if (Math.random() < 0.5) {
-        // Price spike
-        price *= 1 + (Math.random() * 0.2); // Spike up to 20%
-      } else {
-        // Price drop
-        price *= 1 - (Math.random() * 0.2); // Drop up to 20%
-      }
-    }
-    
-    const open = price;
-    const close = price + dailyChange;
-    const high = Math.max(open, close) * volatilityFactor;
-    const low = Math.min(open, close) / volatilityFactor;
-    
-    // Generate volume with occasional anomalies
-    let volume = Math.floor(100000 + Math.random() * 900000); // Base volume between 100K and 1M
-    if (Math.random() < 0.05) { // Volume anomaly
-      volume *= 3 + Math.random() * 7; // 3-10x normal volume
-    }
-    
-    result.push({
-      symbol,
-      date: currentDate.toISOString().split('T')[0],
-      open,
-      high,
-      low,
-      close,
-      volume,
-      adjClose: close
-    });
-    
-    // Move to next day
-    currentDate = new Date(currentDate.getTime() + 24 * 60 * 60 * 1000);
+  if (options.events) {
+    // Only actions within the range apply here, so prices are as traded at the end of the range
+    const injected = injectScenarios(history.bars.slice(start, end), options.events);
+    return { ...injected, data: unadjustForCorporateActions(injected.data, history.actions) };
   }
   
-  return result;
+  const data = history.labelled.data.slice(start, end);
+  const first = data[0]?.date ?? fromKey;
+  const last = data[data.length - 1]?.date ?? toKey;
+  const labels = history.labelled.labels.filter(label => label.date <= last && (label.endDate ?? label.date) >= first);
+  
+  return { symbol, data, labels };
+};
+
+export const fetchCorporateActions = async (symbol: string, from: Date, to: Date): Promise<CorporateAction[]> => {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const history = getHistory(symbol, DEFAULT_MARKET_SEED, toKey);
+  return history.actions.filter(action => action.date >= fromKey && action.date <= toKey);
 };
 
-export const fetchStockMetrics = async (symbol: string, data: StockData[]): Promise<StockMetrics> => {
+// Each daily bar is split over its session, so every interval of the same day is cut from the
+// same minute path and agrees with the daily bar's open, close and volume
+const splitIntoSessions = (daily: StockData[], interval: BarInterval): StockData[] => {
+  if (daily.length === 0) return [];
+  const calendar = getSymbolCalendar(daily[0].symbol);
+  return daily.flatMap(bar => {
+    const { open, close } = getSessionBounds(bar.date, calendar);
+    const random = createSeededRandom(hashString(`${bar.symbol}:${bar.date}`) ^ INTRADAY_STREAM);
+    const minuteBars = simulateSession(bar, open, Math.round((close - open) / 60000), random, calendar);
+    return aggregateSessionBars(minuteBars, interval);
+  });
+};
+
+// Generate fake historical stock data
+export const fetchStockData = async (symbol: string, from: Date, to: Date, interval: BarInterval = '1d'): Promise<StockData[]> => {
+  const { data } = await fetchLabelledStockData(symbol, from, to);
+  return isIntradayInterval(interval) ? splitIntoSessions(data, interval) : data;
+};
+
+export const fetchStockMetrics = async (symbol: string, data: StockData[], interval: BarInterval = '1d'): Promise<StockMetrics> => {
   if (!data || data.length === 0) {
     // Return default metrics if no data available
     return {
@@ -118,7 +184,6 @@ export const fetchStockMetrics = async (symbol: string, data: StockData[]): Prom
       dailyChange: 0,
       dailyChangePercent: 0,
       averageVolume: 0,
-      anomalyCount: 0,
       volatility: 0,
       rsi: 50
     };
@@ -126,24 +191,27 @@ export const fetchStockMetrics = async (symbol: string, data: StockData[]): Prom
   
   // Get latest price
   const latest = data[data.length - 1];
+  // Daily change and volume are per session, whatever the bar interval
+  const days = isIntradayInterval(interval) ? toDailyBars(data) : data;
   
   // For calculating daily change - handle case with only one data point
   let dailyChange = 0;
   let dailyChangePercent = 0;
   
-  if (data.length > 1) {
-    const previousDay = data[data.length - 2];
+  if (days.length > 1) {
+    const previousDay = days[days.length - 2];
     dailyChange = latest.close - previousDay.close;
     dailyChangePercent = (dailyChange / previousDay.close) * 100;
   } else {
     // If only one data point, use high-low range for the day
-    dailyChange = latest.close - latest.open;
-    dailyChangePercent = (dailyChange / latest.open) * 100;
+    dailyChange = latest.close - days[0].open;
+    dailyChangePercent = (dailyChange / days[0].open) * 100;
   }
   
   // Calculate average volume (20-day or as many days as available)
+  const recentDays = days.slice(-Math.min(20, days.length));
+  const averageVolume = recentDays.reduce((sum, day) => sum + day.volume, 0) / recentDays.length;
   const recentData = data.slice(-Math.min(20, data.length));
-  const averageVolume = recentData.reduce((sum, day) => sum + day.volume, 0) / recentData.length;
   
   // Calculate volatility (standard deviation of returns, using as many days as available)
   const returns = [];
@@ -166,30 +234,18 @@ export const fetchStockMetrics = async (symbol: string, data: StockData[]): Prom
     const meanReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
     const squaredDiffs = returns.map(ret => Math.pow(ret - meanReturn, 2));
     const variance = squaredDiffs.reduce((sum, diff) => sum + diff, 0) / squaredDiffs.length || 0;
-    volatility = Math.sqrt(variance) * Math.sqrt(252) * 100; // Annualized volatility in percentage
+    volatility = Math.sqrt(variance) * Math.sqrt(getBarsPerYear(interval, latest.date)) * 100; // Annualized volatility in percentage
   }
   
   // Calculate RSI (14-day or as many days as available)
   const rsi = calculateRSI(data.slice(-Math.min(15, data.length)));
   
-  // For single-day timeframes, use a higher anomaly count to demonstrate detection capability
-  let anomalyCount = 0;
-  
-  if (data.length === 1) {
-    // For single data point, random value but weighted toward at least 1 anomaly
-    anomalyCount = Math.random() < 0.7 ? Math.floor(Math.random() * 2) + 1 : 0;
-  } else {
-    // For multiple data points, estimate based on data length
-    anomalyCount = Math.max(0, Math.floor(Math.random() * (data.length > 5 ? 5 : data.length)));
-  }
-  
   return {
     symbol,
     currentPrice: latest.close,
     dailyChange,
     dailyChangePercent,
     averageVolume,
-    anomalyCount,
     volatility,
     rsi
   };
@@ -198,17 +254,8 @@ export const fetchStockMetrics = async (symbol: string, data: StockData[]): Prom
 // Calculate Relative Strength Index
 function calculateRSI(data: StockData[]): number {
   if (data.length < 2) {
-    // For single data point, use intraday data to estimate RSI
-    if (data.length === 1) {
-      const day = data[0];
-      // If close > open, RSI will be higher
-      if (day.close > day.open) {
-        return 60 + Math.random() * 20; // 60-80 range for up day
-      } else {
-        return 20 + Math.random() * 20; // 20-40 range for down day
-      }
-    }
-    return 50; // Default
+    // RSI needs at least one close-to-close change; without one it is neutral
+    return 50;
   }
   
   let gains = 0;
@@ -235,7 +282,19 @@ function calculateRSI(data: StockData[]): number {
   return Math.round(rsi * 100) / 100;
 }
 
-export const getAvailableStockSymbols = (): string[] => {
-  return mockStockSymbols;
+// Symbols are listed from the reference data above, but bars can be generated for any symbol
+export const mockMarketDataProvider: MarketDataProvider = {
+  id: 'mock',
+  name: 'Simulated data',
+  getBars: fetchStockData,
+  getCorporateActions: fetchCorporateActions,
+  searchSymbols: async (query) => mockSymbols.filter(info => matchesSymbolQuery(info, query)),
+  getSymbolInfo: async (symbol) => {
+    const upper = symbol.toUpperCase();
+    const index = mockIndices.find(info => info.symbol === upper);
+    return mockSymbols.find(info => info.symbol === upper)
+      ?? (index ? { symbol: index.symbol, name: index.name, currency: 'USD' } : null);
+  },
+  getIndices: async () => mockIndices
 };
 
@@ -0,0 +1,340 @@
+// Exchange trading calendars
+// Which days an exchange is open, and which of them close early. Dates are calendar days as
+// 'YYYY-MM-DD' keys in the exchange's own time zone. Calendars are registered per exchange, so
+// symbols listed elsewhere can bring their own holiday rules.
+
+export interface TradingCalendar {
+  id: string;
+  name: string;
+  timeZone: string;
+  // Regular session and early-close times, local to the exchange ('HH:MM')
+  sessionOpen: string;
+  sessionClose: string;
+  earlyClose: string;
+  // Days of the week the exchange never opens (0 = Sunday)
+  weekendDays: number[];
+  // Full-day closures and early closes in a year, keyed by date and named
+  getHolidays: (year: number) => Map<string, string>;
+  getEarlyCloses: (year: number) => Map<string, string>;
+}
+
+export const DEFAULT_CALENDAR_ID = 'NYSE';
+
+const calendarRegistry = new Map<string, TradingCalendar>();
+// Holidays and early closes per calendar and year, computed once
+const yearCache = new Map<string, { holidays: Map<string, string>; earlyCloses: Map<string, string>; tradingDays: number }>();
+
+// Registering an id that already exists replaces the previous calendar
+export const registerTradingCalendar = (calendar: TradingCalendar): void => {
+  calendarRegistry.set(calendar.id, calendar);
+  Array.from(yearCache.keys())
+    .filter(key => key.startsWith(`${calendar.id}:`))
+    .forEach(key => yearCache.delete(key));
+};
+
+export const getTradingCalendars = (): TradingCalendar[] => {
+  return Array.from(calendarRegistry.values());
+};
+
+// Exchanges without a registered calendar use the default one
+export const getTradingCalendar = (exchange: string = DEFAULT_CALENDAR_ID): TradingCalendar => {
+  return calendarRegistry.get(exchange.toUpperCase()) ?? calendarRegistry.get(DEFAULT_CALENDAR_ID)!;
+};
+
+// Date keys are read in UTC so the day of the week does not depend on the user's time zone
+const toUTCDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const toKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const shiftDays = (date: string, days: number): string => {
+  const day = toUTCDate(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return toKey(day);
+};
+
+// Midday local time, so the key survives a round trip through toISOString in any time zone
+export const fromDateKey = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+};
+
+// Calendar day of a local date
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const getYear = (calendar: TradingCalendar, year: number) => {
+  const key = `${calendar.id}:${year}`;
+  let cached = yearCache.get(key);
+  if (!cached) {
+    const holidays = calendar.getHolidays(year);
+    const earlyCloses = calendar.getEarlyCloses(year);
+    let tradingDays = 0;
+    for (let day = `${year}-01-01`; day <= `${year}-12-31`; day = shiftDays(day, 1)) {
+      if (!calendar.weekendDays.includes(toUTCDate(day).getUTCDay()) && !holidays.has(day)) {
+        tradingDays++;
+      }
+    }
+    cached = { holidays, earlyCloses, tradingDays };
+    yearCache.set(key, cached);
+  }
+  return cached;
+};
+
+const yearOf = (date: string): number => Number(date.slice(0, 4));
+
+// Name of the holiday the exchange is closed for, or null
+export const getHoliday = (date: string, calendar = getTradingCalendar()): string | null => {
+  return getYear(calendar, yearOf(date)).holidays.get(date.slice(0, 10)) ?? null;
+};
+
+export const isTradingDay = (date: string, calendar = getTradingCalendar()): boolean => {
+  return !calendar.weekendDays.includes(toUTCDate(date).getUTCDay()) && getHoliday(date, calendar) === null;
+};
+
+// Name of the early close on a trading day, or null for a full session
+export const getEarlyClose = (date: string, calendar = getTradingCalendar()): string | null => {
+  return getYear(calendar, yearOf(date)).earlyCloses.get(date.slice(0, 10)) ?? null;
+};
+
+// Session close on the day, local to the exchange
+export const getSessionClose = (date: string, calendar = getTradingCalendar()): string => {
+  return getEarlyClose(date, calendar) ? calendar.earlyClose : calendar.sessionClose;
+};
+
+export const getTradingDays = (start: string, end: string, calendar = getTradingCalendar()): string[] => {
+  const days: string[] = [];
+  for (let day = start.slice(0, 10); day <= end; day = shiftDays(day, 1)) {
+    if (isTradingDay(day, calendar)) {
+      days.push(day);
+    }
+  }
+  return days;
+};
+
+// The first trading days from the start date, inclusive
+export const getTradingDaysFrom = (start: string, count: number, calendar = getTradingCalendar()): string[] => {
+  const days: string[] = [];
+  for (let day = start.slice(0, 10); days.length < count; day = shiftDays(day, 1)) {
+    if (isTradingDay(day, calendar)) {
+      days.push(day);
+    }
+  }
+  return days;
+};
+
+// The date itself when it is a trading day, otherwise the nearest trading day before it
+export const previousTradingDay = (date: string, calendar = getTradingCalendar()): string => {
+  let day = date.slice(0, 10);
+  while (!isTradingDay(day, calendar)) {
+    day = shiftDays(day, -1);
+  }
+  return day;
+};
+
+// The date itself when it is a trading day, otherwise the nearest trading day after it
+export const nextTradingDay = (date: string, calendar = getTradingCalendar()): string => {
+  let day = date.slice(0, 10);
+  while (!isTradingDay(day, calendar)) {
+    day = shiftDays(day, 1);
+  }
+  return day;
+};
+
+// Move a trading day by a number of sessions, backwards when negative
+export const addTradingDays = (date: string, sessions: number, calendar = getTradingCalendar()): string => {
+  const step = sessions < 0 ? -1 : 1;
+  let day = step < 0 ? previousTradingDay(date, calendar) : nextTradingDay(date, calendar);
+  for (let moved = 0; moved < Math.abs(sessions); ) {
+    day = shiftDays(day, step);
+    if (isTradingDay(day, calendar)) {
+      moved++;
+    }
+  }
+  return day;
+};
+
+// Sessions from one date to a later one: 1 for consecutive trading days, more when sessions are
+// missing in between. Exchange holidays and weekends are not missing sessions.
+export const countSessionsBetween = (from: string, to: string, calendar = getTradingCalendar()): number => {
+  let sessions = 0;
+  for (let day = shiftDays(from, 1); day <= to.slice(0, 10); day = shiftDays(day, 1)) {
+    if (isTradingDay(day, calendar)) {
+      sessions++;
+    }
+  }
+  return Math.max(sessions, 1);
+};
+
+// Number of sessions in a calendar year, for annualising daily statistics
+export const getTradingDaysPerYear = (year: number, calendar = getTradingCalendar()): number => {
+  return getYear(calendar, year).tradingDays;
+};
+
+// Sessions in the year ending on the date, for annualising statistics that end there
+export const getAnnualTradingDays = (date: string, calendar = getTradingCalendar()): number => {
+  const day = toUTCDate(date);
+  day.setUTCFullYear(day.getUTCFullYear() - 1);
+  return getTradingDays(shiftDays(toKey(day), 1), date.slice(0, 10), calendar).length;
+};
+
+// Session times
+// Intraday bars are stamped in the exchange's local time with its UTC offset, such as
+// 2024-05-10T09:30:00-04:00, so the calendar day is the first ten characters in every time zone.
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes the time zone is ahead of UTC at the instant
+const getUtcOffset = (timeZone: string, time: number): number => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(time)).map(part => [part.type, Number(part.value)]));
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((local - Math.floor(time / 1000) * 1000) / 60000);
+};
+
+// UTC time of a local wall-clock time on a date at the exchange
+const toExchangeTime = (date: string, time: string, calendar: TradingCalendar): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = toUTCDate(date).getTime() + (hour * 60 + minute) * 60000;
+  // Two passes settle the offset on days the clocks change
+  const offset = getUtcOffset(calendar.timeZone, wallClock - getUtcOffset(calendar.timeZone, wallClock) * 60000);
+  return wallClock - offset * 60000;
+};
+
+// Start and end of the day's session as UTC milliseconds
+export const getSessionBounds = (date: string, calendar = getTradingCalendar()): { open: number; close: number } => {
+  return {
+    open: toExchangeTime(date, calendar.sessionOpen, calendar),
+    close: toExchangeTime(date, getSessionClose(date, calendar), calendar)
+  };
+};
+
+// Timestamp of an instant in the exchange's local time, with its UTC offset
+export const formatExchangeTime = (time: number, calendar = getTradingCalendar()): string => {
+  const offset = getUtcOffset(calendar.timeZone, time);
+  const local = new Date(time + offset * 60000).toISOString().slice(0, 19);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${local}${sign}${hours}:${minutes}`;
+};
+
+// US exchange holiday rules
+
+// nth weekday of a month (n = -1 for the last one); month is 1-based
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return toKey(last);
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  return toKey(first);
+};
+
+// Western Easter Sunday (anonymous Gregorian algorithm)
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toKey(new Date(Date.UTC(year, month - 1, day)));
+};
+
+// A fixed-date holiday on a Saturday is observed on the Friday, on a Sunday on the Monday
+const observed = (date: string): string => {
+  const weekday = toUTCDate(date).getUTCDay();
+  return weekday === 6 ? shiftDays(date, -1) : weekday === 0 ? shiftDays(date, 1) : date;
+};
+
+// Unscheduled closures: national days of mourning, weather and the September 2001 attacks
+const NYSE_SPECIAL_CLOSURES: Record<string, string> = {
+  '2001-09-11': 'September 11 attacks',
+  '2001-09-12': 'September 11 attacks',
+  '2001-09-13': 'September 11 attacks',
+  '2001-09-14': 'September 11 attacks',
+  '2004-06-11': 'Day of mourning for Ronald Reagan',
+  '2007-01-02': 'Day of mourning for Gerald Ford',
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'Day of mourning for George H. W. Bush',
+  '2025-01-09': 'Day of mourning for Jimmy Carter'
+};
+
+const getNyseHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  // New Year's Day on a Saturday is not observed on the Friday before, which ends the old year
+  const newYear = `${year}-01-01`;
+  if (toUTCDate(newYear).getUTCDay() !== 6) {
+    holidays.set(observed(newYear), "New Year's Day");
+  }
+  holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(shiftDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) {
+    holidays.set(observed(`${year}-06-19`), 'Juneteenth');
+  }
+  holidays.set(observed(`${year}-07-04`), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observed(`${year}-12-25`), 'Christmas Day');
+  Object.entries(NYSE_SPECIAL_CLOSURES)
+    .filter(([date]) => yearOf(date) === year)
+    .forEach(([date, name]) => holidays.set(date, name));
+  return holidays;
+};
+
+// 1:00 pm closes before Independence Day, after Thanksgiving and on Christmas Eve
+const getNyseEarlyCloses = (year: number): Map<string, string> => {
+  const earlyCloses = new Map<string, string>();
+  const holidays = getNyseHolidays(year);
+  const addIfOpen = (date: string, name: string) => {
+    const weekday = toUTCDate(date).getUTCDay();
+    if (weekday !== 0 && weekday !== 6 && !holidays.has(date)) {
+      earlyCloses.set(date, name);
+    }
+  };
+  addIfOpen(`${year}-07-03`, 'Day before Independence Day');
+  addIfOpen(shiftDays(nthWeekday(year, 11, 4, 4), 1), 'Day after Thanksgiving');
+  addIfOpen(`${year}-12-24`, 'Christmas Eve');
+  return earlyCloses;
+};
+
+const US_EQUITY_SESSION = {
+  timeZone: 'America/New_York',
+  sessionOpen: '09:30',
+  sessionClose: '16:00',
+  earlyClose: '13:00',
+  weekendDays: [0, 6],
+  getHolidays: getNyseHolidays,
+  getEarlyCloses: getNyseEarlyCloses
+};
+
+registerTradingCalendar({ id: 'NYSE', name: 'New York Stock Exchange', ...US_EQUITY_SESSION });
+registerTradingCalendar({ id: 'NASDAQ', name: 'Nasdaq', ...US_EQUITY_SESSION });
@@ -0,0 +1,299 @@
+import { AnomalyContribution } from '@/types';
+import { AnomalyDetectionConfig, AnomalyDetector, calibratedScore, getRegisteredDetectors } from '@/utils/anomalyDetection';
+import { AnomalyTriageRecords } from '@/utils/anomalyTriage';
+import { WEIGHT_SPEC } from '@/utils/detectionSettings';
+
+// Tuning from analyst feedback
+// Anomalies analysts have confirmed or marked as false positives are labelled history for the
+// configuration that found them. Weights come from a logistic regression of the label on each
+// detector's calibrated score, the same scores the weights multiply in the ensemble, so a detector
+// whose findings tell real anomalies apart gets more of the score. Thresholds can only be raised:
+// feedback covers what was found, not what was missed, so a lower threshold cannot be measured.
+// A threshold is raised while that drops more false positives than confirmed anomalies (by F1).
+// The proposal's expected figures are cross-validated: each labelled anomaly is judged by a fit to
+// the other folds' labels, so they are not flattered by the fit having seen it.
+
+// Fewer labels than this, or no labels of one kind, cannot support a fit
+export const MIN_TUNING_LABELS = 10;
+
+const REGRESSION_ITERATIONS = 500;
+const LEARNING_RATE = 0.1;
+// L2 penalty on the detector coefficients, which keeps detectors seen on a few labels near zero
+const L2_PENALTY = 0.1;
+const THRESHOLD_PASSES = 3;
+const CROSS_VALIDATION_FOLDS = 5;
+
+export interface LabelledDetection {
+  contributions: AnomalyContribution[];
+  confirmed: boolean;
+}
+
+// Measured on the labelled anomalies: recall is of the confirmed ones, and average precision is of
+// the flagged ones ranked by ensemble score
+export interface TuningMetrics {
+  flagged: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  averagePrecision: number;
+}
+
+export interface DetectorTuning {
+  detectorId: string;
+  // Labelled anomalies the detector contributed to
+  labels: number;
+  currentWeight: number;
+  proposedWeight: number;
+  thresholdParam?: string;
+  currentThreshold?: number;
+  proposedThreshold?: number;
+}
+
+export interface TuningProposal {
+  config: AnomalyDetectionConfig;
+  detectors: DetectorTuning[];
+  current: TuningMetrics;
+  // Cross-validated over `folds` folds of the labelled anomalies
+  proposed: TuningMetrics;
+  folds: number;
+  confirmed: number;
+  falsePositives: number;
+}
+
+// Thresholds of the detectors that have one, by detector id
+type Thresholds = Record<string, number>;
+
+interface TunedConfig {
+  config: AnomalyDetectionConfig;
+  weights: Record<string, number>;
+  thresholds: Thresholds;
+}
+
+// A labelled anomaly as a configuration sees it
+interface Judgement {
+  confirmed: boolean;
+  flagged: boolean;
+  score: number;
+}
+
+export const getLabelledDetections = (triage: AnomalyTriageRecords): LabelledDetection[] => {
+  return Object.values(triage)
+    .filter(record => (record.status === 'confirmed' || record.status === 'falsePositive') && record.contributions?.length)
+    .map(record => ({ contributions: record.contributions!, confirmed: record.status === 'confirmed' }));
+};
+
+const sigmoid = (value: number): number => 1 / (1 + Math.exp(-value));
+
+// Coefficients of each feature, after the intercept, fitted by gradient descent from zero so the
+// same labels always give the same fit
+const fitLogisticRegression = (features: number[][], labels: boolean[]): number[] => {
+  const size = features[0].length;
+  let coefficients = new Array<number>(size + 1).fill(0);
+  for (let iteration = 0; iteration < REGRESSION_ITERATIONS; iteration++) {
+    const gradient = new Array<number>(size + 1).fill(0);
+    features.forEach((row, i) => {
+      const predicted = sigmoid(coefficients[0] + row.reduce((sum, value, j) => sum + value * coefficients[j + 1], 0));
+      const error = predicted - (labels[i] ? 1 : 0);
+      gradient[0] += error;
+      row.forEach((value, j) => {
+        gradient[j + 1] += error * value;
+      });
+    });
+    coefficients = coefficients.map((coefficient, j) => {
+      const penalty = j === 0 ? 0 : L2_PENALTY * coefficient;
+      return coefficient - LEARNING_RATE * (gradient[j] / features.length + penalty);
+    });
+  }
+  return coefficients.slice(1);
+};
+
+const isEnabled = (detectorId: string, config: AnomalyDetectionConfig): boolean => {
+  return config[detectorId]?.enabled ?? true;
+};
+
+// A labelled anomaly is still found when an enabled detector's finding passes its threshold
+const isFlagged = (sample: LabelledDetection, config: AnomalyDetectionConfig, thresholds: Thresholds): boolean => {
+  return sample.contributions.some(contribution =>
+    isEnabled(contribution.detectorId, config)
+    && (thresholds[contribution.detectorId] === undefined || Math.abs(contribution.statistic) >= thresholds[contribution.detectorId])
+  );
+};
+
+const getScore = (sample: LabelledDetection, config: AnomalyDetectionConfig): number => {
+  return sample.contributions
+    .filter(contribution => isEnabled(contribution.detectorId, config))
+    .reduce((sum, contribution) => sum + calibratedScore(contribution.pValue) * (config[contribution.detectorId]?.weight ?? contribution.weight), 0);
+};
+
+const judge = (sample: LabelledDetection, config: AnomalyDetectionConfig, thresholds: Thresholds): Judgement => ({
+  confirmed: sample.confirmed,
+  flagged: isFlagged(sample, config, thresholds),
+  score: getScore(sample, config)
+});
+
+const summarize = (judgements: Judgement[]): TuningMetrics => {
+  const flagged = judgements
+    .filter(judgement => judgement.flagged)
+    .sort((a, b) => b.score - a.score);
+  const confirmed = judgements.filter(judgement => judgement.confirmed).length;
+  let truePositives = 0;
+  let precisionSum = 0;
+  flagged.forEach((judgement, rank) => {
+    if (!judgement.confirmed) return;
+    truePositives++;
+    precisionSum += truePositives / (rank + 1);
+  });
+  const precision = flagged.length > 0 ? truePositives / flagged.length : 0;
+  const recall = confirmed > 0 ? truePositives / confirmed : 0;
+  return {
+    flagged: flagged.length,
+    truePositives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    averagePrecision: confirmed > 0 ? precisionSum / confirmed : 0
+  };
+};
+
+const measure = (samples: LabelledDetection[], config: AnomalyDetectionConfig, thresholds: Thresholds): TuningMetrics => {
+  return summarize(samples.map(sample => judge(sample, config, thresholds)));
+};
+
+const roundTo = (value: number, step: number): number => {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return Number(value.toFixed(decimals));
+};
+
+// The current threshold and each step just above a labelled finding's statistic, which is where
+// flagging changes
+const getThresholdCandidates = (detectorId: string, current: number, samples: LabelledDetection[], max: number, step: number): number[] => {
+  const candidates = samples
+    .flatMap(sample => sample.contributions.filter(contribution => contribution.detectorId === detectorId))
+    .map(contribution => roundTo((Math.floor(Math.abs(contribution.statistic) / step) + 1) * step, step))
+    .filter(threshold => threshold > current && threshold <= max);
+  return [current, ...Array.from(new Set(candidates)).sort((a, b) => a - b)];
+};
+
+const getCurrentThresholds = (detectors: AnomalyDetector[], config: AnomalyDetectionConfig): Thresholds => {
+  const thresholds: Thresholds = {};
+  detectors.forEach(detector => {
+    if (detector.thresholdParam) {
+      thresholds[detector.id] = Number(config[detector.id]?.[detector.thresholdParam] ?? detector.defaults[detector.thresholdParam]);
+    }
+  });
+  return thresholds;
+};
+
+// Fits weights and thresholds for the detectors to the labelled anomalies
+const fitConfig = (samples: LabelledDetection[], config: AnomalyDetectionConfig, detectors: AnomalyDetector[]): TunedConfig => {
+  const getWeight = (detectorId: string) => config[detectorId]?.weight ?? 0;
+
+  // Weights share out the same total as before, in proportion to the fitted coefficients, up to
+  // the most a weight can be set to
+  const features = samples.map(sample => detectors.map(detector => {
+    const contribution = sample.contributions.find(c => c.detectorId === detector.id);
+    return contribution ? calibratedScore(contribution.pValue) : 0;
+  }));
+  const coefficients = fitLogisticRegression(features, samples.map(sample => sample.confirmed)).map(c => Math.max(c, 0));
+  const fittedTotal = coefficients.reduce((sum, c) => sum + c, 0);
+  const currentTotal = detectors.reduce((sum, detector) => sum + getWeight(detector.id), 0);
+  const weights: Record<string, number> = {};
+  detectors.forEach((detector, i) => {
+    weights[detector.id] = fittedTotal > 0
+      ? Math.min(roundTo((coefficients[i] / fittedTotal) * currentTotal, 0.01), WEIGHT_SPEC.max ?? Infinity)
+      : getWeight(detector.id);
+  });
+
+  // Raise one threshold at a time to the candidate with the best F1, until none improves
+  const thresholds = getCurrentThresholds(detectors, config);
+  for (let pass = 0; pass < THRESHOLD_PASSES; pass++) {
+    let improved = false;
+    detectors.filter(detector => detector.thresholdParam).forEach(detector => {
+      const spec = detector.schema[detector.thresholdParam!];
+      const candidates = getThresholdCandidates(detector.id, thresholds[detector.id], samples, spec?.max ?? Infinity, spec?.step ?? 0.1);
+      let best = { threshold: thresholds[detector.id], f1: measure(samples, config, thresholds).f1 };
+      candidates.forEach(threshold => {
+        const f1 = measure(samples, config, { ...thresholds, [detector.id]: threshold }).f1;
+        if (f1 > best.f1) {
+          best = { threshold, f1 };
+        }
+      });
+      if (best.threshold !== thresholds[detector.id]) {
+        thresholds[detector.id] = best.threshold;
+        improved = true;
+      }
+    });
+    if (!improved) break;
+  }
+
+  const proposed: AnomalyDetectionConfig = { ...config };
+  detectors.forEach(detector => {
+    proposed[detector.id] = {
+      ...detector.defaults,
+      ...config[detector.id],
+      weight: weights[detector.id],
+      ...(detector.thresholdParam && { [detector.thresholdParam]: thresholds[detector.id] })
+    };
+  });
+  return { config: proposed, weights, thresholds };
+};
+
+// Stratified folds: confirmed anomalies and false positives are each dealt round the folds in turn,
+// so every fold has its share of both
+const getFolds = (samples: LabelledDetection[], count: number): LabelledDetection[][] => {
+  const folds = Array.from({ length: count }, (): LabelledDetection[] => []);
+  [true, false].forEach(confirmed => {
+    samples
+      .filter(sample => sample.confirmed === confirmed)
+      .forEach((sample, i) => folds[i % count].push(sample));
+  });
+  return folds;
+};
+
+// Judges each fold's anomalies by a fit to the others. A fold whose training labels are all of one
+// kind cannot be fitted and is judged by the current configuration.
+const crossValidate = (samples: LabelledDetection[], config: AnomalyDetectionConfig, detectors: AnomalyDetector[], folds: number): TuningMetrics => {
+  const judgements = getFolds(samples, folds).flatMap((test, fold, all) => {
+    const training = all.filter((_, other) => other !== fold).flat();
+    const confirmed = training.filter(sample => sample.confirmed).length;
+    const fitted = confirmed > 0 && confirmed < training.length
+      ? fitConfig(training, config, detectors)
+      : { config, thresholds: getCurrentThresholds(detectors, config) };
+    return test.map(sample => judge(sample, fitted.config, fitted.thresholds));
+  });
+  return summarize(judgements);
+};
+
+// Null until there are enough labels of both kinds
+export const tuneFromFeedback = (samples: LabelledDetection[], config: AnomalyDetectionConfig): TuningProposal | null => {
+  const confirmed = samples.filter(sample => sample.confirmed).length;
+  if (samples.length < MIN_TUNING_LABELS || confirmed === 0 || confirmed === samples.length) {
+    return null;
+  }
+
+  const detectors = getRegisteredDetectors().filter(detector =>
+    isEnabled(detector.id, config)
+    && samples.some(sample => sample.contributions.some(contribution => contribution.detectorId === detector.id))
+  );
+  const currentThresholds = getCurrentThresholds(detectors, config);
+  const tuned = fitConfig(samples, config, detectors);
+
+  return {
+    config: tuned.config,
+    detectors: detectors.map(detector => ({
+      detectorId: detector.id,
+      labels: samples.filter(sample => sample.contributions.some(contribution => contribution.detectorId === detector.id)).length,
+      currentWeight: config[detector.id]?.weight ?? 0,
+      proposedWeight: tuned.weights[detector.id],
+      thresholdParam: detector.thresholdParam,
+      currentThreshold: currentThresholds[detector.id],
+      proposedThreshold: tuned.thresholds[detector.id]
+    })),
+    current: measure(samples, config, currentThresholds),
+    proposed: crossValidate(samples, config, detectors, CROSS_VALIDATION_FOLDS),
+    folds: CROSS_VALIDATION_FOLDS,
+    confirmed,
+    falsePositives: samples.length - confirmed
+  };
+};
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Market data source: mock (default), csv or http
+  readonly VITE_MARKET_DATA_PROVIDER?: string;
+  // Base URL for the csv and http market data providers
+  readonly VITE_MARKET_DATA_URL?: string;
+  // WebSocket URL of the live quote feed, e.g. ws://localhost:8788; no live updates without it
+  readonly VITE_LIVE_FEED_URL?: string;
+}
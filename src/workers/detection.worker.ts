@@ -0,0 +1,31 @@
+import { getRegisteredDetectors } from '@/utils/anomalyDetection';
+import { DetectionJob, DetectionRequest, DetectionResponse, runDetectionJob } from '@/utils/detectionJobs';
+
+// Runs detection jobs for the detection pool, one at a time. Detectors and calendars are the ones
+// the modules register when they load; the pool runs jobs that need anything registered at run
+// time on the page on the page's thread instead.
+
+const post = (response: DetectionResponse) => self.postMessage(response);
+
+// A detector enabled in the job but not registered here would otherwise be skipped without notice
+const findMissingDetectors = (job: DetectionJob): string[] => {
+  if (job.kind === 'metrics') return [];
+  const registered = new Set(getRegisteredDetectors().map(detector => detector.id));
+  return Object.entries(job.config)
+    .filter(([id, settings]) => settings.enabled && !registered.has(id))
+    .map(([id]) => id);
+};
+
+self.onmessage = async (event: MessageEvent<DetectionRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const missing = findMissingDetectors(job);
+    if (missing.length > 0) {
+      throw new Error(`Detectors not available in the detection worker: ${missing.join(', ')}`);
+    }
+    const result = await runDetectionJob(job, fraction => post({ type: 'progress', id, fraction }));
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StockData, Timeframe } from '@/types';
+import { resampleBars, toDailyBars } from '@/utils/barInterval';
+import { createSeededRandom, randomNormal } from '@/utils/random';
+import { formatExchangeTime, getSessionBounds } from '@/utils/tradingCalendar';
+
+// A full session, the day before Thanksgiving, and the 1:00 pm close the day after it
+const FULL_DAY = '2024-11-27';
+const EARLY_CLOSE = '2024-11-29';
+
+// One-minute bars from the open to the close of each day, as a random walk
+const createMinuteBars = (days: string[]): StockData[] => {
+  const random = createSeededRandom(3);
+  let close = 100;
+  return days.flatMap(day => {
+    const { open, close: end } = getSessionBounds(day);
+    const bars: StockData[] = [];
+    for (let time = open; time < end; time += 60000) {
+      const barOpen = close;
+      close = close * (1 + 0.001 * randomNormal(random));
+      bars.push({
+        symbol: 'TEST',
+        date: formatExchangeTime(time),
+        open: barOpen,
+        high: Math.max(barOpen, close) + 0.01,
+        low: Math.min(barOpen, close) - 0.01,
+        close,
+        volume: 100 + Math.floor(random() * 900)
+      });
+    }
+    return bars;
+  });
+};
+
+const daily = (date: string, close: number): StockData => ({
+  symbol: 'TEST',
+  date,
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 1000
+});
+
+describe('resampleBars', () => {
+  const minuteBars = createMinuteBars([FULL_DAY, EARLY_CLOSE]);
+  const days = toDailyBars(minuteBars);
+
+  it('has a minute bar for every minute of each session', () => {
+    assert.equal(minuteBars.filter(bar => bar.date.startsWith(FULL_DAY)).length, 390);
+    assert.equal(minuteBars.filter(bar => bar.date.startsWith(EARLY_CLOSE)).length, 210);
+  });
+
+  (['5m', '15m', '1h'] as Timeframe[]).forEach(timeframe => {
+    it(`gives ${timeframe} bars that add up to the daily bar`, () => {
+      const resampled = resampleBars(minuteBars, timeframe);
+      days.forEach(day => {
+        const bars = resampled.filter(bar => bar.date.startsWith(day.date));
+        assert.equal(bars[0].open, day.open);
+        assert.equal(bars[bars.length - 1].close, day.close);
+        assert.equal(Math.max(...bars.map(bar => bar.high)), day.high);
+        assert.equal(Math.min(...bars.map(bar => bar.low)), day.low);
+        assert.equal(bars.reduce((sum, bar) => sum + bar.volume, 0), day.volume);
+      });
+      assert.equal(resampled.reduce((sum, bar) => sum + bar.volume, 0), minuteBars.reduce((sum, bar) => sum + bar.volume, 0));
+    });
+  });
+
+  it('anchors hourly bars at the open and ends them at an early close', () => {
+    const hourly = resampleBars(minuteBars, '1h');
+    assert.deepEqual(hourly.filter(bar => bar.date.startsWith(FULL_DAY)).map(bar => bar.date.slice(11, 16)), [
+      '09:30', '10:30', '11:30', '12:30', '13:30', '14:30', '15:30'
+    ]);
+    assert.deepEqual(hourly.filter(bar => bar.date.startsWith(EARLY_CLOSE)).map(bar => bar.date.slice(11, 16)), [
+      '09:30', '10:30', '11:30', '12:30'
+    ]);
+    assert.equal(hourly[hourly.length - 1].date, '2024-11-29T12:30:00-05:00');
+  });
+
+  it('gives fewer 15-minute bars on an early close', () => {
+    const bars = resampleBars(minuteBars, '15m');
+    assert.equal(bars.filter(bar => bar.date.startsWith(FULL_DAY)).length, 26);
+    assert.equal(bars.filter(bar => bar.date.startsWith(EARLY_CLOSE)).length, 14);
+  });
+
+  it('gives one daily bar per session', () => {
+    assert.deepEqual(resampleBars(minuteBars, '1d'), days);
+    assert.deepEqual(days.map(day => day.date), [FULL_DAY, EARLY_CLOSE]);
+  });
+
+  it('dates weekly bars by their first trading day', () => {
+    // Thanksgiving, 2024-11-28, is a holiday
+    const bars = ['2024-11-20', '2024-11-22', '2024-11-25', '2024-11-26', '2024-11-27', '2024-11-29', '2024-12-02']
+      .map((date, i) => daily(date, 100 + i));
+    const weekly = resampleBars(bars, '1w');
+    assert.deepEqual(weekly.map(bar => bar.date), ['2024-11-20', '2024-11-25', '2024-12-02']);
+    assert.deepEqual(weekly.map(bar => [bar.open, bar.close, bar.volume]), [[100, 101, 2000], [102, 105, 4000], [106, 106, 1000]]);
+  });
+
+  it('does not resample daily bars to an intraday interval', () => {
+    assert.throws(() => resampleBars([daily('2024-11-27', 100)], '1h'));
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CorporateAction, StockData } from '@/types';
+import { detectAnomalies } from '@/utils/anomalyDetection';
+import {
+  adjustForCorporateActions,
+  describeCorporateAction,
+  inferCorporateActions,
+  unadjustForCorporateActions
+} from '@/utils/corporateActions';
+import { createSeededRandom, randomNormal } from '@/utils/random';
+
+const bar = (date: string, close: number, volume = 1000): StockData => ({
+  symbol: 'TEST',
+  date,
+  open: close,
+  high: close * 1.01,
+  low: close * 0.99,
+  close,
+  volume
+});
+
+const split = (date: string, value: number): CorporateAction => ({ symbol: 'TEST', date, type: 'split', value });
+const dividend = (date: string, value: number): CorporateAction => ({ symbol: 'TEST', date, type: 'dividend', value });
+
+const assertClose = (actual: number, expected: number, message?: string) => {
+  assert.ok(Math.abs(actual - expected) < 1e-6, message ?? `${actual} is not ${expected}`);
+};
+
+// Consecutive weekdays from the start date
+const getWeekdays = (start: string, count: number): string[] => {
+  const days: string[] = [];
+  for (const day = new Date(`${start}T00:00:00Z`); days.length < count; day.setUTCDate(day.getUTCDate() + 1)) {
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+      days.push(day.toISOString().slice(0, 10));
+    }
+  }
+  return days;
+};
+
+// A seeded random walk of traded bars, with a 4-for-1 split on the given bar
+const createSplitSeries = (bars: number, splitBar: number): StockData[] => {
+  const random = createSeededRandom(11);
+  let close = 400;
+  return getWeekdays('2023-01-03', bars).map((date, i) => {
+    close = close * Math.exp(0.01 * randomNormal(random)) / (i === splitBar ? 4 : 1);
+    const volume = Math.round(1000000 * Math.exp(0.2 * randomNormal(random)) * (i >= splitBar ? 4 : 1));
+    return bar(date, close, volume);
+  });
+};
+
+describe('corporate action adjustment', () => {
+  it('back-adjusts prices and volume for a split', () => {
+    const data = [bar('2024-01-02', 400, 100), bar('2024-01-03', 404, 100), bar('2024-01-04', 101, 400)];
+    const adjusted = adjustForCorporateActions(data, [split('2024-01-04', 4)]);
+    assert.deepEqual(adjusted.map(d => d.close), [100, 101, 101]);
+    assert.deepEqual(adjusted.map(d => d.volume), [400, 400, 400]);
+    assert.deepEqual(adjusted.map(d => d.adjClose), [100, 101, 101]);
+  });
+
+  it('back-adjusts prices but not volume for a dividend', () => {
+    const data = [bar('2024-01-02', 50), bar('2024-01-03', 100), bar('2024-01-04', 98)];
+    const adjusted = adjustForCorporateActions(data, [dividend('2024-01-04', 2)]);
+    assertClose(adjusted[0].close, 49);
+    assertClose(adjusted[1].close, 98);
+    assert.equal(adjusted[2].close, 98);
+    assert.deepEqual(adjusted.map(d => d.volume), [1000, 1000, 1000]);
+  });
+
+  it('applies an action dated on a non-trading day from the next bar', () => {
+    // 2024-01-06 was a Saturday
+    const data = [bar('2024-01-05', 200), bar('2024-01-08', 100)];
+    const adjusted = adjustForCorporateActions(data, [split('2024-01-06', 2)]);
+    assert.deepEqual(adjusted.map(d => d.close), [100, 100]);
+  });
+
+  it('ignores actions outside the range', () => {
+    const data = [bar('2024-01-02', 100), bar('2024-01-03', 101)];
+    const adjusted = adjustForCorporateActions(data, [split('2023-06-01', 4), split('2024-02-01', 4)]);
+    assert.deepEqual(adjusted.map(d => d.close), [100, 101]);
+  });
+
+  it('rebuilds the traded bars from the adjusted ones', () => {
+    const data = [bar('2024-01-02', 400), bar('2024-01-03', 404), bar('2024-01-04', 101), bar('2024-01-05', 100), bar('2024-01-08', 99)];
+    const actions = [split('2024-01-04', 4), dividend('2024-01-08', 0.5)];
+    const traded = unadjustForCorporateActions(adjustForCorporateActions(data, actions), actions);
+    traded.forEach((d, i) => {
+      assertClose(d.close, data[i].close, `close of ${d.date}`);
+      assertClose(d.high, data[i].high, `high of ${d.date}`);
+      assert.equal(d.volume, data[i].volume);
+    });
+  });
+
+  it('recovers splits and dividends from the adjusted close', () => {
+    const data = [bar('2024-01-02', 400), bar('2024-01-03', 404), bar('2024-01-04', 101), bar('2024-01-05', 100), bar('2024-01-08', 99)];
+    const actions = [split('2024-01-04', 4), dividend('2024-01-08', 0.5)];
+    const adjusted = adjustForCorporateActions(data, actions);
+    const withAdjClose = data.map((d, i) => ({ ...d, adjClose: adjusted[i].close }));
+    assert.deepEqual(inferCorporateActions(withAdjClose), actions);
+  });
+
+  it('recovers a reverse split', () => {
+    const data = [bar('2024-01-02', 1, 5000), bar('2024-01-03', 10.2, 500)];
+    const adjusted = adjustForCorporateActions(data, [split('2024-01-03', 0.1)]);
+    const withAdjClose = data.map((d, i) => ({ ...d, adjClose: adjusted[i].close }));
+    const [action] = inferCorporateActions(withAdjClose);
+    assert.deepEqual(action, split('2024-01-03', 0.1));
+    assert.equal(describeCorporateAction(action), '1-for-10 reverse split');
+  });
+
+  it('does not report a 4-for-1 split as a 75% fall', () => {
+    const splitBar = 90;
+    const data = createSplitSeries(150, splitBar);
+    const splitDate = data[splitBar].date;
+    assert.equal(describeCorporateAction(split(splitDate, 4)), '4-for-1 split');
+    assert.ok(data[splitBar].close / data[splitBar - 1].close < 0.3);
+
+    // Unadjusted, the split is a high-severity price anomaly
+    const onSplit = (series: StockData[]) => detectAnomalies(series).filter(anomaly => anomaly.date === splitDate);
+    assert.ok(onSplit(data).some(anomaly => anomaly.type === 'price' && anomaly.severity === 'high'));
+
+    // Adjusted, the series is continuous and no price-move detector fires on the split
+    const adjusted = adjustForCorporateActions(data, [split(splitDate, 4)]);
+    const returns = adjusted.slice(1).map((d, i) => d.close / adjusted[i].close - 1);
+    assert.ok(Math.min(...returns) > -0.1, `largest fall is ${Math.min(...returns)}`);
+    const priceMoves = new Set(['zscore', 'bollingerBands', 'changePoint']);
+    onSplit(adjusted).forEach(anomaly => {
+      assert.notEqual(anomaly.severity, 'high');
+      assert.ok(!anomaly.contributions?.some(contribution => priceMoves.has(contribution.detectorId)), anomaly.description);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StockData } from '@/types';
+import { validateStockData } from '@/utils/dataQuality';
+
+const bar = (date: string, overrides: Partial<StockData> = {}): StockData => ({
+  symbol: 'TEST',
+  date,
+  open: 100,
+  high: 102,
+  low: 98,
+  close: 101,
+  volume: 1000,
+  ...overrides
+});
+
+describe('data quality checks', () => {
+  it('keeps clean bars unchanged', () => {
+    const data = [bar('2024-01-02'), bar('2024-01-03')];
+    const report = validateStockData(data);
+    assert.deepEqual(report.data, data);
+    assert.deepEqual(report.issues, []);
+    assert.deepEqual(report.counts, { ok: 2, repaired: 0, excluded: 0 });
+  });
+
+  it('excludes bars with a non-positive close', () => {
+    const report = validateStockData([bar('2024-01-02', { close: 0 }), bar('2024-01-03', { close: -5 }), bar('2024-01-04')]);
+    assert.deepEqual(report.data.map(d => d.date), ['2024-01-04']);
+    assert.deepEqual(report.issues, [
+      { index: 0, date: '2024-01-02', status: 'excluded', reasons: ['non-positive close'] },
+      { index: 1, date: '2024-01-03', status: 'excluded', reasons: ['non-positive close'] }
+    ]);
+  });
+
+  it('excludes bars with zero volume', () => {
+    const report = validateStockData([bar('2024-01-02', { volume: 0 }), bar('2024-01-03')]);
+    assert.deepEqual(report.data.map(d => d.date), ['2024-01-03']);
+    assert.deepEqual(report.issues[0].reasons, ['zero volume']);
+    assert.deepEqual(report.counts, { ok: 1, repaired: 0, excluded: 1 });
+  });
+
+  it('keeps the latest bar for a repeated date', () => {
+    const report = validateStockData([bar('2024-01-02'), bar('2024-01-02', { close: 101.5 }), bar('2024-01-03')]);
+    assert.equal(report.data.length, 2);
+    assert.equal(report.data[0].close, 101.5);
+    assert.deepEqual(report.issues, [
+      { index: 0, date: '2024-01-02', status: 'excluded', reasons: ['duplicate date, superseded by a later bar'] }
+    ]);
+  });
+
+  it('reports an identical repeated bar as a plain duplicate', () => {
+    const report = validateStockData([bar('2024-01-02'), bar('2024-01-02')]);
+    assert.equal(report.data.length, 1);
+    assert.deepEqual(report.issues[0].reasons, ['duplicate date']);
+  });
+
+  it('repairs high and low from the rest of the bar', () => {
+    const report = validateStockData([
+      bar('2024-01-02', { high: 98, low: 102 }),
+      bar('2024-01-03', { high: 100.5 }),
+      bar('2024-01-04', { low: 100.5 }),
+      bar('2024-01-05', { high: 0 })
+    ]);
+    assert.deepEqual(report.data.map(({ high, low }) => [high, low]), [[102, 98], [101, 98], [102, 100], [101, 98]]);
+    assert.deepEqual(report.issues.map(issue => issue.reasons), [
+      ['high below low, swapped'],
+      ['high below open or close, raised'],
+      ['low above open or close, lowered'],
+      ['high not positive, set to close']
+    ]);
+    assert.deepEqual(report.counts, { ok: 0, repaired: 4, excluded: 0 });
+  });
+
+  it('sorts bars given out of date order', () => {
+    const report = validateStockData([bar('2024-01-03'), bar('2024-01-02')]);
+    assert.deepEqual(report.data.map(d => d.date), ['2024-01-02', '2024-01-03']);
+    assert.deepEqual(report.issues, [{ index: 1, date: '2024-01-02', status: 'repaired', reasons: ['out of date order, moved'] }]);
+  });
+
+  it('does not change the input bars', () => {
+    const data = [bar('2024-01-02', { high: 98, low: 102 })];
+    validateStockData(data);
+    assert.equal(data[0].high, 98);
+  });
+});
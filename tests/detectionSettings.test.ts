@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCustomConfig, getDefaultConfig } from '@/utils/anomalyDetection';
+import { BUILT_IN_PRESETS, getPresetConfig, toValidConfig, validateDetectionConfig } from '@/utils/detectionSettings';
+
+describe('validateDetectionConfig', () => {
+  it('accepts the defaults and the built-in presets', () => {
+    assert.deepEqual(validateDetectionConfig(getDefaultConfig()), {});
+    BUILT_IN_PRESETS.forEach(preset => {
+      assert.deepEqual(validateDetectionConfig(getPresetConfig(preset)), {}, preset.name);
+    });
+  });
+
+  it('reports a parameter outside its bounds', () => {
+    const errors = validateDetectionConfig(createCustomConfig({ zscore: { threshold: 9 }, macd: { weight: -1 } }));
+    assert.deepEqual(errors, {
+      zscore: { threshold: 'Threshold (σ) must be at most 5' },
+      macd: { weight: 'Weight must be at least 0' }
+    });
+  });
+
+  it('reports a parameter of the wrong type', () => {
+    const errors = validateDetectionConfig(createCustomConfig({ zscore: { mode: 'weekly', window: '60' as unknown as number } }));
+    assert.deepEqual(Object.keys(errors.zscore).sort(), ['mode', 'window']);
+  });
+
+  it('reports a MACD fast period that is not below the slow period on both', () => {
+    const errors = validateDetectionConfig(createCustomConfig({ macd: { fastPeriod: 30, slowPeriod: 20 } }));
+    assert.deepEqual(errors, {
+      macd: {
+        fastPeriod: 'Fast period must be less than the slow period',
+        slowPeriod: 'Fast period must be less than the slow period'
+      }
+    });
+    assert.ok(validateDetectionConfig(createCustomConfig({ macd: { fastPeriod: 20, slowPeriod: 20 } })).macd);
+  });
+
+  it('reports Z-score minimum periods above the window on both', () => {
+    const errors = validateDetectionConfig(createCustomConfig({ zscore: { minPeriods: 40, window: 30 } }));
+    assert.deepEqual(Object.keys(errors.zscore).sort(), ['minPeriods', 'window']);
+    assert.deepEqual(validateDetectionConfig(createCustomConfig({ zscore: { minPeriods: 30, window: 30 } })), {});
+  });
+});
+
+describe('toValidConfig', () => {
+  it('applies valid overrides over the defaults', () => {
+    const config = toValidConfig({ zscore: { threshold: 3.5 }, macd: { enabled: false } });
+    assert.equal(config.zscore.threshold, 3.5);
+    assert.equal(config.macd.enabled, false);
+    assert.deepEqual(config.bollingerBands, getDefaultConfig().bollingerBands);
+  });
+
+  it('drops the overrides that are not valid and keeps the rest', () => {
+    const defaults = getDefaultConfig();
+    const config = toValidConfig({ zscore: { threshold: 9, window: 30 }, seasonalVolume: { threshold: 'high' as unknown as number } });
+    assert.equal(config.zscore.threshold, defaults.zscore.threshold);
+    assert.equal(config.zscore.window, 30);
+    assert.deepEqual(config.seasonalVolume, defaults.seasonalVolume);
+    assert.deepEqual(validateDetectionConfig(config), {});
+  });
+
+  it('drops both sides of a pair that does not hold', () => {
+    const defaults = getDefaultConfig();
+    const config = toValidConfig({ macd: { slowPeriod: 10, signalPeriod: 5 } });
+    assert.equal(config.macd.fastPeriod, defaults.macd.fastPeriod);
+    assert.equal(config.macd.slowPeriod, defaults.macd.slowPeriod);
+    assert.equal(config.macd.signalPeriod, 5);
+    assert.deepEqual(validateDetectionConfig(config), {});
+  });
+
+  it('ignores detectors that are not registered', () => {
+    const config = toValidConfig({ retired: { enabled: true, weight: 0.5 }, zscore: { threshold: 3 } });
+    assert.equal('retired' in config, false);
+    assert.deepEqual(Object.keys(config).sort(), Object.keys(getDefaultConfig()).sort());
+    assert.equal(config.zscore.threshold, 3);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fitIsolationForest, scoreIsolationForest } from '@/utils/isolationForest';
+import { createSeededRandom } from '@/utils/random';
+
+// A two-feature cluster spread evenly over the square around the origin
+const createCluster = (size: number): number[][] => {
+  const random = createSeededRandom(42);
+  return Array.from({ length: size }, () => [random() * 2 - 1, random() * 2 - 1]);
+};
+
+const OPTIONS = { numTrees: 100, sampleSize: 64, seed: 7 };
+
+describe('isolation forest', () => {
+  it('scores the same with the same seed', () => {
+    const points = createCluster(200);
+    const first = fitIsolationForest(points, OPTIONS);
+    const second = fitIsolationForest(points, OPTIONS);
+    points.forEach(point => {
+      assert.equal(scoreIsolationForest(first, point), scoreIsolationForest(second, point));
+    });
+  });
+
+  it('scores differently with another seed', () => {
+    const points = createCluster(200);
+    const first = fitIsolationForest(points, OPTIONS);
+    const second = fitIsolationForest(points, { ...OPTIONS, seed: 8 });
+    assert.ok(points.some(point => scoreIsolationForest(first, point) !== scoreIsolationForest(second, point)));
+  });
+
+  it('scores an obvious outlier above every inlier', () => {
+    const points = createCluster(200);
+    const outlier = [12, -12];
+    const forest = fitIsolationForest([...points, outlier], OPTIONS);
+    const outlierScore = scoreIsolationForest(forest, outlier);
+    const inlierScores = points.map(point => scoreIsolationForest(forest, point));
+
+    assert.ok(outlierScore > Math.max(...inlierScores), `outlier ${outlierScore} vs inliers up to ${Math.max(...inlierScores)}`);
+    assert.ok(outlierScore > 0.6);
+    assert.ok(scoreIsolationForest(forest, [0, 0]) < 0.5);
+  });
+
+  it('scores nothing without trees', () => {
+    const forest = fitIsolationForest(createCluster(10), { ...OPTIONS, numTrees: 0 });
+    assert.equal(scoreIsolationForest(forest, [0, 0]), 0);
+  });
+});
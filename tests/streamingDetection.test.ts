@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnomalyData, StockData } from '@/types';
+import { createDetector, detectAnomalies, getDefaultConfig, getRegisteredDetectors } from '@/utils/anomalyDetection';
+import { DetectionJob, runDetectionJob } from '@/utils/detectionJobs';
+import { createSyntheticBenchmark } from '@/utils/evaluation';
+import { createSeededRandom, randomNormal } from '@/utils/random';
+import { getTradingDaysFrom } from '@/utils/tradingCalendar';
+
+// The streaming Isolation Forest is fitted on the trailing bars and refitted as they arrive, while
+// the batch one is fitted on the whole range, so they score against different histories. At least
+// this share of the anomalies either of them finds must be found by both.
+const ISOLATION_FOREST_MIN_SHARED = 0.4;
+
+// A calm seeded random walk
+const createCalmSeries = (bars: number): StockData[] => {
+  const random = createSeededRandom(5);
+  let close = 100;
+  return getTradingDaysFrom('2024-01-02', bars).map(date => {
+    const open = close;
+    close = close * (1 + 0.005 * randomNormal(random));
+    return {
+      symbol: 'TEST',
+      date,
+      open,
+      high: Math.max(open, close) * 1.002,
+      low: Math.min(open, close) * 0.998,
+      close,
+      volume: Math.round(1000000 * (1 + 0.1 * randomNormal(random)))
+    };
+  });
+};
+
+// A price jump of a third on the bar
+const withJump = (bar: StockData): StockData => ({ ...bar, close: bar.close * 1.33, high: bar.close * 1.34 });
+
+const streamAll = (bars: StockData[], config = getDefaultConfig()): Map<string, AnomalyData> => {
+  const detector = createDetector(config);
+  const found = new Map<string, AnomalyData>();
+  bars.forEach(bar => detector.update(bar).forEach(anomaly => found.set(anomaly.id, anomaly)));
+  return found;
+};
+
+const onlyDetector = (detectorId: string) => {
+  const config = getDefaultConfig();
+  Object.keys(config).forEach(id => {
+    config[id] = { ...config[id], enabled: id === detectorId };
+  });
+  return config;
+};
+
+describe('createDetector', () => {
+  it('reports a price jump at the bar it happens', () => {
+    const bars = createCalmSeries(80);
+    bars[70] = withJump(bars[70]);
+    const detector = createDetector();
+    const found = bars.map(bar => detector.update(bar));
+    assert.ok(found[70].some(anomaly => anomaly.type === 'price' && anomaly.date === bars[70].date));
+    assert.ok(found[70].every(anomaly => anomaly.date <= bars[70].date));
+  });
+
+  it('reports nothing until the detectors have some history', () => {
+    const bars = createCalmSeries(30);
+    bars[10] = withJump(bars[10]);
+    const detector = createDetector();
+    bars.slice(0, 19).forEach(bar => assert.deepEqual(detector.update(bar), []));
+  });
+
+  it('ignores invalid bars and bars that are not after the last one', () => {
+    const bars = createCalmSeries(40);
+    const detector = createDetector();
+    bars.forEach(bar => detector.update(bar));
+    const next = withJump({ ...bars[39], date: '2024-12-31' });
+    assert.deepEqual(detector.update({ ...next, close: 0 }), []);
+    assert.deepEqual(detector.update(withJump(bars[39])), []);
+    assert.deepEqual(detector.update(withJump(bars[20])), []);
+  });
+
+  getRegisteredDetectors().forEach(({ id }) => {
+    it(`finds what batch detection finds with only ${id} enabled`, () => {
+      const config = onlyDetector(id);
+      let batchCount = 0;
+      let streamCount = 0;
+      let shared = 0;
+      createSyntheticBenchmark().forEach(({ data }) => {
+        const batch = detectAnomalies(data, config).map(anomaly => anomaly.id).sort();
+        const stream = Array.from(streamAll(data, config).keys()).sort();
+        if (id !== 'isolationForest') {
+          assert.deepEqual(stream, batch);
+        }
+        batchCount += batch.length;
+        streamCount += stream.length;
+        shared += stream.filter(anomalyId => batch.includes(anomalyId)).length;
+      });
+      if (id === 'isolationForest') {
+        assert.ok(shared >= ISOLATION_FOREST_MIN_SHARED * Math.max(batchCount, streamCount),
+          `${shared} shared of ${batchCount} batch and ${streamCount} streaming anomalies`);
+      }
+    });
+  });
+});
+
+describe('streaming detection jobs', () => {
+  const streamJob = (key: string, bars: StockData[], config = getDefaultConfig()): DetectionJob => ({ kind: 'stream', key, bars, config });
+
+  // Runs the job and counts its progress reports, one per bar the kept detector is fed
+  const run = async (job: DetectionJob) => {
+    let fed = 0;
+    const anomalies = await runDetectionJob(job, () => fed++) as AnomalyData[];
+    return { anomalies, fed };
+  };
+
+  const bars = createSyntheticBenchmark()[0].data.slice(0, 200);
+
+  it('finds what one detector fed every bar finds', async () => {
+    const { anomalies, fed } = await run(streamJob('whole', bars));
+    assert.equal(fed, bars.length);
+    assert.deepEqual(anomalies.map(anomaly => anomaly.id).sort(), Array.from(streamAll(bars).keys()).sort());
+  });
+
+  it('keeps the detector between jobs and feeds it only the new bars', async () => {
+    await run(streamJob('kept', bars.slice(0, 150)));
+    const { anomalies, fed } = await run(streamJob('kept', bars));
+    assert.equal(fed, 50);
+    assert.deepEqual(anomalies.map(anomaly => anomaly.id).sort(), Array.from(streamAll(bars).keys()).sort());
+  });
+
+  it('starts again when the configuration changes', async () => {
+    await run(streamJob('config', bars));
+    const config = onlyDetector('zscore');
+    const { anomalies, fed } = await run(streamJob('config', bars, config));
+    assert.equal(fed, bars.length);
+    assert.deepEqual(anomalies.map(anomaly => anomaly.id).sort(), Array.from(streamAll(bars, config).keys()).sort());
+  });
+
+  it('starts again when the last bar it was fed is restated', async () => {
+    await run(streamJob('restated', bars.slice(0, 150)));
+    const restated = bars.map((bar, i) => (i < 150 ? { ...bar, close: bar.close / 2, open: bar.open / 2, high: bar.high / 2, low: bar.low / 2 } : bar));
+    const { fed } = await run(streamJob('restated', restated));
+    assert.equal(fed, bars.length);
+  });
+
+  it('drops anomalies before the first bar of the range', async () => {
+    await run(streamJob('moving', bars.slice(0, 150)));
+    const { anomalies, fed } = await run(streamJob('moving', bars.slice(100)));
+    assert.equal(fed, 50);
+    assert.ok(anomalies.every(anomaly => anomaly.date >= bars[100].date));
+  });
+
+  it('keeps detectors apart by key', async () => {
+    await run(streamJob('first', bars));
+    const { fed } = await run(streamJob('second', bars));
+    assert.equal(fed, bars.length);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  addTradingDays,
+  getEarlyClose,
+  getHoliday,
+  getSessionBounds,
+  getSessionClose,
+  isTradingDay,
+  nextTradingDay,
+  previousTradingDay
+} from '@/utils/tradingCalendar';
+
+describe('NYSE trading calendar', () => {
+  it('closes on Good Friday', () => {
+    ['2023-04-07', '2024-03-29', '2025-04-18'].forEach(date => {
+      assert.equal(getHoliday(date), 'Good Friday', date);
+      assert.equal(isTradingDay(date), false, date);
+    });
+    assert.equal(previousTradingDay('2024-03-31'), '2024-03-28');
+    assert.equal(addTradingDays('2024-04-01', -1), '2024-03-28');
+  });
+
+  it('observes weekend holidays on the nearest weekday', () => {
+    // Saturday holidays close the Friday before, Sunday holidays the Monday after
+    assert.equal(getHoliday('2020-07-03'), 'Independence Day');
+    assert.equal(getHoliday('2021-07-05'), 'Independence Day');
+    assert.equal(getHoliday('2022-06-20'), 'Juneteenth');
+    assert.equal(getHoliday('2022-12-26'), 'Christmas Day');
+    assert.equal(nextTradingDay('2022-12-24'), '2022-12-27');
+  });
+
+  it('does not observe New Year\'s Day on the Friday before', () => {
+    // 2022-01-01 was a Saturday
+    assert.equal(isTradingDay('2021-12-31'), true);
+    assert.equal(getHoliday('2022-01-03'), null);
+  });
+
+  it('observes Juneteenth only from 2022', () => {
+    assert.equal(isTradingDay('2021-06-18'), true);
+    assert.equal(getHoliday('2023-06-19'), 'Juneteenth');
+  });
+
+  it('closes for unscheduled closures', () => {
+    assert.equal(getHoliday('2012-10-29'), 'Hurricane Sandy');
+    assert.equal(isTradingDay('2025-01-09'), false);
+  });
+
+  it('closes at 1:00 pm before Independence Day, after Thanksgiving and on Christmas Eve', () => {
+    assert.equal(getEarlyClose('2024-07-03'), 'Day before Independence Day');
+    assert.equal(getEarlyClose('2024-11-29'), 'Day after Thanksgiving');
+    assert.equal(getEarlyClose('2024-12-24'), 'Christmas Eve');
+    assert.equal(getSessionClose('2024-11-29'), '13:00');
+    assert.equal(getSessionClose('2024-11-27'), '16:00');
+  });
+
+  it('has no early close on a weekend or a holiday', () => {
+    // 2020-07-03 was the observed Independence Day and 2022-12-24 a Saturday
+    assert.equal(getEarlyClose('2020-07-03'), null);
+    assert.equal(getEarlyClose('2022-12-24'), null);
+  });
+
+  it('gives session bounds in exchange time across daylight saving', () => {
+    assert.deepEqual(getSessionBounds('2024-07-03'), {
+      open: Date.parse('2024-07-03T09:30:00-04:00'),
+      close: Date.parse('2024-07-03T13:00:00-04:00')
+    });
+    assert.deepEqual(getSessionBounds('2024-11-29'), {
+      open: Date.parse('2024-11-29T09:30:00-05:00'),
+      close: Date.parse('2024-11-29T13:00:00-05:00')
+    });
+    assert.equal(getSessionBounds('2024-03-11').close, Date.parse('2024-03-11T16:00:00-04:00'));
+  });
+});
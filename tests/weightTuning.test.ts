@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnomalyContribution } from '@/types';
+import { getDefaultConfig } from '@/utils/anomalyDetection';
+import { LabelledDetection, MIN_TUNING_LABELS, tuneFromFeedback } from '@/utils/weightTuning';
+
+const contribution = (detectorId: string, statistic: number, pValue: number): AnomalyContribution => ({
+  detectorId,
+  statistic,
+  threshold: 2.5,
+  pValue,
+  weight: 1,
+  weightedScore: 0,
+  description: ''
+});
+
+// Z-score tells the confirmed anomalies apart, with larger moves and smaller p-values than the false
+// positives; Bollinger Bands scores both kinds alike
+const createLabels = (confirmed: number, falsePositives: number): LabelledDetection[] => [
+  ...Array.from({ length: confirmed }, (_, i) => ({
+    contributions: [contribution('zscore', 4.5 + i * 0.1, 0.002), contribution('bollingerBands', 2.5, 0.02 + i * 0.002)],
+    confirmed: true
+  })),
+  ...Array.from({ length: falsePositives }, (_, i) => ({
+    contributions: [contribution('zscore', 2.6 + i * 0.05, 0.15), contribution('bollingerBands', 2.5, 0.02 + i * 0.002)],
+    confirmed: false
+  }))
+];
+
+describe('tuneFromFeedback', () => {
+  const config = getDefaultConfig();
+  const proposal = tuneFromFeedback(createLabels(8, 8), config)!;
+  const tuning = (detectorId: string) => proposal.detectors.find(detector => detector.detectorId === detectorId)!;
+
+  it('proposes tuning for the detectors the labels involve', () => {
+    assert.ok(proposal);
+    assert.deepEqual(proposal.detectors.map(detector => detector.detectorId).sort(), ['bollingerBands', 'zscore']);
+    assert.equal(proposal.confirmed, 8);
+    assert.equal(proposal.falsePositives, 8);
+  });
+
+  it('gives more weight to the detector that tells the labels apart', () => {
+    assert.ok(tuning('zscore').proposedWeight > tuning('zscore').currentWeight, `${tuning('zscore').proposedWeight}`);
+    assert.ok(tuning('zscore').proposedWeight > tuning('bollingerBands').proposedWeight);
+    assert.equal(proposal.config.zscore.weight, tuning('zscore').proposedWeight);
+  });
+
+  it('never lowers a threshold', () => {
+    proposal.detectors.forEach(detector => {
+      assert.ok(detector.proposedThreshold! >= detector.currentThreshold!, detector.detectorId);
+    });
+
+    // Above every labelled finding, so only lowering it would flag more
+    const strict = { ...config, zscore: { ...config.zscore, threshold: 6 } };
+    const kept = tuneFromFeedback(createLabels(8, 8), strict)!.detectors.find(detector => detector.detectorId === 'zscore')!;
+    assert.equal(kept.proposedThreshold, 6);
+  });
+
+  it('raises a threshold above false positives only that detector found', () => {
+    const labels = createLabels(8, 8).map(sample => ({
+      ...sample,
+      contributions: sample.confirmed ? sample.contributions : sample.contributions.filter(c => c.detectorId === 'zscore')
+    }));
+    const raised = tuneFromFeedback(labels, config)!.detectors.find(detector => detector.detectorId === 'zscore')!;
+    assert.ok(raised.proposedThreshold! > 2.6 + 7 * 0.05, `${raised.proposedThreshold}`);
+    assert.ok(raised.proposedThreshold! <= 4.5);
+  });
+
+  it('proposes nothing with too few labels', () => {
+    assert.equal(tuneFromFeedback(createLabels(MIN_TUNING_LABELS / 2, MIN_TUNING_LABELS / 2 - 1), config), null);
+    assert.ok(tuneFromFeedback(createLabels(MIN_TUNING_LABELS / 2, MIN_TUNING_LABELS / 2), config));
+  });
+
+  it('proposes nothing when the labels are all of one kind', () => {
+    assert.equal(tuneFromFeedback(createLabels(12, 0), config), null);
+    assert.equal(tuneFromFeedback(createLabels(0, 12), config), null);
+  });
+});